@@ -1,5 +1,16 @@
 // Service worker for the Arabic Learning Extension
-import { initDB, loadVocabularyData, getSetting, updateSetting } from './utils/database';
+import { initDB, getSetting, updateSetting, lookupWord } from './utils/database';
+import { loadVocabularyData } from './utils/vocabularyImport';
+import { saveWordForReview, addCustomWord, CustomWordInput } from './utils/customVocabulary';
+import { getGloss, loadGlossChain } from './utils/glosses';
+import { createSnapshot } from './utils/snapshots';
+import {
+  startReviewSession,
+  answerReviewCard,
+  skipReviewCard,
+  undoReviewAnswer,
+  endReviewSession,
+} from './utils/reviewSession';
 
 // Initialize the extension
 const initialize = async () => {
@@ -33,6 +44,17 @@ const setupAlarms = () => {
     delayInMinutes: 1,
     periodInMinutes: 5 // Check every 5 minutes
   });
+  
+  // Local snapshot of progress and settings; only created once, since
+  // re-creating it on every service worker start would keep pushing it back
+  chrome.alarms.get('weeklySnapshot', alarm => {
+    if (!alarm) {
+      chrome.alarms.create('weeklySnapshot', {
+        delayInMinutes: 24 * 60,
+        periodInMinutes: 7 * 24 * 60 // Weekly
+      });
+    }
+  });
 };
 
 // Handle alarm events
@@ -48,6 +70,8 @@ chrome.alarms.onAlarm.addListener((alarm) => {
   } else if (alarm.name === 'checkBrowsingPause') {
     // Check if user is in a browsing pause and show flashcards if appropriate
     checkBrowsingActivity();
+  } else if (alarm.name === 'weeklySnapshot') {
+    createSnapshot('scheduled').catch(error => console.error('Error taking weekly snapshot:', error));
   }
 });
 
@@ -102,13 +126,45 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.action === 'analyzePageContent') {
     // Analyze page content for relevant vocabulary
     analyzePageContent(message.content)
+      .then(localizeGlosses)
       .then(relevantWords => sendResponse({ relevantWords }))
       .catch(error => sendResponse({ error: error.message }));
     return true; // Indicates async response
   } else if (message.action === 'saveWord') {
-    // Save new vocabulary word to database
-    // Implementation will be added later
-    sendResponse({ success: true });
+    // Save a dictionary word for review, or add the learner's own word
+    saveWord(message)
+      .then(result => sendResponse({ success: true, ...result }))
+      .catch(error => sendResponse({ success: false, error: error.message }));
+    return true; // Indicates async response
+  } else if (message.action === 'startReviewSession') {
+    // Start a review session for the popup or an in-page flashcard
+    startReviewSession(message.options)
+      .then(session => sendResponse({ session }))
+      .catch(error => sendResponse({ error: error.message }));
+    return true; // Indicates async response
+  } else if (message.action === 'answerReviewCard') {
+    // Answer the session's current card and move to the next
+    answerReviewCard(message.sessionId, message.grade, message.responseTimeMs)
+      .then(session => sendResponse({ session }))
+      .catch(error => sendResponse({ error: error.message }));
+    return true; // Indicates async response
+  } else if (message.action === 'undoReviewAnswer') {
+    // Take back the session's last answer
+    undoReviewAnswer(message.sessionId)
+      .then(session => sendResponse({ session }))
+      .catch(error => sendResponse({ error: error.message }));
+    return true; // Indicates async response
+  } else if (message.action === 'skipReviewCard') {
+    skipReviewCard(message.sessionId)
+      .then(session => sendResponse({ session }))
+      .catch(error => sendResponse({ error: error.message }));
+    return true; // Indicates async response
+  } else if (message.action === 'endReviewSession') {
+    // End the session; its final state carries the summary
+    endReviewSession(message.sessionId)
+      .then(session => sendResponse({ session }))
+      .catch(error => sendResponse({ error: error.message }));
+    return true; // Indicates async response
   } else if (message.action === 'getProgress') {
     // Retrieve user progress data
     // Implementation will be added later
@@ -122,6 +178,31 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
 });
 
+// Handle a saveWord message: { wordId } for a dictionary word, { word } for a custom one
+const saveWord = async (message: { wordId?: number; word?: CustomWordInput }) => {
+  if (message.word) {
+    const wordId = await addCustomWord(message.word);
+    return { wordId, created: true };
+  }
+  if (typeof message.wordId !== 'number') {
+    throw new Error('saveWord needs a wordId or a word');
+  }
+  const created = await saveWordForReview(message.wordId);
+  return { wordId: message.wordId, created };
+};
+
+// Show each word's gloss in the learner's gloss language when the dictionary has it.
+// Words are matched by their surface form, and take the dictionary entry's id so saving them
+// saves that entry.
+const localizeGlosses = async (words: Array<{ id: number, word: string, translation: string }>) => {
+  const chain = await loadGlossChain();
+  
+  return Promise.all(words.map(async word => {
+    const [match] = await lookupWord(word.word, 1);
+    return match ? { ...word, id: match.item.id!, translation: getGloss(match.item, chain).text } : word;
+  }));
+};
+
 // Analyze page content for relevant Arabic vocabulary
 const analyzePageContent = async (content: string) => {
   // This is a placeholder for the actual text analysis algorithm
@@ -0,0 +1,239 @@
+// AnkiPanel component for the Arabic Learning Extension
+import React, { useState } from 'react';
+import { exportAnkiPackage, exportAnkiText, AnkiExportSelection } from '../utils/ankiExport';
+import { readAnkiFile, guessFieldMapping, importAnkiDeck, AnkiDeck, AnkiFieldMapping } from '../utils/ankiImport';
+
+// Parts of a custom word that deck fields can fill
+const MAPPING_LABELS: Record<keyof AnkiFieldMapping, string> = {
+  word: 'Arabic word',
+  translation: 'Translation',
+  transliteration: 'Transliteration',
+  examples: 'Examples',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700';
+
+/**
+ * Save a file to the learner's downloads
+ * @param blob The file contents
+ * @param fileName The suggested file name
+ */
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AnkiPanel: React.FC = () => {
+  // Export state
+  const [selection, setSelection] = useState<AnkiExportSelection>({ deckName: 'Arabic', inReviewOnly: true });
+  
+  // Import state
+  const [deck, setDeck] = useState<AnkiDeck | null>(null);
+  const [mapping, setMapping] = useState<AnkiFieldMapping | null>(null);
+  const [importScheduling, setImportScheduling] = useState(true);
+  
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Export the selected words in one of Anki's formats
+  const handleExport = async (format: 'apkg' | 'csv' | 'tsv') => {
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const fileName = (selection.deckName || 'Arabic').replace(/[^\w\u0600-\u06FF-]+/g, '_');
+      if (format === 'apkg') {
+        downloadFile(await exportAnkiPackage(selection), `${fileName}.apkg`);
+      } else {
+        const text = await exportAnkiText(selection, format);
+        downloadFile(new Blob([text], { type: 'text/plain' }), `${fileName}.${format === 'csv' ? 'csv' : 'txt'}`);
+      }
+      setMessage('Export finished');
+    } catch (error) {
+      setMessage(`Error exporting: ${error.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Read a deck and suggest a field mapping
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files && event.target.files[0];
+    if (!file) return;
+    
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const loadedDeck = await readAnkiFile(file);
+      setDeck(loadedDeck);
+      setMapping(guessFieldMapping(loadedDeck));
+    } catch (error) {
+      setDeck(null);
+      setMessage(`Error reading deck: ${error.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!deck || !mapping) return;
+    
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const result = await importAnkiDeck(deck, mapping, { importScheduling });
+      setMessage(`Imported ${result.added} words (${result.skipped} already saved, ${result.invalid} without Arabic or a translation)`);
+      setDeck(null);
+    } catch (error) {
+      setMessage(`Error importing: ${error.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const previewNote = deck && deck.notes[0];
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Export to Anki</h3>
+        <div className="space-y-2">
+          <input
+            value={selection.deckName || ''}
+            onChange={(e) => setSelection({ ...selection, deckName: e.target.value })}
+            placeholder="Deck name"
+            className={inputClassName}
+          />
+          <div className="flex space-x-2">
+            <select
+              value={selection.source || ''}
+              onChange={(e) => setSelection({ ...selection, source: (e.target.value || undefined) as AnkiExportSelection['source'] })}
+              className={inputClassName}
+            >
+              <option value="">All words</option>
+              <option value="corpus">Dictionary words</option>
+              <option value="custom">My own words</option>
+            </select>
+            <select
+              value={selection.difficulty || ''}
+              onChange={(e) => setSelection({ ...selection, difficulty: (e.target.value || undefined) as AnkiExportSelection['difficulty'] })}
+              className={inputClassName}
+            >
+              <option value="">Any difficulty</option>
+              <option value="beginner">Beginner</option>
+              <option value="intermediate">Intermediate</option>
+              <option value="advanced">Advanced</option>
+            </select>
+          </div>
+          <input
+            value={selection.tag || ''}
+            onChange={(e) => setSelection({ ...selection, tag: e.target.value.trim() || undefined })}
+            placeholder="Tag (optional)"
+            className={inputClassName}
+          />
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!selection.inReviewOnly}
+              onChange={(e) => setSelection({ ...selection, inReviewOnly: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="ml-2">Only words saved for review</span>
+          </label>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleExport('apkg')}
+              disabled={isWorking}
+              className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50"
+            >
+              Anki package (.apkg)
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={isWorking}
+              className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('tsv')}
+              disabled={isWorking}
+              className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded disabled:opacity-50"
+            >
+              TSV
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Packages keep your review schedule and history; text files only carry the words.
+          </p>
+        </div>
+      </div>
+      
+      {/* Import */}
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Import from Anki</h3>
+        <input
+          type="file"
+          accept=".apkg,.colpkg,.csv,.tsv,.txt"
+          onChange={handleFileChange}
+          disabled={isWorking}
+          className="text-sm"
+        />
+        
+        {deck && mapping && (
+          <div className="mt-3 space-y-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {deck.notes.length} notes found
+              {deck.ignoredNotes > 0 && ` (${deck.ignoredNotes} of other note types will be skipped)`}
+            </p>
+            {(Object.keys(MAPPING_LABELS) as Array<keyof AnkiFieldMapping>).map(key => (
+              <div key={key} className="flex items-center space-x-2">
+                <span className="w-32 text-sm text-gray-700 dark:text-gray-300">{MAPPING_LABELS[key]}</span>
+                <select
+                  value={mapping[key]}
+                  onChange={(e) => setMapping({ ...mapping, [key]: parseInt(e.target.value) })}
+                  className={inputClassName}
+                >
+                  {key !== 'word' && key !== 'translation' && <option value={-1}>None</option>}
+                  {deck.fieldNames.map((name, index) => (
+                    <option key={index} value={index}>
+                      {name}{previewNote && previewNote.fields[index] ? ` (${previewNote.fields[index].slice(0, 20)})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={importScheduling}
+                onChange={(e) => setImportScheduling(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2">Keep Anki's review schedule</span>
+            </label>
+            <button
+              onClick={handleImport}
+              disabled={isWorking || mapping.word < 0 || mapping.translation < 0}
+              className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50"
+            >
+              Import {deck.notes.length} notes
+            </button>
+          </div>
+        )}
+      </div>
+      
+      {message && (
+        <p className={`text-sm ${message.includes('Error') ? 'text-red-500' : 'text-green-500'}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AnkiPanel;
@@ -0,0 +1,88 @@
+// DiagnosticsPanel component for the Arabic Learning Extension
+import React, { useState } from 'react';
+import { verifyDatabase, repairDatabase, IntegrityReport } from '../utils/integrity';
+
+const DiagnosticsPanel: React.FC = () => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Run the integrity checks
+  const handleCheck = async () => {
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const result = await verifyDatabase();
+      setReport(result);
+      setMessage(result.issues.length === 0 ? 'No problems found' : `Found ${result.issues.length} problem(s)`);
+    } catch (error) {
+      setMessage('Error checking database');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Fix what can be fixed, then show what is left
+  const handleRepair = async () => {
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const result = await repairDatabase();
+      setReport(result.report);
+      setMessage(`Repaired ${result.repaired} problem(s)`);
+    } catch (error) {
+      setMessage('Error repairing database');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const repairableCount = report ? report.issues.filter(issue => issue.repairable).length : 0;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Diagnostics
+      </label>
+      <div className="flex space-x-2">
+        <button
+          onClick={handleCheck}
+          disabled={isWorking}
+          className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50"
+        >
+          Check database
+        </button>
+        {repairableCount > 0 && (
+          <button
+            onClick={handleRepair}
+            disabled={isWorking}
+            className="px-3 py-1 text-sm bg-yellow-500 hover:bg-yellow-600 text-white rounded disabled:opacity-50"
+          >
+            Repair {repairableCount}
+          </button>
+        )}
+      </div>
+      
+      {message && (
+        <p className={`mt-2 text-sm ${
+          message.includes('Error') ? 'text-red-500' : 'text-gray-600 dark:text-gray-400'
+        }`}>
+          {message}
+        </p>
+      )}
+      
+      {report && report.issues.length > 0 && (
+        <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          {report.issues.map((issue, index) => (
+            <li key={index}>
+              {issue.message}
+              {!issue.repairable && <span className="ml-1 text-gray-400">(kept)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
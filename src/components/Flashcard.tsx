@@ -1,18 +1,32 @@
 // Flashcard component for the Arabic Learning Extension
 import React, { useState, useEffect } from 'react';
+import { ReviewGrade, GRADE_LABELS } from '../utils/scheduler';
+import { CardType } from '../utils/database';
 
 // Define interfaces for component props and state
 interface FlashcardProps {
   word: string;
   transliteration: string;
   translation: string;
-  onResponse: (correct: boolean) => void;
+  translationDir?: 'rtl' | 'ltr';
+  cardType?: CardType; // Production cards ask for the Arabic from the translation
+  onResponse: (grade: ReviewGrade) => void;
 }
 
+// Answer buttons, from forgotten to effortless
+export const GRADE_BUTTON_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-500 hover:bg-red-600',
+  hard: 'bg-yellow-500 hover:bg-yellow-600',
+  good: 'bg-green-500 hover:bg-green-600',
+  easy: 'bg-blue-500 hover:bg-blue-600',
+};
+
 const Flashcard: React.FC<FlashcardProps> = ({ 
   word, 
   transliteration, 
   translation, 
+  translationDir = 'ltr',
+  cardType = 'recognition',
   onResponse 
 }) => {
   // State for showing translation
@@ -20,6 +34,11 @@ const Flashcard: React.FC<FlashcardProps> = ({
   // State for flip animation
   const [isFlipping, setIsFlipping] = useState(false);
   
+  // Start each new card face down
+  useEffect(() => {
+    setShowTranslation(false);
+  }, [word, cardType]);
+  
   // Handle flip animation
   const handleFlip = () => {
     setIsFlipping(true);
@@ -38,16 +57,22 @@ const Flashcard: React.FC<FlashcardProps> = ({
         style={{ minHeight: '200px' }}
       >
         <div className="p-6">
-          {/* Front side (Arabic word) */}
+          {/* Front side (Arabic word, or the translation on production cards) */}
           <div className={`transition-opacity duration-300 ${showTranslation ? 'opacity-0 hidden' : 'opacity-100'}`}>
-            <p className="text-3xl font-bold mb-2 text-center text-gray-900 dark:text-white" dir="rtl">{word}</p>
-            <p className="text-sm text-gray-500 dark:text-gray-400 text-center mb-8">{transliteration}</p>
+            {cardType === 'production' ? (
+              <p className="text-xl text-center mb-8 text-gray-700 dark:text-gray-300" dir={translationDir}>{translation}</p>
+            ) : (
+              <>
+                <p className="text-3xl font-bold mb-2 text-center text-gray-900 dark:text-white" dir="rtl">{word}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center mb-8">{transliteration}</p>
+              </>
+            )}
             <div className="flex justify-center">
               <button
                 className="bg-blue-500 hover:bg-blue-600 text-white py-2 px-6 rounded-lg shadow transition-colors duration-200"
                 onClick={handleFlip}
               >
-                Show Translation
+                {cardType === 'production' ? 'Show Arabic' : 'Show Translation'}
               </button>
             </div>
           </div>
@@ -55,20 +80,20 @@ const Flashcard: React.FC<FlashcardProps> = ({
           {/* Back side (Translation) */}
           <div className={`transition-opacity duration-300 ${showTranslation ? 'opacity-100' : 'opacity-0 hidden'}`}>
             <p className="text-3xl font-bold mb-2 text-center text-gray-900 dark:text-white" dir="rtl">{word}</p>
-            <p className="text-xl text-center mb-6 text-gray-700 dark:text-gray-300">{translation}</p>
-            <div className="flex justify-between space-x-4">
-              <button
-                className="flex-1 bg-green-500 hover:bg-green-600 text-white py-2 px-4 rounded-lg shadow transition-colors duration-200"
-                onClick={() => onResponse(true)}
-              >
-                I knew it
-              </button>
-              <button
-                className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-white py-2 px-4 rounded-lg shadow transition-colors duration-200"
-                onClick={() => onResponse(false)}
-              >
-                Still learning
-              </button>
+            {cardType === 'production' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 text-center mb-2">{transliteration}</p>
+            )}
+            <p className="text-xl text-center mb-6 text-gray-700 dark:text-gray-300" dir={translationDir}>{translation}</p>
+            <div className="flex justify-between space-x-2">
+              {(Object.keys(GRADE_BUTTON_STYLES) as ReviewGrade[]).map(grade => (
+                <button
+                  key={grade}
+                  className={`flex-1 ${GRADE_BUTTON_STYLES[grade]} text-white py-2 px-2 rounded-lg shadow transition-colors duration-200`}
+                  onClick={() => onResponse(grade)}
+                >
+                  {GRADE_LABELS[grade]}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -0,0 +1,73 @@
+// ForecastChart component for the Arabic Learning Extension
+import React from 'react';
+import { ForecastDay } from '../utils/forecast';
+
+interface ForecastChartProps {
+  days: ForecastDay[];
+  showRange?: boolean; // Draw the 10th-90th percentile band of a simulation
+}
+
+const CHART_HEIGHT = 100;
+
+// Daily reviews as bars, with new words stacked on top
+const ForecastChart: React.FC<ForecastChartProps> = ({ days, showRange = false }) => {
+  if (days.length === 0) return null;
+
+  const peak = Math.max(1, ...days.map(day => Math.max(day.high, day.reviews) + day.newWords));
+  const scale = (value: number) => (value / peak) * CHART_HEIGHT;
+  const busiest = days.reduce((most, day) => (day.reviews > most.reviews ? day : most), days[0]);
+  const average = days.reduce((sum, day) => sum + day.reviews, 0) / days.length;
+
+  return (
+    <div>
+      <div className="flex">
+        <span className="text-xs text-gray-500 dark:text-gray-400 w-8">{Math.round(peak)}</span>
+        <svg
+          viewBox={`0 0 ${days.length} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="flex-1 h-32 bg-gray-50 dark:bg-gray-900 rounded"
+        >
+          {days.map((day, index) => (
+            <g key={day.date}>
+              <title>{`${day.date}: ${Math.round(day.reviews)} reviews, ${Math.round(day.newWords)} new`}</title>
+              <rect
+                x={index + 0.1}
+                width={0.8}
+                y={CHART_HEIGHT - scale(day.reviews)}
+                height={scale(day.reviews)}
+                className="fill-current text-blue-500"
+              />
+              <rect
+                x={index + 0.1}
+                width={0.8}
+                y={CHART_HEIGHT - scale(day.reviews + day.newWords)}
+                height={scale(day.newWords)}
+                className="fill-current text-green-500"
+              />
+              {showRange && day.high > day.low && (
+                <line
+                  x1={index + 0.5}
+                  x2={index + 0.5}
+                  y1={CHART_HEIGHT - scale(day.high)}
+                  y2={CHART_HEIGHT - scale(day.low)}
+                  strokeWidth={0.3}
+                  className="stroke-current text-gray-500"
+                />
+              )}
+            </g>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between ml-8 text-xs text-gray-500 dark:text-gray-400">
+        <span>{days[0].date}</span>
+        <span>{days[days.length - 1].date}</span>
+      </div>
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+        <span className="text-blue-500">■</span> reviews <span className="text-green-500">■</span> new words.
+        {` About ${Math.round(average)} reviews a day, busiest ${busiest.date} with ${Math.round(busiest.reviews)}.`}
+      </p>
+    </div>
+  );
+};
+
+export default ForecastChart;
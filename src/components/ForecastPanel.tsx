@@ -0,0 +1,96 @@
+// ForecastPanel component for the Arabic Learning Extension
+import React, { useState, useEffect } from 'react';
+import ForecastChart from './ForecastChart';
+import { getSetting } from '../utils/database';
+import { DEFAULT_NEW_WORDS_PER_DAY } from '../utils/newWords';
+import {
+  ForecastDay,
+  ForecastMode,
+  FORECAST_DAY_OPTIONS,
+  FORECAST_MODE_LABELS,
+  forecastWorkload,
+} from '../utils/forecast';
+
+const ForecastPanel: React.FC = () => {
+  const [days, setDays] = useState(FORECAST_DAY_OPTIONS[0]);
+  const [mode, setMode] = useState<ForecastMode>('deterministic');
+  // What-if values; they start at the learner's settings and are not saved
+  const [newWordsPerDay, setNewWordsPerDay] = useState<number | null>(null);
+  const [dailyGoal, setDailyGoal] = useState<number | null>(null);
+  const [forecast, setForecast] = useState<ForecastDay[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setNewWordsPerDay(await getSetting('newWordsPerDay') ?? DEFAULT_NEW_WORDS_PER_DAY);
+      setDailyGoal(await getSetting('dailyGoal') || 10);
+    };
+    loadSettings().catch(error => console.error('Error loading forecast settings:', error));
+  }, []);
+
+  // Recompute whenever an input changes
+  useEffect(() => {
+    if (newWordsPerDay === null || dailyGoal === null) return;
+    setIsWorking(true);
+    forecastWorkload({ days, mode, newWordsPerDay, dailyGoal })
+      .then(setForecast)
+      .finally(() => setIsWorking(false));
+  }, [days, mode, newWordsPerDay, dailyGoal]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Review forecast
+      </label>
+      <div className="flex space-x-2 mb-2">
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.target.value))}
+          className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+        >
+          {FORECAST_DAY_OPTIONS.map(option => (
+            <option key={option} value={option}>{option} days</option>
+          ))}
+        </select>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as ForecastMode)}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+        >
+          {(Object.keys(FORECAST_MODE_LABELS) as ForecastMode[]).map(option => (
+            <option key={option} value={option}>{FORECAST_MODE_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex space-x-2 mb-2 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center">
+          <span className="mr-1">New/day</span>
+          <input
+            type="number"
+            min="0"
+            max="50"
+            value={newWordsPerDay ?? ''}
+            onChange={(e) => e.target.value !== '' && setNewWordsPerDay(parseInt(e.target.value))}
+            className="w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="mr-1">Daily goal</span>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={dailyGoal ?? ''}
+            onChange={(e) => e.target.value !== '' && setDailyGoal(parseInt(e.target.value))}
+            className="w-14 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+      </div>
+      <div className={isWorking ? 'opacity-50' : ''}>
+        <ForecastChart days={forecast} showRange={mode === 'simulation'} />
+      </div>
+    </div>
+  );
+};
+
+export default ForecastPanel;
@@ -5,6 +5,7 @@ import React, { useState, useEffect, useRef } from 'react';
 interface HoverTranslationProps {
   word: string;
   translation: string;
+  wordId?: number; // Dictionary entry to save; without one there is nothing to save
   position: {
     x: number;
     y: number;
@@ -15,11 +16,13 @@ interface HoverTranslationProps {
 const HoverTranslation: React.FC<HoverTranslationProps> = ({
   word,
   translation,
+  wordId,
   position,
   onClose
 }) => {
   const tooltipRef = useRef<HTMLDivElement>(null);
   const [visible, setVisible] = useState(false);
+  const [saved, setSaved] = useState(false);
   
   // Position the tooltip and handle animation
   useEffect(() => {
@@ -66,17 +69,22 @@ const HoverTranslation: React.FC<HoverTranslationProps> = ({
         <p className="text-sm text-gray-700 dark:text-gray-300">{translation}</p>
         
         {/* Save button */}
-        <button
-          className="mt-2 text-xs bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded"
-          onClick={(e) => {
-            e.stopPropagation();
-            // Here you would implement saving the word
-            // For now, just close the tooltip
-            onClose();
-          }}
-        >
-          Save for Review
-        </button>
+        {wordId !== undefined && (
+          <button
+            className={`mt-2 text-xs text-white px-2 py-1 rounded ${
+              saved ? 'bg-green-500 cursor-not-allowed' : 'bg-blue-500 hover:bg-blue-600'
+            }`}
+            disabled={saved}
+            onClick={(e) => {
+              e.stopPropagation();
+              chrome.runtime.sendMessage({ action: 'saveWord', wordId }, response => {
+                if (response && response.success) setSaved(true);
+              });
+            }}
+          >
+            {saved ? 'Saved' : 'Save for Review'}
+          </button>
+        )}
         
         {/* Close button */}
         <button
@@ -0,0 +1,108 @@
+// ProblemWordsPanel component for the Arabic Learning Extension
+import React, { useState, useEffect } from 'react';
+import { CardType } from '../utils/database';
+import { ProblemWord, getProblemWords, unsuspendWord, setCardType, saveWordNotes } from '../utils/leeches';
+
+// Failed answers shown per word; older ones are summarized as a count
+const RECENT_FAILURES = 5;
+
+const ProblemWordsPanel: React.FC = () => {
+  const [words, setWords] = useState<ProblemWord[]>([]);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadWords = async () => {
+    const problems = await getProblemWords();
+    setWords(problems);
+    setNotes(Object.fromEntries(problems.map(({ item }) => [item.id!, item.notes || ''])));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadWords();
+  }, []);
+
+  const handleUnsuspend = async (wordId: number) => {
+    await unsuspendWord(wordId);
+    await loadWords();
+  };
+
+  const handleCardTypeChange = async (wordId: number, cardType: CardType) => {
+    await setCardType(wordId, cardType);
+    await loadWords();
+  };
+
+  const handleNotesBlur = async (wordId: number) => {
+    await saveWordNotes(wordId, notes[wordId] || '');
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>;
+  }
+
+  if (words.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No problem words. Words you keep forgetting will show up here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {words.map(({ item, progress, failures }) => {
+        const wordId = item.id!;
+        const cardType = progress.cardType || 'recognition';
+        return (
+          <div key={wordId} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="text-lg font-bold text-right">{item.word}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{item.translation}</p>
+              </div>
+              <div className="text-right text-xs">
+                <p className="text-red-500">{progress.lapses} lapses</p>
+                {progress.suspended && <p className="text-gray-500 dark:text-gray-400">Suspended</p>}
+              </div>
+            </div>
+
+            {failures.length > 0 && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Forgotten on {failures.slice(-RECENT_FAILURES).map(date => date.toLocaleDateString()).join(', ')}
+                {failures.length > RECENT_FAILURES && ` and ${failures.length - RECENT_FAILURES} earlier`}
+              </p>
+            )}
+
+            <textarea
+              value={notes[wordId] || ''}
+              placeholder="Mnemonic or notes"
+              rows={2}
+              onChange={(e) => setNotes({ ...notes, [wordId]: e.target.value })}
+              onBlur={() => handleNotesBlur(wordId)}
+              className="mt-2 w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+            />
+
+            <div className="mt-2 flex space-x-2">
+              {progress.suspended && (
+                <button
+                  onClick={() => handleUnsuspend(wordId)}
+                  className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded"
+                >
+                  Unsuspend
+                </button>
+              )}
+              <button
+                onClick={() => handleCardTypeChange(wordId, cardType === 'production' ? 'recognition' : 'production')}
+                className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded"
+              >
+                {cardType === 'production' ? 'Show Arabic first' : 'Show meaning first'}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProblemWordsPanel;
@@ -0,0 +1,202 @@
+// ReviewSession component for the Arabic Learning Extension
+import React, { useState, useEffect, useRef } from 'react';
+import Flashcard from './Flashcard';
+import { ReviewSource } from '../utils/database';
+import { ReviewGrade } from '../utils/scheduler';
+import { getGlossDirection } from '../utils/glosses';
+import { ReviewSessionState } from '../utils/reviewSession';
+import { startSession, answerCard, skipCard, undoAnswer, endSession } from '../utils/reviewSessionClient';
+
+interface ReviewSessionProps {
+  source: ReviewSource;
+  limit?: number; // Most due reviews to include
+  onClose?: () => void; // Shows a close button when given
+}
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ source, limit, onClose }) => {
+  const [session, setSession] = useState<ReviewSessionState | null>(null);
+  const [message, setMessage] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  // The session open in the background, and when its card was shown. A finished session
+  // stays open so its last answers can still be undone, until the view closes.
+  const openSessionId = useRef<string | null>(null);
+  const shownAt = useRef(Date.now());
+  // Set at once, unlike isWorking, so a second click or key press before the next render is ignored
+  const isBusy = useRef(false);
+
+  // Run a session call, showing its result or its error; ignored while another is running
+  const run = async (call: () => Promise<ReviewSessionState>) => {
+    if (isBusy.current) return;
+    isBusy.current = true;
+    setIsWorking(true);
+    try {
+      const state = await call();
+      openSessionId.current = state.id;
+      shownAt.current = Date.now();
+      setSession(state);
+    } catch (error) {
+      setMessage(`Error: ${error.message}`);
+    } finally {
+      isBusy.current = false;
+      setIsWorking(false);
+    }
+  };
+
+  // End the open session; answers already given are saved
+  const endOpenSession = () => {
+    if (openSessionId.current) {
+      endSession(openSessionId.current).catch(error => console.error('Error ending review session:', error));
+      openSessionId.current = null;
+    }
+  };
+
+  useEffect(() => {
+    run(() => startSession({ source, limit }));
+    return endOpenSession;
+  }, []);
+
+  const handleResponse = (grade: ReviewGrade) => {
+    if (!session) return;
+    run(() => answerCard(session.id, grade, Date.now() - shownAt.current));
+  };
+
+  const handleSkip = () => {
+    if (!session) return;
+    run(() => skipCard(session.id));
+  };
+
+  const handleUndo = () => {
+    if (!session?.canUndo) return;
+    setMessage('');
+    run(() => undoAnswer(session.id));
+  };
+
+  // Undo from the keyboard with U or Ctrl/Cmd+Z, unless the learner is typing somewhere
+  const handleUndoKey = (event: KeyboardEvent | React.KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+    const isUndo = (event.key === 'z' && (event.ctrlKey || event.metaKey)) || (event.key === 'u' && !event.ctrlKey && !event.metaKey);
+    if (isUndo && session?.canUndo) {
+      event.preventDefault();
+      handleUndo();
+    }
+  };
+
+  // The popup is ours, so it listens on the whole window; on other sites only keys pressed
+  // inside the card count, and the page keeps its own shortcuts
+  const isInPage = source === 'in-page';
+  useEffect(() => {
+    if (isInPage) return;
+    window.addEventListener('keydown', handleUndoKey);
+    return () => window.removeEventListener('keydown', handleUndoKey);
+  });
+  const onKeyDown = isInPage ? handleUndoKey : undefined;
+
+  const handleLearnNewWords = async () => {
+    setMessage('');
+    endOpenSession();
+    await run(async () => {
+      const state = await startSession({ source, newWordsOnly: true });
+      if (state.finished) setMessage("You've reached today's new-word limit");
+      return state;
+    });
+  };
+
+  const undoButton = session?.canUndo && (
+    <button onClick={handleUndo} disabled={isWorking} title="Undo the last answer (U)" className="hover:underline disabled:opacity-50">
+      Undo
+    </button>
+  );
+
+  const closeButton = onClose && (
+    <button
+      onClick={onClose}
+      className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+    >
+      Close
+    </button>
+  );
+
+  if (!session) {
+    return (
+      <div className="text-center py-8">
+        <p className={`text-sm ${message.includes('Error') ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+          {message || 'Loading...'}
+        </p>
+        {closeButton}
+      </div>
+    );
+  }
+
+  if (session.card) {
+    const { card } = session;
+    return (
+      <div onKeyDown={onKeyDown}>
+        <Flashcard
+          key={shownAt.current} // Face down again even when the same word comes back
+          word={card.word}
+          transliteration={card.transliteration}
+          translation={card.translation}
+          translationDir={getGlossDirection(card.glossLanguage)}
+          cardType={card.cardType}
+          onResponse={handleResponse}
+        />
+        <div className="mt-4 flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
+          <span>{session.remaining} left{card.kind === 'new' ? ' · new word' : ''}</span>
+          <div className="space-x-3">
+            {undoButton}
+            <button onClick={handleSkip} disabled={isWorking} className="hover:underline disabled:opacity-50">
+              Skip
+            </button>
+            {closeButton}
+          </div>
+        </div>
+        {message && <p className="mt-2 text-sm text-red-500">{message}</p>}
+      </div>
+    );
+  }
+
+  // Session over
+  const { summary } = session;
+  return (
+    <div className="text-center py-8" onKeyDown={onKeyDown}>
+      {summary.answered > 0 ? (
+        <div className="mb-4">
+          <p className="text-lg font-semibold">Session complete</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {summary.answered} answers, {Math.round(summary.correct / summary.answered * 100)}% correct
+            {summary.newWords > 0 && `, ${summary.newWords} new words`}
+            {` in ${Math.max(1, Math.round(summary.durationMs / 60000))} min`}
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400 mb-4">No flashcards due for review!</p>
+      )}
+      {summary.buried > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {summary.buried} related words held back until tomorrow
+        </p>
+      )}
+      <button
+        className="bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded disabled:opacity-50"
+        onClick={handleLearnNewWords}
+        disabled={isWorking}
+      >
+        Learn New Words
+      </button>
+      {message && (
+        <p className={`mt-2 text-sm ${message.includes('Error') ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+          {message}
+        </p>
+      )}
+      {(undoButton || closeButton) && (
+        <div className="mt-2 space-x-3 text-sm text-gray-500 dark:text-gray-400">
+          {undoButton}
+          {closeButton}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
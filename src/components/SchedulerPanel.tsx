@@ -0,0 +1,244 @@
+// SchedulerPanel component for the Arabic Learning Extension
+import React, { useState, useEffect } from 'react';
+import { getSetting, updateSetting } from '../utils/database';
+import { SchedulerName, SCHEDULER_LABELS, DEFAULT_SCHEDULER, DEFAULT_DESIRED_RETENTION } from '../utils/scheduler';
+import { optimizeFsrsFromHistory } from '../utils/fsrsOptimizer';
+import { DEFAULT_LEARNING_STEP_OPTIONS, formatSteps, parseSteps } from '../utils/learningSteps';
+import { DEFAULT_LOAD_BALANCING_OPTIONS } from '../utils/loadBalancer';
+
+const SchedulerPanel: React.FC = () => {
+  const [scheduler, setScheduler] = useState<SchedulerName>(DEFAULT_SCHEDULER);
+  const [desiredRetention, setDesiredRetention] = useState(String(DEFAULT_DESIRED_RETENTION));
+  const [hasCustomParameters, setHasCustomParameters] = useState(false);
+  const [learningSteps, setLearningSteps] = useState(formatSteps(DEFAULT_LEARNING_STEP_OPTIONS.learningSteps));
+  const [relearningSteps, setRelearningSteps] = useState(formatSteps(DEFAULT_LEARNING_STEP_OPTIONS.relearningSteps));
+  const [graduatingInterval, setGraduatingInterval] = useState(DEFAULT_LEARNING_STEP_OPTIONS.graduatingInterval);
+  const [easyInterval, setEasyInterval] = useState(DEFAULT_LEARNING_STEP_OPTIONS.easyInterval);
+  const [fuzzEnabled, setFuzzEnabled] = useState(DEFAULT_LOAD_BALANCING_OPTIONS.fuzz);
+  const [loadBalancing, setLoadBalancing] = useState(DEFAULT_LOAD_BALANCING_OPTIONS.loadBalancing);
+  const [maxReviewsPerDay, setMaxReviewsPerDay] = useState(DEFAULT_LOAD_BALANCING_OPTIONS.maxReviewsPerDay);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setScheduler(await getSetting('scheduler') || DEFAULT_SCHEDULER);
+      setDesiredRetention(String(await getSetting('desiredRetention') || DEFAULT_DESIRED_RETENTION));
+      setHasCustomParameters(Boolean(await getSetting('fsrsParameters')));
+      setLearningSteps(formatSteps(await getSetting('learningSteps') || DEFAULT_LEARNING_STEP_OPTIONS.learningSteps));
+      setRelearningSteps(formatSteps(await getSetting('relearningSteps') || DEFAULT_LEARNING_STEP_OPTIONS.relearningSteps));
+      setGraduatingInterval(await getSetting('graduatingInterval') || DEFAULT_LEARNING_STEP_OPTIONS.graduatingInterval);
+      setEasyInterval(await getSetting('easyInterval') || DEFAULT_LEARNING_STEP_OPTIONS.easyInterval);
+      setFuzzEnabled(await getSetting('fuzzEnabled') ?? DEFAULT_LOAD_BALANCING_OPTIONS.fuzz);
+      setLoadBalancing(await getSetting('loadBalancing') ?? DEFAULT_LOAD_BALANCING_OPTIONS.loadBalancing);
+      setMaxReviewsPerDay(await getSetting('maxReviewsPerDay') ?? DEFAULT_LOAD_BALANCING_OPTIONS.maxReviewsPerDay);
+    };
+    loadSettings().catch(error => console.error('Error loading scheduler settings:', error));
+  }, []);
+
+  // Switch algorithm; words keep their due dates and are rescheduled at their next review
+  const handleSchedulerChange = async (name: SchedulerName) => {
+    await updateSetting('scheduler', name);
+    setScheduler(name);
+  };
+
+  // Save when the field is left, so values can be typed digit by digit; out-of-range values are clamped
+  const handleRetentionBlur = async (text: string) => {
+    const value = parseFloat(text);
+    if (isNaN(value)) {
+      setMessage('Error: desired retention is a number between 0.7 and 0.97');
+      return;
+    }
+    const retention = Math.min(0.97, Math.max(0.7, value));
+    await updateSetting('desiredRetention', retention);
+    setDesiredRetention(String(retention));
+    setMessage('');
+  };
+
+  // Save steps typed as e.g. "1m 10m"; an empty field means no steps
+  const handleStepsBlur = async (key: 'learningSteps' | 'relearningSteps', text: string) => {
+    const steps = parseSteps(text);
+    if (!steps) {
+      setMessage('Error: steps look like "1m 10m 1h"');
+      return;
+    }
+    await updateSetting(key, steps);
+    (key === 'learningSteps' ? setLearningSteps : setRelearningSteps)(formatSteps(steps));
+    setMessage('');
+  };
+
+  const handleIntervalChange = async (key: 'graduatingInterval' | 'easyInterval', value: number) => {
+    if (!(value >= 1)) return;
+    await updateSetting(key, Math.round(value));
+    (key === 'graduatingInterval' ? setGraduatingInterval : setEasyInterval)(Math.round(value));
+  };
+
+  const handleFuzzChange = async (key: 'fuzzEnabled' | 'loadBalancing', value: boolean) => {
+    await updateSetting(key, value);
+    (key === 'fuzzEnabled' ? setFuzzEnabled : setLoadBalancing)(value);
+  };
+
+  // 0 removes the cap
+  const handleMaxReviewsChange = async (value: number) => {
+    if (!(value >= 0)) return;
+    await updateSetting('maxReviewsPerDay', Math.round(value));
+    setMaxReviewsPerDay(Math.round(value));
+  };
+
+  // Fit FSRS to the learner's review history
+  const handleOptimize = async () => {
+    setIsWorking(true);
+    setMessage('');
+    try {
+      const result = await optimizeFsrsFromHistory();
+      const improved = result.lossAfter < result.lossBefore;
+      if (improved) setHasCustomParameters(true);
+      setMessage(improved
+        ? `Fitted to ${result.reviewCount} reviews (log loss ${result.lossBefore.toFixed(3)} → ${result.lossAfter.toFixed(3)})`
+        : `The current parameters already fit your ${result.reviewCount} reviews best`);
+    } catch (error) {
+      setMessage(`Error optimizing: ${error.message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleResetParameters = async () => {
+    await updateSetting('fsrsParameters', null);
+    setHasCustomParameters(false);
+    setMessage('Using the default FSRS parameters');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Scheduling algorithm
+      </label>
+      <select
+        value={scheduler}
+        onChange={(e) => handleSchedulerChange(e.target.value as SchedulerName)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+      >
+        {(Object.keys(SCHEDULER_LABELS) as SchedulerName[]).map(name => (
+          <option key={name} value={name}>{SCHEDULER_LABELS[name]}</option>
+        ))}
+      </select>
+
+      <div className="mt-2 space-y-2 text-sm text-gray-700 dark:text-gray-300">
+        <label className="flex items-center">
+          <span className="flex-1">Learning steps</span>
+          <input
+            value={learningSteps}
+            onChange={(e) => setLearningSteps(e.target.value)}
+            onBlur={(e) => handleStepsBlur('learningSteps', e.target.value)}
+            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="flex-1">Relearning steps</span>
+          <input
+            value={relearningSteps}
+            onChange={(e) => setRelearningSteps(e.target.value)}
+            onBlur={(e) => handleStepsBlur('relearningSteps', e.target.value)}
+            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="flex-1">Graduating interval (days)</span>
+          <input
+            type="number"
+            min="1"
+            value={graduatingInterval}
+            onChange={(e) => handleIntervalChange('graduatingInterval', parseInt(e.target.value))}
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="flex-1">Easy interval (days)</span>
+          <input
+            type="number"
+            min="1"
+            value={easyInterval}
+            onChange={(e) => handleIntervalChange('easyInterval', parseInt(e.target.value))}
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={fuzzEnabled}
+            onChange={(e) => handleFuzzChange('fuzzEnabled', e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <span className="ml-2">Spread out due dates</span>
+        </label>
+        <label className="flex items-center">
+          <input
+            type="checkbox"
+            checked={loadBalancing}
+            disabled={!fuzzEnabled}
+            onChange={(e) => handleFuzzChange('loadBalancing', e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+          />
+          <span className="ml-2">Prefer the least busy day</span>
+        </label>
+        <label className="flex items-center">
+          <span className="flex-1">Maximum reviews per day (0 for no limit)</span>
+          <input
+            type="number"
+            min="0"
+            value={maxReviewsPerDay}
+            onChange={(e) => handleMaxReviewsChange(parseInt(e.target.value))}
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+          />
+        </label>
+      </div>
+
+      {scheduler === 'fsrs' && (
+        <div className="mt-2 space-y-2">
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <span className="flex-1">Desired retention</span>
+            <input
+              type="number"
+              min="0.7"
+              max="0.97"
+              step="0.01"
+              value={desiredRetention}
+              onChange={(e) => setDesiredRetention(e.target.value)}
+              onBlur={(e) => handleRetentionBlur(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700"
+            />
+          </label>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleOptimize}
+              disabled={isWorking}
+              className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50"
+            >
+              {isWorking ? 'Optimizing...' : 'Optimize from my reviews'}
+            </button>
+            {hasCustomParameters && (
+              <button
+                onClick={handleResetParameters}
+                disabled={isWorking}
+                className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded disabled:opacity-50"
+              >
+                Use defaults
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-sm ${
+          message.includes('Error') ? 'text-red-500' : 'text-gray-600 dark:text-gray-400'
+        }`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SchedulerPanel;
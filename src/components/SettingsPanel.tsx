@@ -1,6 +1,7 @@
 // SettingsPanel component for the Arabic Learning Extension
 import React, { useState, useEffect } from 'react';
 import { getSetting, updateSetting } from '../utils/database';
+import { GLOSS_LANGUAGES, GlossLanguage } from '../utils/glosses';
 
 // Define interfaces for component props
 interface SettingsPanelProps {
@@ -13,6 +14,9 @@ interface Settings {
   theme: 'light' | 'dark' | 'auto';
   showSidebar: boolean;
   hoverTranslationEnabled: boolean;
+  transliterationScheme: 'simple' | 'academic' | 'chat';
+  glossLanguage: GlossLanguage;
+  glossFallbackLanguages: GlossLanguage[];
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
@@ -24,7 +28,10 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     notificationsEnabled: true,
     theme: 'auto',
     showSidebar: true,
-    hoverTranslationEnabled: true
+    hoverTranslationEnabled: true,
+    transliterationScheme: 'simple',
+    glossLanguage: 'en',
+    glossFallbackLanguages: []
   });
   
   // State for saving status
@@ -40,13 +47,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         const theme = await getSetting('theme') || 'auto';
         const showSidebar = await getSetting('showSidebar') !== false;
         const hoverTranslationEnabled = await getSetting('hoverTranslationEnabled') !== false;
+        const transliterationScheme = await getSetting('transliterationScheme') || 'simple';
+        const glossLanguage = await getSetting('glossLanguage') || 'en';
+        const glossFallbackLanguages = await getSetting('glossFallbackLanguages') || [];
         
         const loadedSettings = {
           dailyGoal,
           notificationsEnabled,
           theme: theme as 'light' | 'dark' | 'auto',
           showSidebar,
-          hoverTranslationEnabled
+          hoverTranslationEnabled,
+          transliterationScheme: transliterationScheme as 'simple' | 'academic' | 'chat',
+          glossLanguage: glossLanguage as GlossLanguage,
+          glossFallbackLanguages
         };
         
         setSettings(loadedSettings);
@@ -92,6 +105,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     }
   };
 
+  // Add or remove a fallback language, keeping the chain in display order
+  const toggleFallbackLanguage = (language: GlossLanguage, enabled: boolean) => {
+    const fallbacks = (Object.keys(GLOSS_LANGUAGES) as GlossLanguage[]).filter(code => (
+      code === language ? enabled : settings.glossFallbackLanguages.includes(code)
+    ));
+    handleSettingChange('glossFallbackLanguages', fallbacks);
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-5">
       <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">Settings</h3>
@@ -196,6 +217,58 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             <option value="auto">Auto (follow browser)</option>
           </select>
         </div>
+        
+        {/* Transliteration */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Transliteration
+          </label>
+          <select
+            value={settings.transliterationScheme}
+            onChange={(e) => handleSettingChange('transliterationScheme', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="simple">Simple (rahma)</option>
+            <option value="academic">Academic (raḥma)</option>
+            <option value="chat">Chat (ra7ma)</option>
+          </select>
+        </div>
+        
+        {/* Gloss language */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Translation language
+          </label>
+          <select
+            value={settings.glossLanguage}
+            onChange={(e) => handleSettingChange('glossLanguage', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {(Object.keys(GLOSS_LANGUAGES) as GlossLanguage[]).map(code => (
+              <option key={code} value={code}>{GLOSS_LANGUAGES[code]}</option>
+            ))}
+          </select>
+          
+          {/* Fallbacks for words without a gloss in the chosen language; English is always last */}
+          <p className="mt-3 mb-1 text-xs text-gray-500 dark:text-gray-400">
+            When a word has no translation in this language, try:
+          </p>
+          <div className="space-y-1">
+            {(Object.keys(GLOSS_LANGUAGES) as GlossLanguage[])
+              .filter(code => code !== settings.glossLanguage && code !== 'en')
+              .map(code => (
+                <label key={code} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.glossFallbackLanguages.includes(code)}
+                    onChange={(e) => toggleFallbackLanguage(code, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">{GLOSS_LANGUAGES[code]}</span>
+                </label>
+              ))}
+          </div>
+        </div>
       </div>
       
       {/* Save message */}
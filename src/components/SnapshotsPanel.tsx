@@ -0,0 +1,119 @@
+// SnapshotsPanel component for the Arabic Learning Extension
+import React, { useState, useEffect } from 'react';
+import { listSnapshots, createSnapshot, restoreSnapshot, deleteSnapshot, SnapshotSummary } from '../utils/snapshots';
+
+// Define interfaces for component props
+interface SnapshotsPanelProps {
+  onRestore?: () => void; // Called once a snapshot has been restored, to reload what is shown
+}
+
+// How each kind of snapshot is labelled
+const REASON_LABELS: Record<SnapshotSummary['reason'], string> = {
+  migration: 'Before update',
+  import: 'Before import',
+  scheduled: 'Weekly',
+  restore: 'Before restore',
+  manual: 'Manual',
+};
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({
+  onRestore
+}) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Load snapshots on component mount
+  useEffect(() => {
+    listSnapshots().then(setSnapshots);
+  }, []);
+
+  // Run an action, then refresh the list; resolves to whether the action succeeded
+  const run = async (action: () => Promise<unknown>, success: string, failure: string): Promise<boolean> => {
+    setIsWorking(true);
+    setMessage('');
+    try {
+      await action();
+      setMessage(success);
+      setSnapshots(await listSnapshots());
+      return true;
+    } catch (error) {
+      setMessage(failure);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    if (!window.confirm(`Replace your progress and settings with the snapshot from ${snapshot.createdAt.toLocaleString()}?`)) {
+      return;
+    }
+    const restored = await run(() => restoreSnapshot(snapshot.id), 'Snapshot restored', 'Error restoring snapshot');
+    if (restored && onRestore) {
+      onRestore();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Snapshots
+        </label>
+        <button
+          onClick={() => run(() => createSnapshot('manual'), 'Snapshot created', 'Error creating snapshot')}
+          disabled={isWorking}
+          className="px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded disabled:opacity-50"
+        >
+          Take snapshot
+        </button>
+      </div>
+      
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No snapshots yet</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="py-1 flex justify-between items-center text-xs">
+              <div>
+                <p className="text-gray-700 dark:text-gray-300">
+                  {REASON_LABELS[snapshot.reason]} · {snapshot.createdAt.toLocaleString()}
+                </p>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {snapshot.progressCount} words in review, {snapshot.customVocabularyCount} custom words
+                </p>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => handleRestore(snapshot)}
+                  disabled={isWorking}
+                  className="px-2 py-1 bg-yellow-500 hover:bg-yellow-600 text-white rounded disabled:opacity-50"
+                >
+                  Restore
+                </button>
+                <button
+                  onClick={() => run(() => deleteSnapshot(snapshot.id), 'Snapshot deleted', 'Error deleting snapshot')}
+                  disabled={isWorking}
+                  className="px-2 py-1 text-gray-500 hover:text-red-500"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {message && (
+        <p className={`mt-2 text-sm ${
+          message.includes('Error') ? 'text-red-500' : 'text-green-500'
+        }`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
@@ -6,6 +6,7 @@ interface VocabularyItemProps {
   word: string;
   transliteration: string;
   translation: string;
+  senses?: Array<{ gloss: string; occurrences: number }>; // Most frequent first
   tags?: string[];
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   onSave?: () => void;
@@ -16,6 +17,7 @@ const VocabularyItem: React.FC<VocabularyItemProps> = ({
   word,
   transliteration,
   translation,
+  senses = [],
   tags = [],
   difficulty,
   onSave,
@@ -47,6 +49,18 @@ const VocabularyItem: React.FC<VocabularyItemProps> = ({
         {/* Translation */}
         <p className="text-base text-gray-700 dark:text-gray-300 mb-3">{translation}</p>
         
+        {/* Other senses, most frequent first */}
+        {senses.length > 1 && (
+          <ul className="text-sm text-gray-600 dark:text-gray-400 mb-3 space-y-0.5">
+            {senses.slice(1, 4).map((sense, index) => (
+              <li key={index} className="flex justify-between">
+                <span>{sense.gloss}</span>
+                <span className="text-xs text-gray-400 dark:text-gray-500">×{sense.occurrences}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        
         {/* Tags and difficulty */}
         <div className="flex flex-wrap items-center gap-2 mb-3">
           {difficulty && (
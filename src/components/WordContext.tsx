@@ -0,0 +1,93 @@
+// WordContext component for the Arabic Learning Extension
+import React, { useState, useEffect } from 'react';
+import { getOccurrences, getAyahWords, WordOccurrence } from '../utils/database';
+
+// Define interfaces for component props
+interface WordContextProps {
+  wordId: number;
+  maxExamples?: number;
+}
+
+interface AyahExample {
+  occurrence: WordOccurrence;
+  words: WordOccurrence[];
+}
+
+const WordContext: React.FC<WordContextProps> = ({
+  wordId,
+  maxExamples = 3
+}) => {
+  // State for the ayahs the word appears in
+  const [examples, setExamples] = useState<AyahExample[]>([]);
+  const [totalOccurrences, setTotalOccurrences] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load occurrences when the word changes
+  useEffect(() => {
+    const loadContext = async () => {
+      setIsLoading(true);
+      try {
+        const occurrences = await getOccurrences(wordId);
+        setTotalOccurrences(occurrences.length);
+
+        // Fetch the full ayah for the first few occurrences
+        const loadedExamples = await Promise.all(
+          occurrences.slice(0, maxExamples).map(async occurrence => ({
+            occurrence,
+            words: await getAyahWords(occurrence.surah, occurrence.ayah)
+          }))
+        );
+        setExamples(loadedExamples);
+      } catch (error) {
+        console.error('Error loading word context:', error);
+        setExamples([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadContext();
+  }, [wordId, maxExamples]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading Quranic context...</p>;
+  }
+
+  if (examples.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No Quranic occurrences recorded for this word.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Appears {totalOccurrences} time{totalOccurrences !== 1 ? 's' : ''} in the Quran
+      </p>
+
+      {examples.map(({ occurrence, words }) => (
+        <div key={occurrence.location} className="bg-white dark:bg-gray-800 p-2 rounded">
+          {/* Ayah text with the word highlighted */}
+          <p className="text-lg text-right leading-loose" dir="rtl">
+            {words.map(word => (
+              <span
+                key={word.location}
+                className={word.position === occurrence.position ? 'bg-yellow-200 dark:bg-yellow-700 rounded px-0.5' : ''}
+              >
+                {word.text}{' '}
+              </span>
+            ))}
+          </p>
+
+          {/* Word-by-word gloss and reference */}
+          <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+            {words.map(word => word.translation).join(' ')}
+          </p>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            Surah {occurrence.surah}, Ayah {occurrence.ayah}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WordContext;
@@ -1,5 +1,8 @@
 // Content script for the Arabic Learning Extension
+import React from 'react';
+import ReactDOM from 'react-dom/client';
 import '../styles/tailwind.css';
+import ReviewSession from '../components/ReviewSession';
 
 // Initialize the content script
 const initialize = () => {
@@ -26,8 +29,8 @@ const setupEventListeners = () => {
       // Return page content for analysis
       sendResponse({ content: document.body.innerText });
     } else if (message.action === 'showFlashcard') {
-      // Show a flashcard in the page
-      showFlashcard(message.word);
+      // Show a few due cards in the page
+      showFlashcard(message.limit);
       sendResponse({ success: true });
     }
     return true; // Indicates async response
@@ -147,6 +150,7 @@ const displayRelevantVocabulary = (words: Array<{ id: number, word: string, tran
     const translationText = document.createElement('p');
     translationText.className = 'text-sm text-gray-600 dark:text-gray-300';
     translationText.textContent = word.translation;
+    translationText.dir = 'auto'; // Glosses may be in Urdu
     wordElement.appendChild(translationText);
     
     // Add button to save word for later review
@@ -230,85 +234,27 @@ const setupFlashcardSystem = () => {
   // For now, we'll just log a message
 };
 
-// Show a flashcard in the page
-const showFlashcard = (word: { id: number, arabic: string, translation: string }) => {
-  // Create flashcard element
+// In-page flashcards are short: a few cards during a browsing pause
+const IN_PAGE_REVIEW_LIMIT = 3;
+
+// Show a short review session in the page, driven by the background like the popup's
+const showFlashcard = (limit = IN_PAGE_REVIEW_LIMIT) => {
+  // Only one in-page session at a time
+  if (document.getElementById('arabic-learning-flashcard')) return;
+  
+  // Create flashcard container
   const flashcard = document.createElement('div');
+  flashcard.id = 'arabic-learning-flashcard';
   flashcard.className = 'fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white dark:bg-gray-800 p-6 rounded-lg shadow-2xl z-50';
   flashcard.style.minWidth = '300px';
+  document.body.appendChild(flashcard);
   
-  // Add word
-  const wordElement = document.createElement('p');
-  wordElement.className = 'text-3xl font-bold text-center mb-4 text-gray-900 dark:text-white';
-  wordElement.textContent = word.arabic;
-  flashcard.appendChild(wordElement);
-  
-  // Add translation (hidden initially)
-  const translationElement = document.createElement('p');
-  translationElement.className = 'text-xl text-center mb-6 text-gray-600 dark:text-gray-300 hidden';
-  translationElement.textContent = word.translation;
-  flashcard.appendChild(translationElement);
-  
-  // Add "Show Translation" button
-  const showButton = document.createElement('button');
-  showButton.className = 'w-full bg-blue-500 hover:bg-blue-600 text-white py-2 rounded mb-2';
-  showButton.textContent = 'Show Translation';
-  showButton.onclick = () => {
-    translationElement.classList.remove('hidden');
-    showButton.classList.add('hidden');
-    buttonsContainer.classList.remove('hidden');
-  };
-  flashcard.appendChild(showButton);
-  
-  // Add buttons container (hidden initially)
-  const buttonsContainer = document.createElement('div');
-  buttonsContainer.className = 'flex justify-between hidden';
-  
-  // Add "I knew it" button
-  const knewButton = document.createElement('button');
-  knewButton.className = 'flex-1 mr-2 bg-green-500 hover:bg-green-600 text-white py-2 rounded';
-  knewButton.textContent = 'I knew it';
-  knewButton.onclick = () => {
-    // Update progress in the database
-    chrome.runtime.sendMessage(
-      { action: 'updateProgress', wordId: word.id, correct: true },
-      () => {
-        // Remove flashcard
-        document.body.removeChild(flashcard);
-      }
-    );
-  };
-  buttonsContainer.appendChild(knewButton);
-  
-  // Add "Still learning" button
-  const learningButton = document.createElement('button');
-  learningButton.className = 'flex-1 ml-2 bg-yellow-500 hover:bg-yellow-600 text-white py-2 rounded';
-  learningButton.textContent = 'Still learning';
-  learningButton.onclick = () => {
-    // Update progress in the database
-    chrome.runtime.sendMessage(
-      { action: 'updateProgress', wordId: word.id, correct: false },
-      () => {
-        // Remove flashcard
-        document.body.removeChild(flashcard);
-      }
-    );
-  };
-  buttonsContainer.appendChild(learningButton);
-  
-  flashcard.appendChild(buttonsContainer);
-  
-  // Add close button
-  const closeButton = document.createElement('button');
-  closeButton.className = 'absolute top-2 right-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200';
-  closeButton.textContent = '✕';
-  closeButton.onclick = () => {
+  const root = ReactDOM.createRoot(flashcard);
+  const close = () => {
+    root.unmount();
     document.body.removeChild(flashcard);
   };
-  flashcard.appendChild(closeButton);
-  
-  // Add flashcard to page
-  document.body.appendChild(flashcard);
+  root.render(<ReviewSession source="in-page" limit={limit} onClose={close} />);
 };
 
 // Initialize the content script when the DOM is fully loaded
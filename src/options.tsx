@@ -0,0 +1,22 @@
+// Options page for the Arabic Learning Extension
+// Holds tools that need more room than the popup, or a file picker (which closes the popup)
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import '../styles/tailwind.css';
+import AnkiPanel from '../components/AnkiPanel';
+
+const Options: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-white dark:bg-gray-800 text-gray-900 dark:text-white">
+      <div className="max-w-2xl mx-auto p-6">
+        <h1 className="text-2xl font-bold mb-6">Arabic Learning Extension</h1>
+        <AnkiPanel />
+      </div>
+    </div>
+  );
+};
+
+// Render the options page
+const root = document.createElement('div');
+document.body.appendChild(root);
+ReactDOM.createRoot(root).render(<Options />);
@@ -1,7 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom/client';
 import '../styles/tailwind.css';
-import { initDB, getVocabularyByDifficulty, getVocabularyForReview, updateVocabularyProgress, getSetting, updateSetting } from '../utils/database';
+import WordContext from '../components/WordContext';
+import DiagnosticsPanel from '../components/DiagnosticsPanel';
+import SnapshotsPanel from '../components/SnapshotsPanel';
+import SchedulerPanel from '../components/SchedulerPanel';
+import ForecastPanel from '../components/ForecastPanel';
+import ProblemWordsPanel from '../components/ProblemWordsPanel';
+import ReviewSession from '../components/ReviewSession';
+import { getTransliteration, TransliterationScheme } from '../utils/transliteration';
+import { searchVocabulary } from '../utils/vocabularySearch';
+import { GLOSS_LANGUAGES, GlossLanguage, getGloss, getGlossChain, getGlossDirection } from '../utils/glosses';
+import { initDB, getVocabularyByDifficulty, getSetting, updateSetting, VocabularySource } from '../utils/database';
+import { NEW_WORD_ORDER_LABELS, NewWordOrder, DEFAULT_NEW_WORDS_PER_DAY, DEFAULT_NEW_WORD_ORDER } from '../utils/newWords';
+import { DECK_LABELS, DEFAULT_BURY_SIBLINGS } from '../utils/siblings';
+import { LEECH_ACTION_LABELS, LeechAction, DEFAULT_LEECH_THRESHOLD, DEFAULT_LEECH_ACTION } from '../utils/leeches';
 
 // Define interfaces for component props and state
 interface VocabularyItem {
@@ -9,11 +22,13 @@ interface VocabularyItem {
   word: string;
   transliteration: string;
   translation: string;
+  translations?: Record<string, string>;
   examples?: string[];
   etymology?: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   tags: string[];
   audioUrl?: string;
+  senses?: Array<{ gloss: string; occurrences: number }>;
 }
 
 interface TabProps {
@@ -26,7 +41,7 @@ interface TabProps {
 const Tab: React.FC<TabProps> = ({ label, active, onClick }) => {
   return (
     <button
-      className={`px-4 py-2 text-sm font-medium ${
+      className={`px-3 py-2 text-sm font-medium whitespace-nowrap ${
         active
           ? 'bg-blue-500 text-white'
           : 'bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
@@ -38,24 +53,39 @@ const Tab: React.FC<TabProps> = ({ label, active, onClick }) => {
   );
 };
 
+// Results fetched per page of vocabulary search
+const SEARCH_PAGE_SIZE = 20;
+
 // Main Popup component
 const Popup: React.FC = () => {
   // State for active tab
-  const [activeTab, setActiveTab] = useState<'vocabulary' | 'flashcards' | 'reference' | 'settings'>('vocabulary');
+  const [activeTab, setActiveTab] = useState<'vocabulary' | 'flashcards' | 'reference' | 'problems' | 'settings'>('vocabulary');
   
   // State for vocabulary items
   const [vocabularyItems, setVocabularyItems] = useState<VocabularyItem[]>([]);
+  const [expandedWordId, setExpandedWordId] = useState<number | null>(null);
   
-  // State for flashcards
-  const [flashcards, setFlashcards] = useState<VocabularyItem[]>([]);
-  const [currentFlashcardIndex, setCurrentFlashcardIndex] = useState(0);
-  const [showTranslation, setShowTranslation] = useState(false);
+  // State for vocabulary search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<VocabularyItem[]>([]);
+  const [searchTotal, setSearchTotal] = useState(0);
+  // Latest query typed; results of slower searches for earlier queries are dropped
+  const latestSearchQuery = useRef('');
   
   // State for settings
   const [settings, setSettings] = useState({
     dailyGoal: 10,
+    newWordsPerDay: DEFAULT_NEW_WORDS_PER_DAY,
+    newWordOrder: DEFAULT_NEW_WORD_ORDER as NewWordOrder,
+    newWordTag: '',
+    burySiblings: DEFAULT_BURY_SIBLINGS,
+    leechThreshold: DEFAULT_LEECH_THRESHOLD,
+    leechAction: DEFAULT_LEECH_ACTION as LeechAction,
     notificationsEnabled: true,
-    theme: 'auto' as 'light' | 'dark' | 'auto'
+    theme: 'auto' as 'light' | 'dark' | 'auto',
+    transliterationScheme: 'simple' as TransliterationScheme,
+    glossLanguage: 'en' as GlossLanguage,
+    glossFallbackLanguages: [] as GlossLanguage[]
   });
   
   // State for reference phrases
@@ -78,19 +108,33 @@ const Popup: React.FC = () => {
         const items = await getVocabularyByDifficulty('beginner', 10);
         setVocabularyItems(items);
         
-        // Load flashcards for review
-        const cards = await getVocabularyForReview();
-        setFlashcards(cards);
-        
         // Load settings
         const dailyGoal = await getSetting('dailyGoal') || 10;
+        const newWordsPerDay = await getSetting('newWordsPerDay') ?? DEFAULT_NEW_WORDS_PER_DAY;
+        const newWordOrder = await getSetting('newWordOrder') || DEFAULT_NEW_WORD_ORDER;
+        const newWordTag = await getSetting('newWordTag') || '';
+        const burySiblings = { ...DEFAULT_BURY_SIBLINGS, ...await getSetting('burySiblings') };
+        const leechThreshold = await getSetting('leechThreshold') ?? DEFAULT_LEECH_THRESHOLD;
+        const leechAction = await getSetting('leechAction') || DEFAULT_LEECH_ACTION;
         const notificationsEnabled = await getSetting('notificationsEnabled') !== false;
         const theme = await getSetting('theme') || 'auto';
+        const transliterationScheme = await getSetting('transliterationScheme') || 'simple';
+        const glossLanguage = await getSetting('glossLanguage') || 'en';
+        const glossFallbackLanguages = await getSetting('glossFallbackLanguages') || [];
         
         setSettings({
           dailyGoal,
+          newWordsPerDay,
+          newWordOrder: newWordOrder as NewWordOrder,
+          newWordTag,
+          burySiblings,
+          leechThreshold,
+          leechAction: leechAction as LeechAction,
           notificationsEnabled,
-          theme: theme as 'light' | 'dark' | 'auto'
+          theme: theme as 'light' | 'dark' | 'auto',
+          transliterationScheme: transliterationScheme as TransliterationScheme,
+          glossLanguage: glossLanguage as GlossLanguage,
+          glossFallbackLanguages
         });
       } catch (error) {
         console.error('Error loading data:', error);
@@ -100,116 +144,130 @@ const Popup: React.FC = () => {
     loadData();
   }, []);
   
-  // Handle flashcard response
-  const handleFlashcardResponse = async (correct: boolean) => {
-    if (flashcards.length === 0 || currentFlashcardIndex >= flashcards.length) return;
-    
-    const currentCard = flashcards[currentFlashcardIndex];
-    if (currentCard.id) {
-      await updateVocabularyProgress(currentCard.id, correct);
+  // Search as the user types, after a short pause
+  useEffect(() => {
+    latestSearchQuery.current = searchQuery;
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      setSearchTotal(0);
+      return;
     }
     
-    // Move to next flashcard
-    if (currentFlashcardIndex < flashcards.length - 1) {
-      setCurrentFlashcardIndex(currentFlashcardIndex + 1);
-      setShowTranslation(false);
-    } else {
-      // End of flashcards
-      setFlashcards([]);
-      setCurrentFlashcardIndex(0);
-    }
+    const timer = setTimeout(async () => {
+      const page = await searchVocabulary(searchQuery, { limit: SEARCH_PAGE_SIZE });
+      if (latestSearchQuery.current !== searchQuery) return;
+      setSearchResults(page.results.map(result => result.item));
+      setSearchTotal(page.total);
+    }, 200);
+    
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+  
+  // Load the next page of search results
+  const loadMoreResults = async () => {
+    const query = searchQuery;
+    const offset = searchResults.length;
+    const page = await searchVocabulary(query, { limit: SEARCH_PAGE_SIZE, offset });
+    if (latestSearchQuery.current !== query) return;
+    // A second click before this page arrived already loaded it
+    setSearchResults(results => (results.length === offset
+      ? [...results, ...page.results.map(result => result.item)]
+      : results));
   };
   
+  // Gloss of a word in the learner's language, falling back along their chain
+  const glossOf = (item: VocabularyItem) => getGloss(item, getGlossChain(settings.glossLanguage, settings.glossFallbackLanguages));
+  
   // Handle setting change
   const handleSettingChange = async (key: string, value: any) => {
     await updateSetting(key, value);
     setSettings({ ...settings, [key]: value });
   };
+
+  // Add or remove a fallback language, keeping the chain in display order
+  const toggleFallbackLanguage = (language: GlossLanguage, enabled: boolean) => {
+    const fallbacks = (Object.keys(GLOSS_LANGUAGES) as GlossLanguage[]).filter(code => (
+      code === language ? enabled : settings.glossFallbackLanguages.includes(code)
+    ));
+    handleSettingChange('glossFallbackLanguages', fallbacks);
+  };
+
+  // A cleared or partly typed count isn't saved
+  const handleCountChange = async (key: string, value: number) => {
+    if (!(value >= 0)) return;
+    await handleSettingChange(key, Math.round(value));
+  };
   
   // Render vocabulary tab content
-  const renderVocabularyTab = () => (
-    <div className="p-4">
-      <h2 className="text-xl font-semibold mb-4">Arabic Vocabulary</h2>
-      <div className="space-y-4">
-        {vocabularyItems.length > 0 ? (
-          vocabularyItems.map((item, index) => (
-            <div key={index} className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg">
-              <p className="text-xl font-bold text-right">{item.word}</p>
-              <p className="text-sm text-gray-500 dark:text-gray-400">{item.transliteration}</p>
-              <p>{item.translation}</p>
-              {item.tags && (
-                <div className="mt-1 flex flex-wrap gap-1">
-                  {item.tags.map((tag, tagIndex) => (
-                    <span key={tagIndex} className="text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2 py-0.5 rounded">
-                      {tag}
-                    </span>
-                  ))}
-                </div>
-              )}
-            </div>
-          ))
-        ) : (
-          <p className="text-gray-500 dark:text-gray-400">Loading vocabulary...</p>
-        )}
-      </div>
-    </div>
-  );
-  
-  // Render flashcards tab content
-  const renderFlashcardsTab = () => (
-    <div className="p-4">
-      <h2 className="text-xl font-semibold mb-4">Flashcards</h2>
-      {flashcards.length > 0 ? (
-        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-6 text-center">
-          <p className="text-3xl font-bold mb-6 text-right">{flashcards[currentFlashcardIndex].word}</p>
-          
-          {showTranslation ? (
-            <>
-              <p className="text-xl mb-6">{flashcards[currentFlashcardIndex].translation}</p>
-              <div className="flex space-x-4">
-                <button
-                  className="flex-1 bg-green-500 hover:bg-green-600 text-white py-2 px-4 rounded"
-                  onClick={() => handleFlashcardResponse(true)}
-                >
-                  I knew it
-                </button>
-                <button
-                  className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-white py-2 px-4 rounded"
-                  onClick={() => handleFlashcardResponse(false)}
-                >
-                  Still learning
-                </button>
+  const renderVocabularyTab = () => {
+    const isSearching = searchQuery.trim().length > 0;
+    const items = isSearching ? searchResults : vocabularyItems;
+    
+    return (
+      <div className="p-4">
+        <h2 className="text-xl font-semibold mb-4">Arabic Vocabulary</h2>
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search in Arabic or English, e.g. mercy"
+          className="w-full px-3 py-2 mb-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+        />
+        <div className="space-y-4">
+          {items.length > 0 ? (
+            items.map((item, index) => (
+              <div
+                key={index}
+                className="bg-gray-100 dark:bg-gray-700 p-3 rounded-lg cursor-pointer"
+                onClick={() => setExpandedWordId(expandedWordId === item.id ? null : item.id ?? null)}
+              >
+                <p className="text-xl font-bold text-right">{item.word}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">{getTransliteration(item, settings.transliterationScheme)}</p>
+                <p dir={getGlossDirection(glossOf(item).language)}>{glossOf(item).text}</p>
+                {glossOf(item).language === 'en' && item.senses && item.senses.length > 1 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Also: {item.senses.slice(1, 4).map(sense => sense.gloss).join(', ')}
+                  </p>
+                )}
+                {item.tags && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {item.tags.map((tag, tagIndex) => (
+                      <span key={tagIndex} className="text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2 py-0.5 rounded">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {item.id !== undefined && expandedWordId === item.id && (
+                  <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+                    <WordContext wordId={item.id} />
+                  </div>
+                )}
               </div>
-            </>
+            ))
           ) : (
+            <p className="text-gray-500 dark:text-gray-400">
+              {isSearching ? 'No matching words found.' : 'Loading vocabulary...'}
+            </p>
+          )}
+          {isSearching && searchResults.length < searchTotal && (
             <button
-              className="w-full bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded"
-              onClick={() => setShowTranslation(true)}
+              onClick={loadMoreResults}
+              className="w-full py-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
             >
-              Show Translation
+              Show more ({searchTotal - searchResults.length} remaining)
             </button>
           )}
-          
-          <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
-            Card {currentFlashcardIndex + 1} of {flashcards.length}
-          </p>
         </div>
-      ) : (
-        <div className="text-center py-8">
-          <p className="text-gray-500 dark:text-gray-400 mb-4">No flashcards due for review!</p>
-          <button
-            className="bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded"
-            onClick={async () => {
-              const cards = await getVocabularyByDifficulty('beginner', 5);
-              setFlashcards(cards);
-              setCurrentFlashcardIndex(0);
-              setShowTranslation(false);
-            }}
-          >
-            Practice Random Words
-          </button>
-        </div>
-      )}
+      </div>
+    );
+  };
+  
+  // Render flashcards tab content
+  const renderFlashcardsTab = () => (
+    <div className="p-4">
+      <h2 className="text-xl font-semibold mb-4">Flashcards</h2>
+      <ReviewSession source="popup" />
     </div>
   );
   
@@ -229,6 +287,14 @@ const Popup: React.FC = () => {
     </div>
   );
   
+  // Render problem words tab content
+  const renderProblemsTab = () => (
+    <div className="p-4">
+      <h2 className="text-xl font-semibold mb-4">Problem Words</h2>
+      <ProblemWordsPanel />
+    </div>
+  );
+  
   // Render settings tab content
   const renderSettingsTab = () => (
     <div className="p-4">
@@ -249,6 +315,92 @@ const Popup: React.FC = () => {
           />
         </div>
         
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            New words per day
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="50"
+            value={settings.newWordsPerDay}
+            onChange={(e) => handleCountChange('newWordsPerDay', parseInt(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Fewer on days when due reviews already fill your daily goal
+          </p>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            New word order
+          </label>
+          <select
+            value={settings.newWordOrder}
+            onChange={(e) => handleSettingChange('newWordOrder', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          >
+            {(Object.keys(NEW_WORD_ORDER_LABELS) as NewWordOrder[]).map(order => (
+              <option key={order} value={order}>{NEW_WORD_ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+          {settings.newWordOrder === 'tag' && (
+            <input
+              value={settings.newWordTag}
+              placeholder="Tag, e.g. quranic"
+              onChange={(e) => handleSettingChange('newWordTag', e.target.value.trim())}
+              className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+            />
+          )}
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Bury words sharing a root
+          </label>
+          {(Object.keys(DECK_LABELS) as VocabularySource[]).map(deck => (
+            <label key={deck} className="flex items-center">
+              <input
+                type="checkbox"
+                checked={settings.burySiblings[deck]}
+                onChange={(e) => handleSettingChange('burySiblings', { ...settings.burySiblings, [deck]: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-gray-700 dark:text-gray-300">{DECK_LABELS[deck]}</span>
+            </label>
+          ))}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Words related to one you've reviewed today wait until tomorrow
+          </p>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Leech threshold
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="30"
+            value={settings.leechThreshold}
+            onChange={(e) => handleCountChange('leechThreshold', parseInt(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Times a word is forgotten before it counts as a problem word (0 to turn off)
+          </p>
+          <select
+            value={settings.leechAction}
+            onChange={(e) => handleSettingChange('leechAction', e.target.value)}
+            className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          >
+            {(Object.keys(LEECH_ACTION_LABELS) as LeechAction[]).map(action => (
+              <option key={action} value={action}>{LEECH_ACTION_LABELS[action]}</option>
+            ))}
+          </select>
+        </div>
+        
         <div>
           <label className="flex items-center">
             <input
@@ -275,6 +427,73 @@ const Popup: React.FC = () => {
             <option value="auto">Auto (follow browser)</option>
           </select>
         </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Transliteration
+          </label>
+          <select
+            value={settings.transliterationScheme}
+            onChange={(e) => handleSettingChange('transliterationScheme', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          >
+            <option value="simple">Simple (rahma)</option>
+            <option value="academic">Academic (raḥma)</option>
+            <option value="chat">Chat (ra7ma)</option>
+          </select>
+        </div>
+        
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Translation language
+          </label>
+          <select
+            value={settings.glossLanguage}
+            onChange={(e) => handleSettingChange('glossLanguage', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700"
+          >
+            {(Object.keys(GLOSS_LANGUAGES) as GlossLanguage[]).map(code => (
+              <option key={code} value={code}>{GLOSS_LANGUAGES[code]}</option>
+            ))}
+          </select>
+          
+          {/* Fallbacks for words without a gloss in the chosen language; English is always last */}
+          <p className="mt-3 mb-1 text-xs text-gray-500 dark:text-gray-400">
+            When a word has no translation in this language, try:
+          </p>
+          <div className="space-y-1">
+            {(Object.keys(GLOSS_LANGUAGES) as GlossLanguage[])
+              .filter(code => code !== settings.glossLanguage && code !== 'en')
+              .map(code => (
+                <label key={code} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={settings.glossFallbackLanguages.includes(code)}
+                    onChange={(e) => toggleFallbackLanguage(code, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="ml-2">{GLOSS_LANGUAGES[code]}</span>
+                </label>
+              ))}
+          </div>
+        </div>
+        
+        <SchedulerPanel />
+        
+        <ForecastPanel />
+        
+        <SnapshotsPanel onRestore={() => window.location.reload()} />
+        
+        <div>
+          <button
+            onClick={() => chrome.runtime.openOptionsPage()}
+            className="text-sm text-blue-500 hover:text-blue-600 hover:underline"
+          >
+            Import or export Anki decks
+          </button>
+        </div>
+        
+        <DiagnosticsPanel />
       </div>
     </div>
   );
@@ -287,7 +506,7 @@ const Popup: React.FC = () => {
       </div>
       
       {/* Tabs */}
-      <div className="flex border-b border-gray-200 dark:border-gray-700">
+      <div className="flex overflow-x-auto border-b border-gray-200 dark:border-gray-700">
         <Tab
           label="Vocabulary"
           active={activeTab === 'vocabulary'}
@@ -303,6 +522,11 @@ const Popup: React.FC = () => {
           active={activeTab === 'reference'}
           onClick={() => setActiveTab('reference')}
         />
+        <Tab
+          label="Problems"
+          active={activeTab === 'problems'}
+          onClick={() => setActiveTab('problems')}
+        />
         <Tab
           label="Settings"
           active={activeTab === 'settings'}
@@ -315,6 +539,7 @@ const Popup: React.FC = () => {
         {activeTab === 'vocabulary' && renderVocabularyTab()}
         {activeTab === 'flashcards' && renderFlashcardsTab()}
         {activeTab === 'reference' && renderReferenceTab()}
+        {activeTab === 'problems' && renderProblemsTab()}
         {activeTab === 'settings' && renderSettingsTab()}
       </div>
     </div>
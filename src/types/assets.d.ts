@@ -0,0 +1,5 @@
+// Files webpack emits as assets and imports as their URL
+declare module '*.wasm' {
+  const url: string;
+  export default url;
+}
@@ -0,0 +1,351 @@
+// Export to Anki for the Arabic Learning Extension
+import { zipSync, strToU8 } from 'fflate';
+import { initDB, ReviewLogEntry, UserProgress, VocabularyItem, VocabularySource } from './database';
+import {
+  ANKI_FIELD_SEPARATOR,
+  ANKI_SCHEMA,
+  AnkiTextFormat,
+  DAY_MS,
+  ankiChecksum,
+  loadSqlJs,
+  quoteDelimited,
+  toAnkiHtml,
+} from './ankiFormat';
+
+// Which words to export
+export interface AnkiExportSelection {
+  deckName?: string; // Name of the deck in Anki (default: Arabic)
+  source?: VocabularySource; // Only corpus words, or only the learner's own
+  tag?: string;
+  difficulty?: VocabularyItem['difficulty'];
+  inReviewOnly?: boolean; // Only words that are saved for review
+}
+
+// Fields of the exported note type, in order
+export const ANKI_EXPORT_FIELDS = ['Arabic', 'Transliteration', 'Translation', 'Examples', 'Notes'];
+
+const DEFAULT_DECK_NAME = 'Arabic';
+
+/**
+ * Read the selected words and their progress
+ * @param selection Which words to export
+ * @returns Promise with the words, oldest first, and their progress by word id
+ */
+const selectWords = async (
+  selection: AnkiExportSelection
+): Promise<{ items: VocabularyItem[]; progress: Map<number, UserProgress> }> => {
+  const db = await initDB();
+  const transaction = db.transaction(['vocabulary', 'progress'], 'readonly');
+  const vocabularyStore = transaction.objectStore('vocabulary');
+
+  // Narrow with an index where there is one, then filter on the rest
+  let items: VocabularyItem[];
+  if (selection.tag) {
+    items = await vocabularyStore.index('tags').getAll(selection.tag);
+  } else if (selection.difficulty) {
+    items = await vocabularyStore.index('difficulty').getAll(selection.difficulty);
+  } else if (selection.source) {
+    items = await vocabularyStore.index('source').getAll(selection.source);
+  } else {
+    items = await vocabularyStore.getAll();
+  }
+  items = items.filter(item => (
+    (!selection.difficulty || item.difficulty === selection.difficulty)
+    && (!selection.source || (item.source || 'corpus') === selection.source)
+  ));
+
+  const progressRows: UserProgress[] = await transaction.objectStore('progress').getAll();
+  const progress = new Map(progressRows.map(row => [row.wordId, row]));
+  await transaction.done;
+
+  if (selection.inReviewOnly) {
+    items = items.filter(item => progress.has(item.id!));
+  }
+
+  return { items: items.sort((a, b) => a.id! - b.id!), progress };
+};
+
+/**
+ * Values of the exported note fields for a word
+ * @param item The vocabulary entry
+ * @returns Field values in ANKI_EXPORT_FIELDS order, as plain text
+ */
+const noteFields = (item: VocabularyItem): string[] => [
+  item.word,
+  item.transliteration || '',
+  item.translation,
+  (item.examples || []).join('\n'),
+  item.notes || '',
+];
+
+/**
+ * Tags as Anki accepts them (no spaces)
+ * @param item The vocabulary entry
+ * @returns The word's tags
+ */
+const noteTags = (item: VocabularyItem): string[] => item.tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+
+/**
+ * Whether a word has been reviewed, rather than only saved for review
+ * @param row The word's progress
+ * @returns True if it has a review
+ */
+const isReviewed = (row?: UserProgress): row is UserProgress => !!row && row.lastReviewed.getTime() > 0;
+
+/**
+ * Anki card scheduling for a word's progress
+ * @param row The word's progress, if any
+ * @param crt Collection creation time in milliseconds, at the start of a day
+ * @param position Position among new cards, for words not reviewed yet
+ * @returns The card's type, queue, due, interval, factor, reps and lapses
+ */
+export const toAnkiScheduling = (row: UserProgress | undefined, crt: number, position: number): number[] => (
+  isReviewed(row)
+    ? [
+      2, // type: review
+      2, // queue: review
+      Math.floor((row.nextReview.getTime() - crt) / DAY_MS),
+      Math.max(1, Math.round((row.nextReview.getTime() - row.lastReviewed.getTime()) / DAY_MS)),
+      Math.round(row.easeFactor * 1000),
+      row.correctCount + row.incorrectCount,
+      row.incorrectCount,
+    ]
+    : [0, 0, position, 0, 0, 0, 0] // New, in the order the words were added
+);
+
+/**
+ * Export words in Anki's text import format. Text files carry no scheduling;
+ * use exportAnkiPackage to keep review history.
+ * @param selection Which words to export
+ * @param format Comma- or tab-separated (default: tsv)
+ * @returns Promise with the file contents
+ */
+export const exportAnkiText = async (selection: AnkiExportSelection = {}, format: AnkiTextFormat = 'tsv'): Promise<string> => {
+  try {
+    const { items } = await selectWords(selection);
+    const separator = format === 'csv' ? ',' : '\t';
+
+    // Header lines tell Anki how to read the file, so no import options need setting by hand
+    const lines = [
+      `#separator:${format === 'csv' ? 'Comma' : 'Tab'}`,
+      '#html:true',
+      `#deck:${selection.deckName || DEFAULT_DECK_NAME}`,
+      `#columns:${[...ANKI_EXPORT_FIELDS, 'Tags'].join(separator)}`,
+      `#tags column:${ANKI_EXPORT_FIELDS.length + 1}`,
+      ...items.map(item => [...noteFields(item).map(toAnkiHtml), noteTags(item).join(' ')]
+        .map(value => quoteDelimited(value, separator))
+        .join(separator)),
+    ];
+
+    return lines.join('\n') + '\n';
+  } catch (error) {
+    console.error('Error exporting Anki text file:', error);
+    throw error;
+  }
+};
+
+/**
+ * Anki's answer button for a review grade
+ * @param grade Quality of recall (0-5)
+ * @returns 1 (again), 2 (hard), 3 (good) or 4 (easy)
+ */
+const toAnkiEase = (grade: number): number => {
+  if (grade < 3) return 1;
+  if (grade === 3) return 2;
+  if (grade === 4) return 3;
+  return 4;
+};
+
+/**
+ * A deck entry of the collection's decks JSON
+ * @param id Deck id
+ * @param name Deck name
+ * @param mod Modification time in seconds
+ * @returns The deck
+ */
+const deckJson = (id: number, name: string, mod: number) => ({
+  id,
+  name,
+  mod,
+  usn: -1,
+  desc: '',
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  extendNew: 10,
+  extendRev: 50,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+/**
+ * Export words as an Anki package (.apkg), with their scheduling and review history.
+ * Reviewed words become review cards due when the extension would show them next;
+ * everything else becomes a new card.
+ * @param selection Which words to export
+ * @returns Promise with the package file
+ */
+export const exportAnkiPackage = async (selection: AnkiExportSelection = {}): Promise<Blob> => {
+  try {
+    const { items, progress } = await selectWords(selection);
+    const wordIds = new Set(items.map(item => item.id!));
+    const db = await initDB();
+    const reviewLog = (await db.getAll('reviewLog') as ReviewLogEntry[]).filter(entry => wordIds.has(entry.wordId));
+
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = now;
+    const modelId = now + 1;
+    const deckName = selection.deckName || DEFAULT_DECK_NAME;
+
+    // Due dates are days since the collection was created, so start it at the earliest review
+    const firstReview = items.reduce((earliest, item) => {
+      const row = progress.get(item.id!);
+      return isReviewed(row) ? Math.min(earliest, row.lastReviewed.getTime()) : earliest;
+    }, now);
+    const created = new Date(firstReview);
+    created.setHours(0, 0, 0, 0);
+    const crt = created.getTime();
+
+    const SQL = await loadSqlJs();
+    const collection = new SQL.Database();
+    try {
+      collection.run(ANKI_SCHEMA);
+
+      const model = {
+        id: modelId,
+        name: 'Arabic Learning Extension',
+        type: 0,
+        mod: nowSeconds,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [{
+          name: 'Recognition',
+          ord: 0,
+          qfmt: '<div class="arabic">{{Arabic}}</div>',
+          afmt: '{{FrontSide}}<hr id=answer>{{Transliteration}}<br>{{Translation}}'
+            + '{{#Examples}}<br><br>{{Examples}}{{/Examples}}{{#Notes}}<br><small>{{Notes}}</small>{{/Notes}}',
+          did: null,
+          bqfmt: '',
+          bafmt: '',
+        }],
+        flds: ANKI_EXPORT_FIELDS.map((name, ord) => ({
+          name,
+          ord,
+          sticky: false,
+          rtl: name === 'Arabic',
+          font: 'Arial',
+          size: 20,
+          media: [],
+        })),
+        css: '.card { font-family: arial; font-size: 20px; text-align: center; }\n.arabic { font-size: 40px; direction: rtl; }',
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n'
+          + '\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        req: [[0, 'any', [0]]],
+        tags: [],
+        vers: [],
+      };
+      const deckConfig = {
+        id: 1,
+        name: 'Default',
+        replayq: true,
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+        new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: false, order: 1 },
+        maxTaken: 60,
+        timer: 0,
+        autoplay: true,
+        mod: 0,
+        usn: 0,
+        dyn: false,
+      };
+      const config = {
+        nextPos: items.length + 1,
+        estTimes: true,
+        activeDecks: [1],
+        sortType: 'noteFld',
+        timeLim: 0,
+        sortBackwards: false,
+        addToCur: true,
+        curDeck: 1,
+        newBury: true,
+        newSpread: 0,
+        dueCounts: true,
+        curModel: String(modelId),
+        collapseTime: 1200,
+      };
+
+      collection.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+        Math.floor(crt / 1000),
+        now,
+        now,
+        JSON.stringify(config),
+        JSON.stringify({ [modelId]: model }),
+        JSON.stringify({ 1: deckJson(1, 'Default', nowSeconds), [deckId]: deckJson(deckId, deckName, nowSeconds) }),
+        JSON.stringify({ 1: deckConfig }),
+        '{}',
+      ]);
+
+      // One note and one card per word; ids are millisecond timestamps, as Anki's own
+      const cardIds = new Map<number, number>();
+      for (const [index, item] of items.entries()) {
+        const id = now + index;
+        const tags = noteTags(item);
+        collection.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+          id,
+          `arabic-learning-${item.source || 'corpus'}-${item.id}`,
+          modelId,
+          nowSeconds,
+          tags.length > 0 ? ` ${tags.join(' ')} ` : '',
+          noteFields(item).map(toAnkiHtml).join(ANKI_FIELD_SEPARATOR),
+          item.word,
+          await ankiChecksum(item.word),
+        ]);
+
+        const scheduling = toAnkiScheduling(progress.get(item.id!), crt, index + 1);
+        collection.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')', [
+          id,
+          id,
+          deckId,
+          nowSeconds,
+          ...scheduling,
+        ]);
+        cardIds.set(item.id!, id);
+      }
+
+      // Review history; revlog ids are the review times and must be unique
+      const usedIds = new Set<number>();
+      for (const entry of reviewLog) {
+        let id = entry.timestamp.getTime();
+        while (usedIds.has(id)) id++;
+        usedIds.add(id);
+
+        collection.run('INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)', [
+          id,
+          cardIds.get(entry.wordId)!,
+          toAnkiEase(entry.grade),
+          Math.round(entry.newInterval),
+          Math.round(entry.previousInterval),
+          Math.round(entry.easeFactor * 1000),
+          Math.min(entry.responseTimeMs || 0, 60000),
+          entry.previousInterval === 0 ? 0 : 1, // learning or review
+        ]);
+      }
+
+      const archive = zipSync({
+        'collection.anki2': collection.export(),
+        media: strToU8('{}'),
+      });
+      return new Blob([archive], { type: 'application/octet-stream' });
+    } finally {
+      collection.close();
+    }
+  } catch (error) {
+    console.error('Error exporting Anki package:', error);
+    throw error;
+  }
+};
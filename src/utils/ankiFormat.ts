@@ -0,0 +1,163 @@
+// Shared pieces of the Anki import and export for the Arabic Learning Extension
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm';
+
+// Separates the fields of a note in the notes table
+export const ANKI_FIELD_SEPARATOR = '\x1f';
+
+// Anki schedules reviews in whole days
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Text import/export: comma-separated or tab-separated
+export type AnkiTextFormat = 'csv' | 'tsv';
+
+// The legacy collection schema (version 11), which every Anki version can import
+export const ANKI_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn on notes (usn);
+  CREATE INDEX ix_cards_usn on cards (usn);
+  CREATE INDEX ix_revlog_usn on revlog (usn);
+  CREATE INDEX ix_cards_nid on cards (nid);
+  CREATE INDEX ix_cards_sched on cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid on revlog (cid);
+  CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Loaded once; the WebAssembly file ships with the extension, so this works offline
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the SQLite engine used to read and write .apkg collections
+ * @returns Promise with the sql.js module
+ */
+export const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl }).catch(error => {
+      sqlJs = null;
+      throw error;
+    });
+  }
+  return sqlJs;
+};
+
+/**
+ * Anki's note checksum: the first 8 hex digits of the SHA-1 of the first field
+ * @param text The first field, without HTML
+ * @returns Promise with the checksum
+ */
+export const ankiChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return new DataView(digest).getUint32(0);
+};
+
+/**
+ * Turn a field's HTML into plain text
+ * @param html The field as Anki stores it
+ * @returns Plain text, with line breaks kept and sound tags removed
+ */
+export const stripAnkiHtml = (html: string): string => {
+  const entities: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+  return html
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+      return entities[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .trim();
+};
+
+/**
+ * Escape plain text for an Anki field
+ * @param text Plain text
+ * @returns HTML with line breaks as <br>
+ */
+export const toAnkiHtml = (text: string): string => (
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>')
+);
+
+/**
+ * Quote a value for a delimited text file when it needs it
+ * @param value The value
+ * @param separator The column separator
+ * @returns The value, quoted with doubled quotes if it contains the separator, a quote or a line break
+ */
+export const quoteDelimited = (value: string, separator: string): string => (
+  value.includes(separator) || /["\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+);
+
+/**
+ * Split a delimited text file into rows, honouring quoted values
+ * @param text The file contents, without header lines
+ * @param separator The column separator
+ * @returns Rows of values
+ */
+export const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  // Blank lines are not notes
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
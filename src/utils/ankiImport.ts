@@ -0,0 +1,285 @@
+// Import of Anki decks into custom vocabulary for the Arabic Learning Extension
+import { unzipSync } from 'fflate';
+import { UserProgress } from './database';
+import { containsArabic } from './textAnalysis';
+import { importCustomWords, CustomWordImport } from './customVocabulary';
+import { MIN_EASE_FACTOR, MAX_EASE_FACTOR, INITIAL_EASE_FACTOR } from './sm2';
+import { ANKI_FIELD_SEPARATOR, DAY_MS, loadSqlJs, parseDelimited, stripAnkiHtml } from './ankiFormat';
+
+// Tag added to every imported word
+export const ANKI_TAG = 'anki';
+
+// A note read from an Anki package or text file
+export interface AnkiNote {
+  fields: string[]; // Plain text
+  tags: string[];
+  scheduling?: Omit<UserProgress, 'wordId'>; // From the note's first card, for reviewed cards in packages
+}
+
+export interface AnkiDeck {
+  fieldNames: string[];
+  notes: AnkiNote[];
+  ignoredNotes: number; // Notes of other note types, whose fields don't line up
+}
+
+// Which field (by position) fills each part of a custom word; -1 leaves it empty
+export interface AnkiFieldMapping {
+  word: number;
+  translation: number;
+  transliteration: number;
+  examples: number;
+}
+
+export interface AnkiImportOptions {
+  importScheduling?: boolean; // Keep Anki's intervals and due dates (default: true)
+}
+
+// Text file header settings, e.g. "#separator:Tab"
+const SEPARATORS: Record<string, string> = {
+  comma: ',',
+  tab: '\t',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+};
+
+/**
+ * Read an Anki text export (CSV/TSV, optionally with Anki's # header lines)
+ * @param text The file contents
+ * @returns The deck
+ */
+export const readAnkiText = (text: string): AnkiDeck => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].startsWith('#')) {
+    const [key, ...value] = lines.shift()!.slice(1).split(':');
+    headers[key.trim().toLowerCase()] = value.join(':').trim();
+  }
+  const body = lines.join('\n');
+
+  // Without a header, a tab on the first line means tab-separated
+  const declared = headers.separator;
+  const separator = declared
+    ? SEPARATORS[declared.toLowerCase()] || declared
+    : (body.split('\n')[0].includes('\t') ? '\t' : ',');
+  const rows = parseDelimited(body, separator);
+
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const columnNames = headers.columns
+    ? headers.columns.split(separator).map(name => name.trim())
+    : Array.from({ length: columnCount }, (_, index) => `Field ${index + 1}`);
+  const tagsColumn = headers['tags column'] ? parseInt(headers['tags column'], 10) - 1 : -1;
+  const fieldColumns = columnNames.map((_, index) => index).filter(index => index !== tagsColumn);
+
+  return {
+    fieldNames: fieldColumns.map(index => columnNames[index]),
+    notes: rows.map(row => ({
+      fields: fieldColumns.map(index => stripAnkiHtml(row[index] || '')),
+      tags: tagsColumn >= 0 ? (row[tagsColumn] || '').split(/\s+/).filter(Boolean) : [],
+    })),
+    ignoredNotes: 0,
+  };
+};
+
+// The part of a note type in the collection's models JSON that the import reads
+interface AnkiModel {
+  flds: { name: string; ord: number }[];
+}
+
+/**
+ * Read the note types from the collection's models JSON, keeping only
+ * well-formed fields
+ * @param json The models column (empty from schema 18, where fields have their own table)
+ * @returns Note types by id
+ */
+const parseModels = (json: string): Record<string, AnkiModel> => {
+  const parsed: unknown = JSON.parse(json || '{}');
+  const models: Record<string, AnkiModel> = {};
+  if (typeof parsed !== 'object' || parsed === null) return models;
+
+  for (const [id, model] of Object.entries(parsed as Record<string, unknown>)) {
+    const fields = typeof model === 'object' && model !== null && 'flds' in model ? model.flds : undefined;
+    if (!Array.isArray(fields)) continue;
+    models[id] = {
+      flds: (fields as unknown[]).filter((field): field is AnkiModel['flds'][number] => (
+        typeof field === 'object' && field !== null
+        && 'name' in field && typeof field.name === 'string'
+        && 'ord' in field && typeof field.ord === 'number'
+      )),
+    };
+  }
+  return models;
+};
+
+/**
+ * Scheduling for the extension from an Anki card. Only review cards carry
+ * over; new and learning cards start fresh.
+ * @param card The card's type, due, interval, factor, reps and lapses
+ * @param crt Collection creation time in seconds
+ * @returns Progress, or undefined for cards that start fresh
+ */
+export const toProgress = (
+  [type, due, ivl, factor, reps, lapses]: number[],
+  crt: number
+): Omit<UserProgress, 'wordId'> | undefined => {
+  // 2: review, 3: relearning; due is a day number counted from the collection's creation
+  if ((type !== 2 && type !== 3) || ivl <= 0) return undefined;
+
+  const nextReview = new Date(crt * 1000 + due * DAY_MS);
+  return {
+    correctCount: Math.max(0, reps - lapses),
+    incorrectCount: lapses,
+    lastReviewed: new Date(nextReview.getTime() - ivl * DAY_MS),
+    nextReview,
+    // Anki lets ease grow without bound; SM-2 here keeps it between 1.3 and 3.0
+    easeFactor: factor > 0 ? Math.min(MAX_EASE_FACTOR, Math.max(MIN_EASE_FACTOR, factor / 1000)) : INITIAL_EASE_FACTOR,
+    interval: ivl,
+    // Anki doesn't keep the current run of successes; a relearning card has just lapsed
+    repetitions: type === 3 ? 0 : Math.max(1, reps - lapses),
+    lapses,
+    // Relearning cards already have a day-scale due date, so they join reviews directly
+    cardState: 'review',
+    learningStep: 0,
+  };
+};
+
+/**
+ * Read an Anki package (.apkg). Only the most common note type is read.
+ * @param data The package file
+ * @returns Promise with the deck
+ */
+export const readAnkiPackage = async (data: ArrayBuffer): Promise<AnkiDeck> => {
+  const files = unzipSync(new Uint8Array(data));
+
+  // Packages made by recent Anki versions without "Support older Anki versions" use a compressed
+  // collection (.anki21b), next to a placeholder .anki2 that only says to upgrade
+  const collectionFile = files['collection.anki21'] || (!files['collection.anki21b'] && files['collection.anki2']);
+  if (!collectionFile) {
+    throw new Error(files['collection.anki21b']
+      ? 'This deck uses the newest Anki package format. Export it again with "Support older Anki versions" ticked.'
+      : 'Not an Anki package');
+  }
+
+  const SQL = await loadSqlJs();
+  const collection = new SQL.Database(collectionFile);
+  try {
+    const [[crt, modelsJson]] = collection.exec('SELECT crt, models FROM col')[0].values as [number, string][];
+
+    // Field names: in the models JSON up to schema 11, in their own table after that
+    const fieldNames = new Map<number, string[]>();
+    for (const [id, model] of Object.entries(parseModels(modelsJson))) {
+      fieldNames.set(Number(id), [...model.flds].sort((a, b) => a.ord - b.ord).map(field => field.name));
+    }
+    if (fieldNames.size === 0) {
+      const [fields] = collection.exec('SELECT ntid, name FROM fields ORDER BY ntid, ord');
+      for (const [ntid, name] of (fields ? fields.values : []) as [number, string][]) {
+        fieldNames.set(ntid, [...(fieldNames.get(ntid) || []), name]);
+      }
+    }
+
+    const [notesResult] = collection.exec('SELECT id, mid, tags, flds FROM notes ORDER BY id');
+    const notes = (notesResult ? notesResult.values : []) as [number, number, string, string][];
+
+    const modelCounts = new Map<number, number>();
+    for (const [, mid] of notes) {
+      modelCounts.set(mid, (modelCounts.get(mid) || 0) + 1);
+    }
+    const [mainModel] = [...modelCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+
+    const [cardsResult] = collection.exec('SELECT nid, type, due, ivl, factor, reps, lapses FROM cards WHERE ord = 0');
+    const cards = new Map<number, number[]>();
+    for (const [nid, ...card] of (cardsResult ? cardsResult.values : []) as number[][]) {
+      cards.set(nid, card);
+    }
+
+    const deckNotes = notes.filter(([, mid]) => mid === mainModel);
+    return {
+      fieldNames: fieldNames.get(mainModel) || [],
+      notes: deckNotes.map(([id, , tags, flds]) => ({
+        fields: flds.split(ANKI_FIELD_SEPARATOR).map(stripAnkiHtml),
+        tags: tags.split(/\s+/).filter(Boolean),
+        scheduling: cards.has(id) ? toProgress(cards.get(id)!, crt) : undefined,
+      })),
+      ignoredNotes: notes.length - deckNotes.length,
+    };
+  } finally {
+    collection.close();
+  }
+};
+
+/**
+ * Read an Anki package or text export, by file name
+ * @param file The chosen file
+ * @returns Promise with the deck
+ */
+export const readAnkiFile = async (file: File): Promise<AnkiDeck> => {
+  try {
+    return /\.(apkg|colpkg)$/i.test(file.name)
+      ? await readAnkiPackage(await file.arrayBuffer())
+      : readAnkiText(await file.text());
+  } catch (error) {
+    console.error('Error reading Anki file:', error);
+    throw error;
+  }
+};
+
+/**
+ * Guess which fields hold what, from their names and contents
+ * @param deck The deck
+ * @returns A mapping the learner can adjust before importing
+ */
+export const guessFieldMapping = (deck: AnkiDeck): AnkiFieldMapping => {
+  const sample = deck.notes.slice(0, 50);
+  const arabicShare = deck.fieldNames.map((_, index) => (
+    sample.filter(note => containsArabic(note.fields[index] || '')).length
+  ));
+  const findByName = (pattern: RegExp, taken: number[]) => deck.fieldNames.findIndex((name, index) => (
+    !taken.includes(index) && pattern.test(name)
+  ));
+
+  // The word is the field most often written in Arabic
+  const word = arabicShare.indexOf(Math.max(0, ...arabicShare));
+  const transliteration = findByName(/translit|roman|pronunc|reading/i, [word]);
+  const examples = findByName(/example|sentence|context/i, [word, transliteration]);
+  let translation = findByName(/translat|meaning|english|gloss|definition|back/i, [word, transliteration, examples]);
+  if (translation < 0) {
+    translation = deck.fieldNames.findIndex((_, index) => ![word, transliteration, examples].includes(index));
+  }
+
+  return { word, translation, transliteration, examples };
+};
+
+/**
+ * Import an Anki deck into custom vocabulary
+ * @param deck The deck
+ * @param mapping Which field fills each part of a word
+ * @param options Whether to keep Anki's scheduling
+ * @returns Promise with the number of words added, skipped as duplicates and rejected
+ */
+export const importAnkiDeck = async (
+  deck: AnkiDeck,
+  mapping: AnkiFieldMapping,
+  options: AnkiImportOptions = {}
+): Promise<{ added: number; skipped: number; invalid: number }> => {
+  try {
+    const importScheduling = options.importScheduling !== false;
+    const field = (note: AnkiNote, index: number) => (index >= 0 ? (note.fields[index] || '').trim() : '');
+
+    const words: CustomWordImport[] = deck.notes.map(note => ({
+      input: {
+        word: field(note, mapping.word),
+        translation: field(note, mapping.translation),
+        transliteration: field(note, mapping.transliteration) || undefined,
+        examples: field(note, mapping.examples).split('\n').map(example => example.trim()).filter(Boolean),
+        tags: [ANKI_TAG, ...note.tags],
+      },
+      progress: importScheduling ? note.scheduling : undefined,
+    }));
+
+    return await importCustomWords(words);
+  } catch (error) {
+    console.error('Error importing Anki deck:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,70 @@
+// Arabic normalization and light stemming for the Arabic Learning Extension
+
+// Harakat, tanween, shadda, sukun, Quranic annotation marks and tatweel. The superscript
+// (dagger) alef is a long vowel and is turned into alef before these are removed.
+const DIACRITICS_REGEX = /[\u0610-\u061A\u064B-\u065F\u06D6-\u06ED\u0640]/g;
+
+// Shortest stem left after removing a suffix, so root letters (نبي، قرى، وجه) are kept
+const MIN_SUFFIX_STEM_LENGTH = 3;
+
+// Definite article and attached prepositions, longest first
+const STEM_PREFIXES = ['وال', 'بال', 'كال', 'فال', 'لل', 'ال'];
+
+// Common suffixes, removed in this order (after normalization taa marbuta is ه)
+const STEM_SUFFIXES = ['ها', 'ان', 'ات', 'ون', 'ين', 'يه', 'ه', 'ي'];
+
+/**
+ * Normalizes an Arabic word for lookups: spells out the dagger alef of Uthmani
+ * script, removes diacritics and unifies alef, hamza, ya and taa marbuta variants,
+ * so ٱلْكِتَٰبُ matches الكتاب and قُرْءَان matches قرآن
+ * @param word The Arabic word to normalize
+ * @returns Normalized word
+ */
+export const normalizeArabic = (word: string): string => {
+  return word
+    .normalize('NFC')                            // Alef, waw or ya followed by a hamza mark → أ ؤ ئ
+    .replace(/\u0649\u0670(?=[\u0621-\u064A])/g, '\u0627') // Alef maqsura with dagger alef inside a word (تُقَىٰةً → تقاة)
+    .replace(/[\u0648\u064A]\u0670/g, '\u0627')     // Waw or ya carrying a dagger alef (ٱلصَّلَوٰةَ → الصلاة)
+    .replace(/\u0649\u0670/g, '\u0649')              // Final alef maqsura keeps its plain spelling (عَلَىٰ → على)
+    .replace(/\u0670/g, '\u0627')                    // Dagger alef → alef (ٱلْعَٰلَمِينَ → العالمين)
+    .replace(/[\u0654\u0655]/g, '\u0626')            // Lone hamza mark over a tatweel (سُـِٔلَ) → ئ
+    .replace(DIACRITICS_REGEX, '')               // Remove diacritics
+    .replace(/\u0621\u0627/g, '\u0627')              // Hamza before alef is a madda (قرءان → قرآن)
+    .replace(/[\u0624\u0626]/g, '\u0621')            // Unify hamza seats (ؤ ئ → ء)
+    .replace(/[\u0622\u0623\u0625\u0671]/g, '\u0627') // Unify alef forms (آ أ إ ٱ → ا)
+    .replace(/\u0649/g, '\u064A')                 // Alef maqsura → ya
+    .replace(/\u0629/g, '\u0647')                 // Taa marbuta → ha
+    .replace(/\s+/g, '')                         // Remove whitespace
+    .trim();
+};
+
+/**
+ * Light stemmer: strips the definite article, attached conjunctions and
+ * common suffixes from a normalized word, never going below two letters
+ * for prefixes or three for suffixes
+ * @param normalizedWord A word already passed through normalizeArabic
+ * @returns The stem
+ */
+export const stemArabic = (normalizedWord: string): string => {
+  let stem = normalizedWord;
+
+  // Conjunction wa-
+  if (stem.length > 3 && stem.startsWith('و')) {
+    stem = stem.slice(1);
+  }
+
+  for (const prefix of STEM_PREFIXES) {
+    if (stem.startsWith(prefix) && stem.length - prefix.length >= 2) {
+      stem = stem.slice(prefix.length);
+      break;
+    }
+  }
+
+  for (const suffix of STEM_SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= MIN_SUFFIX_STEM_LENGTH) {
+      stem = stem.slice(0, -suffix.length);
+    }
+  }
+
+  return stem;
+};
@@ -0,0 +1,487 @@
+// Versioned backups of learner data for the Arabic Learning Extension
+// Covers everything needed to carry on reviewing in another browser: settings,
+// every progress row, the review history, custom words and notes on corpus entries
+import { IDBPDatabase } from 'idb';
+import { initDB, ArabicLearningDB, ReviewLogEntry, UserProgress, UserSettings, VocabularyItem, VocabularySource } from './database';
+import { DB_VERSION, toDate, withSchedulingState } from './migrations';
+import { normalizeArabic } from './arabicNormalization';
+import { indexVocabularyItem } from './searchIndex';
+import { EXCLUDED_SETTINGS, readSnapshotData, writeSnapshot } from './snapshotData';
+
+export const BACKUP_FORMAT = 'arabic-learning-backup';
+export const BACKUP_VERSION = 1;
+
+// Settings that only ever grow; a merge keeps the larger value
+const COUNTER_SETTINGS = ['learnedWordsCount', 'reviewsTotal', 'correctAnswers', 'incorrectAnswers', 'streak'];
+
+// Identifies a word across installs, whose ids may differ
+export interface BackupWordRef {
+  id: number; // Id in the exporting install; custom words are matched on it
+  source: VocabularySource;
+  normalized: string; // Corpus words are matched on it
+}
+
+export interface BackupProgress extends Omit<UserProgress, 'wordId' | 'lastReviewed' | 'nextReview'> {
+  word: BackupWordRef;
+  lastReviewed: string;
+  nextReview: string;
+}
+
+export interface BackupReview extends Omit<ReviewLogEntry, 'id' | 'wordId' | 'timestamp'> {
+  word: BackupWordRef;
+  timestamp: string;
+}
+
+export interface BackupCustomWord extends Omit<VocabularyItem, 'createdAt'> {
+  createdAt?: string;
+}
+
+// Learner-owned fields of a corpus entry
+export interface VocabularyOverride {
+  word: BackupWordRef;
+  notes: string;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // Database version of the exporting install
+  exportedAt: string;
+  settings: UserSettings[];
+  progress: BackupProgress[];
+  reviewLog: BackupReview[];
+  customVocabulary: BackupCustomWord[];
+  vocabularyOverrides: VocabularyOverride[];
+}
+
+// replace: the backup becomes the learner's data; merge: the newer progress per word wins
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportOptions {
+  mode?: ImportMode; // Default: merge
+  dryRun?: boolean; // Report what would change without changing anything
+}
+
+// What an import changed, or for a dry run would change
+export interface ImportReport {
+  mode: ImportMode;
+  dryRun: boolean;
+  settings: { written: number; kept: number };
+  progress: { added: number; updated: number; kept: number; removed: number; unresolved: number };
+  reviewLog: { added: number; duplicates: number; removed: number; unresolved: number };
+  customVocabulary: { added: number; matched: number; removed: number };
+  vocabularyOverrides: { applied: number; unresolved: number };
+}
+
+/**
+ * Reference to a vocabulary entry that survives moving to another install
+ * @param item The vocabulary entry
+ * @returns The word reference
+ */
+const toWordRef = (item: VocabularyItem): BackupWordRef => ({
+  id: item.id!,
+  source: item.source || 'corpus',
+  normalized: item.normalized || normalizeArabic(item.word),
+});
+
+/**
+ * Whether parsed data is an object whose fields can be read
+ * @param value The parsed value
+ * @returns True for any non-null object
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Serialize a stored date; unreadable dates become the epoch, which is always due
+ * @param value The stored value
+ * @returns ISO date string
+ */
+const toISODate = (value: unknown): string => {
+  const date: unknown = toDate(value);
+  return date instanceof Date && !isNaN(date.getTime()) ? date.toISOString() : new Date(0).toISOString();
+};
+
+/**
+ * Read every piece of learner data into a backup
+ * @returns Promise with the backup
+ */
+export const createBackup = async (): Promise<BackupFile> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'reviewLog', 'settings'], 'readonly');
+
+    const vocabulary: VocabularyItem[] = await transaction.objectStore('vocabulary').getAll();
+    const refs = new Map(vocabulary.map(item => [item.id!, toWordRef(item)]));
+    const progress: UserProgress[] = await transaction.objectStore('progress').getAll();
+    const reviewLog: ReviewLogEntry[] = await transaction.objectStore('reviewLog').getAll();
+    const settings: UserSettings[] = await transaction.objectStore('settings').getAll();
+    await transaction.done;
+
+    // Rows for words that no longer exist can't be matched on import, so they are left out
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: DB_VERSION,
+      exportedAt: new Date().toISOString(),
+      settings: settings.filter(setting => !EXCLUDED_SETTINGS.includes(setting.id)),
+      progress: progress
+        .filter(row => refs.has(row.wordId))
+        .map(({ wordId, ...row }) => ({
+          ...row,
+          word: refs.get(wordId)!,
+          lastReviewed: toISODate(row.lastReviewed),
+          nextReview: toISODate(row.nextReview),
+        })),
+      reviewLog: reviewLog
+        .filter(entry => refs.has(entry.wordId))
+        .map(({ id, wordId, ...entry }) => ({
+          ...entry,
+          word: refs.get(wordId)!,
+          timestamp: toISODate(entry.timestamp),
+        })),
+      customVocabulary: vocabulary
+        .filter(item => item.source === 'custom')
+        .map(item => ({ ...item, createdAt: item.createdAt ? toISODate(item.createdAt) : undefined })),
+      vocabularyOverrides: vocabulary
+        .filter(item => item.source !== 'custom' && item.notes)
+        .map(item => ({ word: refs.get(item.id!)!, notes: item.notes! })),
+    };
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn a backup into a file
+ * @param backup The backup
+ * @param gzip Whether to compress the file (default: false)
+ * @returns Promise with the file contents
+ */
+export const serializeBackup = async (backup: BackupFile, gzip = false): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  if (!gzip) return json;
+
+  const compressed = await new Response(json.stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+  return new Blob([compressed], { type: 'application/gzip' });
+};
+
+/**
+ * Convert the export format used before versioned backups (settings and aggregate counters only)
+ * @param userData The parsed legacy export
+ * @returns Equivalent backup
+ */
+const fromLegacyExport = (userData: unknown): BackupFile => {
+  if (!isRecord(userData) || !isRecord(userData.settings) || !isRecord(userData.progress)) {
+    throw new Error('Invalid user data format');
+  }
+  const { settings, progress } = userData;
+
+  const counters: Record<string, string> = {
+    learnedWords: 'learnedWordsCount',
+    reviewsTotal: 'reviewsTotal',
+    correctAnswers: 'correctAnswers',
+    incorrectAnswers: 'incorrectAnswers',
+    streak: 'streak',
+    progressHistory: 'progressHistory',
+  };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: 0,
+    exportedAt: typeof userData.exportDate === 'string' ? userData.exportDate : new Date(0).toISOString(),
+    settings: [
+      ...Object.entries(settings).map(([id, value]) => ({ id, value })),
+      ...Object.entries(counters)
+        .filter(([field]) => progress[field] !== undefined)
+        .map(([field, id]) => ({ id, value: progress[field] })),
+    ],
+    progress: [],
+    reviewLog: [],
+    customVocabulary: [],
+    vocabularyOverrides: [],
+  };
+};
+
+/**
+ * Check that parsed data has the shape of a backup
+ * @param backup The parsed data
+ * @returns A description of each problem; empty if the backup is valid
+ */
+export const validateBackup = (backup: unknown): string[] => {
+  const problems: string[] = [];
+  const isDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+  const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+  const isWordRef = (ref: unknown) => isRecord(ref) && Number.isInteger(ref.id)
+    && (ref.source === 'corpus' || ref.source === 'custom') && typeof ref.normalized === 'string';
+
+  if (!isRecord(backup) || backup.format !== BACKUP_FORMAT) {
+    return ['not a backup file'];
+  }
+  const { version } = backup;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    problems.push(`unknown version ${version}`);
+  } else if (version > BACKUP_VERSION) {
+    problems.push(`made by a newer version of the extension (backup version ${version})`);
+  }
+
+  for (const section of ['settings', 'progress', 'reviewLog', 'customVocabulary', 'vocabularyOverrides']) {
+    if (!Array.isArray(backup[section])) {
+      problems.push(`${section} is missing`);
+    }
+  }
+  if (problems.length > 0) return problems;
+
+  // Rows of a section; anything that isn't an object is checked as an empty one
+  const rows = (section: string): Record<string, unknown>[] =>
+    (backup[section] as unknown[]).map(row => (isRecord(row) ? row : {}));
+
+  rows('settings').forEach((setting, index) => {
+    if (typeof setting.id !== 'string') problems.push(`settings[${index}]: missing id`);
+  });
+  rows('progress').forEach((row, index) => {
+    if (!isWordRef(row.word)) problems.push(`progress[${index}]: invalid word`);
+    if (!isDate(row.lastReviewed) || !isDate(row.nextReview)) problems.push(`progress[${index}]: invalid date`);
+    if (!isCount(row.correctCount) || !isCount(row.incorrectCount)) problems.push(`progress[${index}]: invalid counts`);
+    if (typeof row.easeFactor !== 'number' || isNaN(row.easeFactor)) problems.push(`progress[${index}]: invalid ease factor`);
+  });
+  rows('reviewLog').forEach((entry, index) => {
+    if (!isWordRef(entry.word)) problems.push(`reviewLog[${index}]: invalid word`);
+    if (!isDate(entry.timestamp)) problems.push(`reviewLog[${index}]: invalid timestamp`);
+    if (typeof entry.grade !== 'number') problems.push(`reviewLog[${index}]: invalid grade`);
+  });
+  rows('customVocabulary').forEach((item, index) => {
+    if (!Number.isInteger(item.id)) problems.push(`customVocabulary[${index}]: missing id`);
+    if (typeof item.word !== 'string' || typeof item.translation !== 'string') {
+      problems.push(`customVocabulary[${index}]: missing word or translation`);
+    }
+  });
+  rows('vocabularyOverrides').forEach((override, index) => {
+    if (!isWordRef(override.word) || typeof override.notes !== 'string') {
+      problems.push(`vocabularyOverrides[${index}]: invalid override`);
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Read a backup file, plain or gzipped, or a legacy export
+ * @param data The file contents
+ * @returns Promise with the validated backup
+ */
+export const parseBackup = async (data: string | Blob): Promise<BackupFile> => {
+  let text: string;
+  if (typeof data === 'string') {
+    text = data;
+  } else {
+    // gzip files start with the bytes 1f 8b
+    const header = new Uint8Array(await data.slice(0, 2).arrayBuffer());
+    text = header[0] === 0x1f && header[1] === 0x8b
+      ? await new Response(data.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+      : await data.text();
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  const backup = isRecord(parsed) && parsed.format === BACKUP_FORMAT ? parsed : fromLegacyExport(parsed);
+
+  const problems = validateBackup(backup);
+  if (problems.length > 0) {
+    const more = problems.length > 5 ? ` (and ${problems.length - 5} more)` : '';
+    throw new Error(`Invalid backup: ${problems.slice(0, 5).join('; ')}${more}`);
+  }
+
+  return backup as BackupFile;
+};
+
+/**
+ * Roll back every write made in a transaction
+ * @param transaction The transaction to abort
+ */
+const discardTransaction = async (transaction: { abort: () => void; done: Promise<void> }): Promise<void> => {
+  try {
+    transaction.abort();
+  } catch (error) {
+    // Already aborted by a failed request
+  }
+  await transaction.done.catch(() => undefined);
+};
+
+/**
+ * Import a backup. Runs in one transaction that also snapshots the current data;
+ * a dry run does all the same work and then aborts it.
+ * @param backup A validated backup
+ * @param options Import mode and dry run
+ * @param getDB Returns the connection to import into (defaults to the shared cached one)
+ * @returns Promise with what changed, or would change
+ */
+export const importBackup = async (
+  backup: BackupFile,
+  options: ImportOptions = {},
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Promise<ImportReport> => {
+  const mode = options.mode || 'merge';
+  const dryRun = options.dryRun || false;
+  const report: ImportReport = {
+    mode,
+    dryRun,
+    settings: { written: 0, kept: 0 },
+    progress: { added: 0, updated: 0, kept: 0, removed: 0, unresolved: 0 },
+    reviewLog: { added: 0, duplicates: 0, removed: 0, unresolved: 0 },
+    customVocabulary: { added: 0, matched: 0, removed: 0 },
+    vocabularyOverrides: { applied: 0, unresolved: 0 },
+  };
+
+  try {
+    const db = await getDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'reviewLog', 'settings', 'searchIndex', 'snapshots'], 'readwrite');
+    const vocabularyStore = transaction.objectStore('vocabulary');
+    const progressStore = transaction.objectStore('progress');
+    const reviewLogStore = transaction.objectStore('reviewLog');
+    const settingsStore = transaction.objectStore('settings');
+    const searchStore = transaction.objectStore('searchIndex');
+
+    try {
+      // Keep a copy of what is about to be overwritten
+      await writeSnapshot(transaction.objectStore('snapshots'), {
+        ...(await readSnapshotData(transaction)),
+        createdAt: new Date(),
+        reason: 'import',
+        schemaVersion: DB_VERSION,
+      });
+
+      if (mode === 'replace') {
+        report.progress.removed = await progressStore.count();
+        await progressStore.clear();
+        report.reviewLog.removed = await reviewLogStore.count();
+        await reviewLogStore.clear();
+        for (const key of await settingsStore.getAllKeys()) {
+          if (!EXCLUDED_SETTINGS.includes(key as string)) {
+            await settingsStore.delete(key);
+          }
+        }
+        for (const item of await vocabularyStore.getAll()) {
+          if (item.source === 'custom') {
+            await vocabularyStore.delete(item.id!);
+            for (const key of await searchStore.index('wordId').getAllKeys(item.id!)) {
+              await searchStore.delete(key);
+            }
+            report.customVocabulary.removed++;
+          } else if (item.notes) {
+            await vocabularyStore.put({ ...item, notes: undefined });
+          }
+        }
+      }
+
+      // Custom words first, so progress and history can be pointed at their new ids
+      const customIds = new Map<number, number>();
+      const localCustomWords: VocabularyItem[] = await vocabularyStore.index('source').getAll('custom');
+      for (const { id, createdAt, ...fields } of backup.customVocabulary) {
+        const normalized = fields.normalized || normalizeArabic(fields.word);
+        const match = localCustomWords.find(item => item.normalized === normalized && item.translation === fields.translation);
+        if (match) {
+          customIds.set(id!, match.id!);
+          report.customVocabulary.matched++;
+          continue;
+        }
+
+        const item: VocabularyItem = { ...fields, normalized, source: 'custom', createdAt: createdAt ? toDate(createdAt) : new Date() };
+        const wordId = await vocabularyStore.add(item) as number;
+        await indexVocabularyItem(searchStore, { ...item, id: wordId });
+        customIds.set(id!, wordId);
+        report.customVocabulary.added++;
+      }
+
+      // Corpus words are looked up by normalized form, preferring the same id
+      const corpusIds = new Map<string, number | undefined>();
+      const resolveWord = async (ref: BackupWordRef): Promise<number | undefined> => {
+        if (ref.source === 'custom') return customIds.get(ref.id);
+        if (!corpusIds.has(ref.normalized)) {
+          const matches = (await vocabularyStore.index('normalized').getAll(ref.normalized))
+            .filter((item: VocabularyItem) => item.source !== 'custom');
+          const match = matches.find((item: VocabularyItem) => item.id === ref.id) || matches[0];
+          corpusIds.set(ref.normalized, match ? match.id : undefined);
+        }
+        return corpusIds.get(ref.normalized);
+      };
+
+      for (const { word, ...row } of backup.progress) {
+        const wordId = await resolveWord(word);
+        if (wordId === undefined) {
+          report.progress.unresolved++;
+          continue;
+        }
+
+        // Backups from before schema version 11 carry no interval, repetitions or lapses
+        const incoming = withSchedulingState({ ...row, wordId, lastReviewed: toDate(row.lastReviewed), nextReview: toDate(row.nextReview) } as UserProgress);
+        const existing: UserProgress | undefined = await progressStore.get(wordId);
+        if (existing && existing.lastReviewed >= incoming.lastReviewed) {
+          report.progress.kept++;
+          continue;
+        }
+        await progressStore.put(incoming);
+        if (existing) {
+          report.progress.updated++;
+        } else {
+          report.progress.added++;
+        }
+      }
+
+      for (const { word, ...entry } of backup.reviewLog) {
+        const wordId = await resolveWord(word);
+        if (wordId === undefined) {
+          report.reviewLog.unresolved++;
+          continue;
+        }
+
+        const timestamp = toDate(entry.timestamp);
+        if (await reviewLogStore.index('wordTimestamp').count([wordId, timestamp]) > 0) {
+          report.reviewLog.duplicates++;
+          continue;
+        }
+        await reviewLogStore.add({ ...entry, wordId, timestamp });
+        report.reviewLog.added++;
+      }
+
+      for (const setting of backup.settings) {
+        if (EXCLUDED_SETTINGS.includes(setting.id)) continue;
+        if (mode === 'merge' && COUNTER_SETTINGS.includes(setting.id)) {
+          const existing: UserSettings | undefined = await settingsStore.get(setting.id);
+          if (existing && existing.value >= setting.value) {
+            report.settings.kept++;
+            continue;
+          }
+        }
+        await settingsStore.put(setting);
+        report.settings.written++;
+      }
+
+      for (const override of backup.vocabularyOverrides) {
+        const wordId = await resolveWord(override.word);
+        const item: VocabularyItem | undefined = wordId !== undefined ? await vocabularyStore.get(wordId) : undefined;
+        if (!item) {
+          report.vocabularyOverrides.unresolved++;
+          continue;
+        }
+        await vocabularyStore.put({ ...item, notes: override.notes });
+        report.vocabularyOverrides.applied++;
+      }
+    } catch (error) {
+      // Leave the data as it was rather than half-imported
+      await discardTransaction(transaction);
+      throw error;
+    }
+
+    if (dryRun) {
+      await discardTransaction(transaction);
+    } else {
+      await transaction.done;
+    }
+
+    return report;
+  } catch (error) {
+    console.error('Error importing backup:', error);
+    throw error;
+  }
+};
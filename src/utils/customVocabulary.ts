@@ -0,0 +1,256 @@
+// Saved and learner-created vocabulary for the Arabic Learning Extension
+import { initDB, UserProgress, VocabularyItem } from './database';
+import { normalizeArabic, stemArabic } from './arabicNormalization';
+import { transliterate } from './transliteration';
+import { createInitialProgress } from './spacedRepetition';
+import { indexVocabularyItem } from './searchIndex';
+import { readSnapshotData, writeSnapshot } from './snapshotData';
+import { DB_VERSION } from './migrations';
+import { containsArabic } from './textAnalysis';
+import { GlossLanguage, DEFAULT_GLOSS_LANGUAGE, loadGlossChain } from './glosses';
+
+// Tag carried by every learner-created entry
+export const CUSTOM_TAG = 'custom';
+
+export interface CustomWordInput {
+  word: string;
+  translation: string;
+  language?: GlossLanguage; // Language of the translation, defaults to the learner's gloss language
+  transliteration?: string; // Generated from the word when left empty
+  notes?: string;
+  sourceUrl?: string;
+  examples?: string[];
+  tags?: string[];
+  difficulty?: VocabularyItem['difficulty'];
+}
+
+/**
+ * Save an existing dictionary word for review by giving it a progress row
+ * @param wordId The ID of the vocabulary item
+ * @returns Promise with true if the word was added to the queue, false if it was already there
+ */
+export const saveWordForReview = async (wordId: number): Promise<boolean> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'progress'], 'readwrite');
+
+    if (!(await transaction.objectStore('vocabulary').get(wordId))) {
+      throw new Error(`Vocabulary item ${wordId} does not exist`);
+    }
+
+    const progressStore = transaction.objectStore('progress');
+    if (await progressStore.get(wordId)) {
+      await transaction.done;
+      return false;
+    }
+
+    await progressStore.put(createInitialProgress(wordId));
+    await transaction.done;
+    return true;
+  } catch (error) {
+    console.error('Error saving word for review:', error);
+    throw error;
+  }
+};
+
+/**
+ * Build a custom vocabulary entry from the learner's input
+ * @param input The learner's word and details
+ * @returns The entry (without an id)
+ */
+const buildCustomWord = (input: CustomWordInput): VocabularyItem => {
+  const word = input.word.trim();
+  const translation = input.translation.trim();
+
+  if (!containsArabic(word)) {
+    throw new Error('Custom words must be written in Arabic');
+  }
+  if (!translation) {
+    throw new Error('Custom words need a translation');
+  }
+
+  const normalized = normalizeArabic(word);
+  return {
+    word,
+    transliteration: input.transliteration?.trim() || transliterate(word),
+    translation,
+    translations: input.language && input.language !== DEFAULT_GLOSS_LANGUAGE ? { [input.language]: translation } : {},
+    difficulty: input.difficulty || 'beginner',
+    tags: Array.from(new Set([CUSTOM_TAG, ...(input.tags || [])])),
+    source: 'custom',
+    notes: input.notes?.trim() || undefined,
+    sourceUrl: input.sourceUrl || undefined,
+    examples: input.examples && input.examples.length > 0 ? input.examples : undefined,
+    createdAt: new Date(),
+    normalized,
+    lemma: stemArabic(normalized),
+    senses: [{ gloss: translation, occurrences: 1 }],
+    forms: [word],
+  };
+};
+
+/**
+ * Add a word that isn't in the dictionary. The entry is kept apart from the
+ * corpus (dataset upgrades never overwrite it) and goes straight into the review queue.
+ * @param input The learner's word and details
+ * @returns Promise with the ID of the new entry
+ */
+export const addCustomWord = async (input: CustomWordInput): Promise<number> => {
+  try {
+    const language = input.language || (await loadGlossChain())[0];
+    const item = buildCustomWord({ ...input, language });
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'searchIndex'], 'readwrite');
+
+    const wordId = await transaction.objectStore('vocabulary').add(item) as number;
+    await indexVocabularyItem(transaction.objectStore('searchIndex'), { ...item, id: wordId });
+    await transaction.objectStore('progress').put(createInitialProgress(wordId));
+    await transaction.done;
+
+    return wordId;
+  } catch (error) {
+    console.error('Error adding custom word:', error);
+    throw error;
+  }
+};
+
+// A custom word to import, with scheduling carried over from another app
+export interface CustomWordImport {
+  input: CustomWordInput;
+  progress?: Omit<UserProgress, 'wordId'>; // Defaults to due right away
+}
+
+/**
+ * Add many custom words in one transaction, skipping any the learner already
+ * has (same word and translation) and any that aren't valid custom words.
+ * Takes an import snapshot first, in the same transaction.
+ * @param words The words to add
+ * @returns Promise with the number of words added, skipped as duplicates and rejected
+ */
+export const importCustomWords = async (
+  words: CustomWordImport[]
+): Promise<{ added: number; skipped: number; invalid: number }> => {
+  try {
+    const language = (await loadGlossChain())[0];
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'settings', 'searchIndex', 'snapshots'], 'readwrite');
+    const store = transaction.objectStore('vocabulary');
+
+    await writeSnapshot(transaction.objectStore('snapshots'), {
+      ...(await readSnapshotData(transaction)),
+      createdAt: new Date(),
+      reason: 'import',
+      schemaVersion: DB_VERSION,
+    });
+
+    const existing: VocabularyItem[] = await store.index('source').getAll('custom');
+    const seen = new Set(existing.map(item => `${item.normalized}\t${item.translation}`));
+    let added = 0;
+    let invalid = 0;
+
+    for (const { input, progress } of words) {
+      let item: VocabularyItem;
+      try {
+        item = buildCustomWord({ ...input, language: input.language || language });
+      } catch (error) {
+        invalid++; // Not Arabic, or no translation
+        continue;
+      }
+      const key = `${item.normalized}\t${item.translation}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const wordId = await store.add(item) as number;
+      await indexVocabularyItem(transaction.objectStore('searchIndex'), { ...item, id: wordId });
+      await transaction.objectStore('progress').put(progress ? { ...progress, wordId } : createInitialProgress(wordId));
+      added++;
+    }
+
+    await transaction.done;
+    return { added, skipped: words.length - added - invalid, invalid };
+  } catch (error) {
+    console.error('Error importing custom words:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update a learner-created entry
+ * @param wordId The ID of the custom entry
+ * @param changes Fields to change
+ * @returns Promise with the updated entry
+ */
+export const updateCustomWord = async (
+  wordId: number,
+  changes: Partial<CustomWordInput>
+): Promise<VocabularyItem> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'searchIndex'], 'readwrite');
+    const store = transaction.objectStore('vocabulary');
+
+    const existing: VocabularyItem | undefined = await store.get(wordId);
+    if (!existing || existing.source !== 'custom') {
+      throw new Error(`Vocabulary item ${wordId} is not a custom word`);
+    }
+
+    const rebuilt = buildCustomWord({
+      word: changes.word ?? existing.word,
+      translation: changes.translation ?? existing.translation,
+      language: changes.language ?? Object.keys(existing.translations || {})[0] as GlossLanguage | undefined,
+      transliteration: changes.transliteration ?? (changes.word ? undefined : existing.transliteration),
+      notes: changes.notes ?? existing.notes,
+      sourceUrl: changes.sourceUrl ?? existing.sourceUrl,
+      examples: changes.examples ?? existing.examples,
+      tags: changes.tags ?? existing.tags,
+      difficulty: changes.difficulty ?? existing.difficulty,
+    });
+    const updated = { ...existing, ...rebuilt, id: wordId, createdAt: existing.createdAt };
+
+    await store.put(updated);
+    await indexVocabularyItem(transaction.objectStore('searchIndex'), updated);
+    await transaction.done;
+
+    return updated;
+  } catch (error) {
+    console.error('Error updating custom word:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a learner-created entry together with its progress and search terms
+ * @param wordId The ID of the custom entry
+ */
+export const deleteCustomWord = async (wordId: number): Promise<void> => {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'searchIndex'], 'readwrite');
+    const store = transaction.objectStore('vocabulary');
+
+    const existing: VocabularyItem | undefined = await store.get(wordId);
+    if (!existing || existing.source !== 'custom') {
+      throw new Error(`Vocabulary item ${wordId} is not a custom word`);
+    }
+
+    await store.delete(wordId);
+    await transaction.objectStore('progress').delete(wordId);
+    const searchStore = transaction.objectStore('searchIndex');
+    for (const key of await searchStore.index('wordId').getAllKeys(wordId)) {
+      await searchStore.delete(key);
+    }
+    await transaction.done;
+  } catch (error) {
+    console.error('Error deleting custom word:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every learner-created entry
+ * @returns Promise with the custom entries
+ */
+export const getCustomWords = async (): Promise<VocabularyItem[]> => {
+  const db = await initDB();
+  return db.getAllFromIndex('vocabulary', 'source', 'custom');
+};
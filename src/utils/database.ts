@@ -1,34 +1,121 @@
 import { openDB } from 'idb';
+import { DB_VERSION, runMigrations } from './migrations';
+import { normalizeArabic, stemArabic } from './arabicNormalization';
+
+export const DB_NAME = 'ArabicLearningDB';
 
 // Define the database schema
-interface VocabularyItem {
+export interface VocabularySense {
+  gloss: string;
+  occurrences: number; // Times the corpus glosses the word this way
+}
+
+// Where an entry came from: the bundled corpus or the learner
+export type VocabularySource = 'corpus' | 'custom';
+
+export interface VocabularyItem {
   id?: number;
   word: string;
   transliteration: string;
-  translation: string;
+  translation: string; // English gloss
+  translations?: Record<string, string>; // Glosses in other languages, by language code
   examples?: string[];
   etymology?: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   tags: string[];
   audioUrl?: string;
+  datasetVersion?: number; // Version of the bundled dataset this entry was last imported from
+  normalized?: string; // Diacritics stripped, alef/ya/taa marbuta unified
+  lemma?: string; // Normalized lemma, or the light stem when the dataset has none
+  root?: string;
+  senses?: VocabularySense[]; // Most frequent first; translation mirrors the first one
+  forms?: string[]; // Surface forms of this lexeme seen in the corpus
+  frequency?: number; // Total occurrences in the corpus
+  source?: VocabularySource; // Dataset imports never touch custom entries
+  notes?: string; // Learner's own notes, such as a mnemonic
+  sourceUrl?: string; // Page a custom entry was saved from
+  createdAt?: Date;
 }
 
-interface UserProgress {
+// One position of a word in the Quran
+export interface WordOccurrence {
+  location: string; // "surah:ayah:position"
+  wordId: number;
+  surah: number;
+  ayah: number;
+  position: number;
+  text: string; // Surface form at this position
+  translation: string; // Word-by-word gloss at this position
+}
+
+// Where a word is in its life: never answered, in its first minute-scale steps,
+// on day-scale reviews, or back in minute-scale steps after being forgotten
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+// Which side of a word a review shows: recognition shows the Arabic, production the meaning
+export type CardType = 'recognition' | 'production';
+
+export interface UserProgress {
   wordId: number;
   correctCount: number;
   incorrectCount: number;
   lastReviewed: Date;
   nextReview: Date;
   easeFactor: number;
+  interval: number; // Days between reviews once out of learning steps; for review words, lastReviewed to nextReview
+  repetitions: number; // Successful reviews in a row since the last lapse
+  lapses: number; // Times the word was forgotten after being learned
+  cardState: CardState;
+  learningStep: number; // Index into the learning or relearning steps, while in them
+  suspended?: boolean; // Left out of reviews until the learner unsuspends it
+  cardType?: CardType; // Defaults to recognition
+  stability?: number; // FSRS memory state, set once the word is reviewed with FSRS
+  difficulty?: number;
 }
 
-interface UserSettings {
+export interface UserSettings {
   id: string;
   value: any;
 }
 
+// Where a review answer was given
+export type ReviewSource = 'popup' | 'in-page' | 'notification';
+
+export interface ReviewLogEntry {
+  id?: number;
+  wordId: number;
+  timestamp: Date;
+  grade: number; // Quality of recall (0-5)
+  previousInterval: number; // Days
+  newInterval: number; // Days
+  easeFactor: number;
+  responseTimeMs?: number;
+  source: ReviewSource;
+}
+
+// Why a snapshot was taken
+export type SnapshotReason = 'migration' | 'import' | 'scheduled' | 'restore' | 'manual';
+
+// Copy of the learner's own data, restorable in one transaction
+export interface Snapshot {
+  id?: number;
+  createdAt: Date;
+  reason: SnapshotReason;
+  schemaVersion: number; // Database version the data was read at
+  progress: UserProgress[];
+  settings: UserSettings[];
+  customVocabulary: VocabularyItem[]; // Learner-created entries only; corpus data is re-importable
+}
+
+// One term of the English gloss search index
+export interface SearchIndexEntry {
+  term: string; // Stemmed, lowercase English term
+  wordId: number;
+  weight: number; // Higher when the term is in the main translation
+}
+
 // Database interface
-interface ArabicLearningDB {
+export interface ArabicLearningDB {
   vocabulary: {
     key: number;
     value: VocabularyItem;
@@ -36,6 +123,12 @@ interface ArabicLearningDB {
       word: string;
       difficulty: string;
       tags: string[];
+      normalized: string;
+      lemma: string;
+      root: string;
+      forms: string[];
+      source: string;
+      frequency: number;
     };
   };
   progress: {
@@ -49,109 +142,85 @@ interface ArabicLearningDB {
     key: string;
     value: UserSettings;
   };
+  occurrences: {
+    key: string;
+    value: WordOccurrence;
+    indexes: {
+      wordLocation: [number, number, number, number];
+      ayahPosition: [number, number, number];
+    };
+  };
+  reviewLog: {
+    key: number;
+    value: ReviewLogEntry;
+    indexes: {
+      timestamp: Date;
+      wordTimestamp: [number, Date];
+    };
+  };
+  searchIndex: {
+    key: [string, number];
+    value: SearchIndexEntry;
+    indexes: {
+      wordId: number;
+    };
+  };
+  snapshots: {
+    key: number;
+    value: Snapshot;
+    indexes: {
+      reasonCreatedAt: [string, Date];
+    };
+  };
 }
 
-// Initialize the database
-export const initDB = async () => {
-  const db = await openDB<ArabicLearningDB>('ArabicLearningDB', 1, {
-    upgrade(db) {
-      // Create vocabulary store
-      const vocabularyStore = db.createObjectStore('vocabulary', { keyPath: 'id', autoIncrement: true });
-      vocabularyStore.createIndex('word', 'word', { unique: true });
-      vocabularyStore.createIndex('difficulty', 'difficulty', { unique: false });
-      vocabularyStore.createIndex('tags', 'tags', { multiEntry: true });
-
-      // Create progress store
-      const progressStore = db.createObjectStore('progress', { keyPath: 'wordId' });
-      progressStore.createIndex('nextReview', 'nextReview', { unique: false });
-
-      // Create settings store
-      db.createObjectStore('settings', { keyPath: 'id' });
+/**
+ * Open the database, migrating it to the requested schema version
+ * @param name Database name (tests use a throwaway name)
+ * @param version Schema version to open, defaults to the latest
+ * @returns Promise with the open database
+ */
+export const openDatabase = (name = DB_NAME, version = DB_VERSION) => {
+  return openDB<ArabicLearningDB>(name, version, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      runMigrations(db, transaction, oldVersion, newVersion ?? version).catch(error => {
+        // Abort so the database stays at its old version instead of half-migrated
+        console.error(`Error migrating database from version ${oldVersion}:`, error);
+        try {
+          transaction.abort();
+        } catch (abortError) {
+          // The transaction has already been aborted by the failing request
+        }
+      });
     },
   });
-
-  return db;
 };
 
-// Load vocabulary data from JSON files
-export const loadVocabularyData = async () => {
-  try {
-    // Import the JSON data
-    const arabicWords = await import('../data/uthmani-qurancom.json');
-    const translations = await import('../data/en-quranwbw.json');
-    const metadata = await import('../data/word-metadata.json');
-
-    // Open the database
-    const db = await initDB();
-
-    // Check if vocabulary is already loaded
-    const count = await db.count('vocabulary');
-    if (count > 0) {
-      console.log('Vocabulary already loaded, skipping import');
-      return;
-    }
-
-    // Process and store the first 1000 words (for MVP)
-    const transaction = db.transaction('vocabulary', 'readwrite');
-    const store = transaction.objectStore('vocabulary');
-
-    // Create a mapping of difficulty levels based on frequency
-    const difficultyMap: { [key: string]: 'beginner' | 'intermediate' | 'advanced' } = {};
-    
-    // Process the first 1000 words
-    const wordLimit = 1000;
-    let processedCount = 0;
-
-    for (const [wordId, arabicWord] of Object.entries(arabicWords)) {
-      if (processedCount >= wordLimit) break;
-      
-      const translation = translations[wordId as keyof typeof translations];
-      const meta = metadata[wordId as keyof typeof metadata];
-      
-      if (!arabicWord || !translation || !meta) continue;
-
-      // Determine difficulty based on word ID (lower IDs are more common)
-      let difficulty: 'beginner' | 'intermediate' | 'advanced';
-      const numericId = parseInt(wordId);
-      if (numericId <= 300) {
-        difficulty = 'beginner';
-      } else if (numericId <= 700) {
-        difficulty = 'intermediate';
-      } else {
-        difficulty = 'advanced';
-      }
-
-      // Create tags based on metadata
-      const tags = ['quranic'];
-      if (meta.surah_id <= 9) tags.push('frequently-used');
-      
-      // Create vocabulary item
-      const vocabItem: VocabularyItem = {
-        word: arabicWord as string,
-        transliteration: '', // Will be populated later
-        translation: translation as string,
-        difficulty,
-        tags,
-      };
-
-      // Add to database
-      await store.add(vocabItem);
-      processedCount++;
-    }
+// Shared connection, opened on first use
+let connection: ReturnType<typeof openDatabase> | null = null;
 
-    await transaction.done;
-    console.log(`Loaded ${processedCount} vocabulary items into the database`);
-    
-    // Add default settings
-    await db.put('settings', { id: 'dailyGoal', value: 10 });
-    await db.put('settings', { id: 'notificationsEnabled', value: true });
-    await db.put('settings', { id: 'theme', value: 'auto' });
-    
-    return processedCount;
-  } catch (error) {
-    console.error('Error loading vocabulary data:', error);
-    throw error;
+// Initialize the database, reusing the open connection
+export const initDB = () => {
+  if (!connection) {
+    connection = openDatabase()
+      .then(db => {
+        // Step aside when a newer version of the extension upgrades the schema;
+        // the next call reopens at the new version
+        db.addEventListener('versionchange', () => {
+          db.close();
+          connection = null;
+        });
+        db.addEventListener('close', () => {
+          connection = null;
+        });
+        return db;
+      })
+      .catch(error => {
+        connection = null;
+        throw error;
+      });
   }
+  return connection;
 };
 
 // Get vocabulary items by difficulty
@@ -166,66 +235,83 @@ export const getVocabularyByTag = async (tag: string, limit = 20) => {
   return db.getAllFromIndex('vocabulary', 'tags', tag, limit);
 };
 
-// Get vocabulary items for review
-export const getVocabularyForReview = async (limit = 10) => {
-  const db = await initDB();
-  const now = new Date();
-  
-  // Get words due for review
-  const dueItems = await db.getAllFromIndex(
-    'progress', 
-    'nextReview', 
-    IDBKeyRange.upperBound(now),
-    limit
-  );
-  
-  // Get the actual vocabulary items
-  const vocabularyItems = await Promise.all(
-    dueItems.map(item => db.get('vocabulary', item.wordId))
-  );
-  
-  return vocabularyItems.filter(Boolean);
-};
+// How a lookup candidate matched the surface form
+export type WordMatchType = 'exact' | 'normalized' | 'stemmed';
+
+export interface WordLookupResult {
+  item: VocabularyItem;
+  matchType: WordMatchType;
+  score: number;
+}
 
-// Update progress for a vocabulary item
-export const updateVocabularyProgress = async (wordId: number, correct: boolean) => {
+/**
+ * Look up an Arabic word as it appears on a page.
+ * Tries an exact match, then the normalized form, then the light stem
+ * against the lemma index, and returns the candidates best first.
+ * @param surface The word as written
+ * @param limit Maximum number of candidates to return
+ * @returns Promise with ranked candidates
+ */
+export const lookupWord = async (surface: string, limit = 5): Promise<WordLookupResult[]> => {
   const db = await initDB();
+  const candidates = new Map<number, WordLookupResult>();
   
-  // Get existing progress or create new
-  let progress = await db.get('progress', wordId) || {
-    wordId,
-    correctCount: 0,
-    incorrectCount: 0,
-    lastReviewed: new Date(0),
-    nextReview: new Date(),
-    easeFactor: 2.5, // Initial ease factor for SM-2 algorithm
+  const addCandidates = (items: VocabularyItem[], matchType: WordMatchType, baseScore: number, form: string) => {
+    for (const item of items) {
+      if (item.id === undefined || candidates.has(item.id)) continue;
+      // Within a match type, prefer entries closest in length to the looked-up form,
+      // then the more frequent lexeme
+      const lengthPenalty = Math.abs((item.normalized || item.word).length - form.length) * 0.01;
+      const frequencyBonus = Math.log10(item.frequency || 1) * 0.001;
+      candidates.set(item.id, { item, matchType, score: baseScore - lengthPenalty + frequencyBonus });
+    }
   };
   
-  // Update progress using SM-2 algorithm
-  const now = new Date();
-  progress.lastReviewed = now;
+  const word = surface.trim();
+  addCandidates(await db.getAllFromIndex('vocabulary', 'forms', word, limit), 'exact', 1, word);
   
-  if (correct) {
-    progress.correctCount++;
-    // Increase ease factor slightly
-    progress.easeFactor = Math.min(progress.easeFactor + 0.1, 3.0);
-    
-    // Calculate next review date based on ease factor
-    const days = Math.round(progress.correctCount * progress.easeFactor);
-    progress.nextReview = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
-  } else {
-    progress.incorrectCount++;
-    // Decrease ease factor
-    progress.easeFactor = Math.max(progress.easeFactor - 0.2, 1.3);
+  const normalized = normalizeArabic(word);
+  if (normalized) {
+    addCandidates(await db.getAllFromIndex('vocabulary', 'normalized', normalized, limit * 4), 'normalized', 0.8, normalized);
     
-    // Review again sooner
-    progress.nextReview = new Date(now.getTime() + 1 * 60 * 60 * 1000); // 1 hour later
+    const stem = stemArabic(normalized);
+    addCandidates(await db.getAllFromIndex('vocabulary', 'lemma', stem, limit * 4), 'stemmed', 0.5, normalized);
   }
   
-  // Save updated progress
-  await db.put('progress', progress);
-  
-  return progress;
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Get the Quran positions where a word occurs, in mushaf order
+ * @param wordId The ID of the vocabulary item
+ * @param limit Maximum number of occurrences to return
+ * @returns Promise with the word's occurrences
+ */
+export const getOccurrences = async (wordId: number, limit?: number): Promise<WordOccurrence[]> => {
+  const db = await initDB();
+  return db.getAllFromIndex(
+    'occurrences',
+    'wordLocation',
+    IDBKeyRange.bound([wordId, 0, 0, 0], [wordId, Infinity, Infinity, Infinity]),
+    limit
+  );
+};
+
+/**
+ * Get every word of an ayah, in reading order
+ * @param surah Surah number
+ * @param ayah Ayah number
+ * @returns Promise with the ayah's words
+ */
+export const getAyahWords = async (surah: number, ayah: number): Promise<WordOccurrence[]> => {
+  const db = await initDB();
+  return db.getAllFromIndex(
+    'occurrences',
+    'ayahPosition',
+    IDBKeyRange.bound([surah, ayah, 0], [surah, ayah, Infinity])
+  );
 };
 
 // Get user settings
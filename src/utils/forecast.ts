@@ -0,0 +1,204 @@
+// Review workload forecast for the Arabic Learning Extension
+// Plays the learner's reviews forward day by day with the active scheduler, to show how
+// many reviews each coming day will hold and what a higher daily goal or new-word limit
+// would add. The deterministic forecast assumes every answer is "good"; the simulation
+// samples each answer from the word's estimated recall, many times over.
+import { toDayKey } from './reviewLog';
+import { getRepositories } from './repositories';
+import { loadScheduler } from './spacedRepetition';
+import { loadLoadBalancingOptions } from './loadBalancer';
+import { DEFAULT_NEW_WORDS_PER_DAY } from './newWords';
+import { DAY_MS, ReviewGrade, Scheduler, SchedulingInput, hasBeenReviewed } from './scheduler';
+
+export type ForecastMode = 'deterministic' | 'simulation';
+
+export const FORECAST_MODE_LABELS: Record<ForecastMode, string> = {
+  deterministic: 'Expected (all answers right)',
+  simulation: 'Simulated (answers vary)',
+};
+
+export const FORECAST_DAY_OPTIONS = [30, 90, 180, 365];
+export const DEFAULT_SIMULATION_RUNS = 20;
+
+const DEFAULT_DAILY_GOAL = 10;
+// Learning steps answered on one simulated day, at most
+const MAX_STEPS_PER_DAY = 10;
+
+// A word to play forward: its scheduling state and when it is next due
+export type SimulationCard = SchedulingInput & { nextReview: Date };
+
+export interface SimulationOptions {
+  days: number;
+  newWordsPerDay: number;
+  dailyGoal: number; // New words stop once due reviews fill it, as in the real queue
+  newWordPool: number; // Words still to be introduced
+  maxReviewsPerDay?: number; // Reviews over the cap wait for the next day; 0 for no cap
+  random?: () => number; // Recall is sampled when given; every answer is "good" otherwise
+  now?: Date;
+}
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD, UTC
+  reviews: number; // Words due that day, learning repeats not counted
+  newWords: number; // Words introduced that day
+  low: number; // 10th percentile of reviews across simulation runs
+  high: number; // 90th percentile
+}
+
+export interface ForecastOptions {
+  days?: number;
+  mode?: ForecastMode;
+  runs?: number; // Simulation runs
+  newWordsPerDay?: number; // Defaults to the learner's setting
+  dailyGoal?: number; // Defaults to the learner's setting
+}
+
+/**
+ * Seeded random numbers (mulberry32), so simulations can be repeated exactly
+ * @param seed Any integer
+ * @returns Function returning numbers in [0, 1)
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Play reviews forward one day at a time. Words due on a day are answered that day,
+ * then new words join while due reviews leave room under the daily goal. Fuzz and load
+ * balancing are left out, so the result is the workload they would then spread.
+ * @param cards Words already in reviews
+ * @param scheduler The scheduler to test
+ * @param options Days, new-word limits and how answers are chosen
+ * @returns One entry per day, today first (low and high equal reviews)
+ */
+export const simulateWorkload = (
+  cards: SimulationCard[],
+  scheduler: Scheduler,
+  options: SimulationOptions
+): ForecastDay[] => {
+  const now = options.now || new Date();
+  const firstDay = new Date(now);
+  firstDay.setUTCHours(0, 0, 0, 0);
+  const cap = options.maxReviewsPerDay && options.maxReviewsPerDay > 0 ? options.maxReviewsPerDay : Infinity;
+
+  // Overdue words count towards today
+  const dayOf = (date: Date) => Math.max(0, Math.floor((date.getTime() - firstDay.getTime()) / DAY_MS));
+  const states = cards.map(card => ({ ...card }));
+  const dueOn: number[][] = Array.from({ length: options.days + 1 }, () => []);
+  states.forEach((state, index) => {
+    const day = dayOf(state.nextReview);
+    if (day < options.days) dueOn[day].push(index);
+  });
+
+  // Answer a word, and again for each learning step that falls on the same day
+  const answer = (index: number, day: number, at: Date) => {
+    const endOfDay = firstDay.getTime() + (day + 1) * DAY_MS;
+    let state = states[index];
+    let time = at;
+    for (let step = 0; step < MAX_STEPS_PER_DAY; step++) {
+      const recalled = !options.random || !hasBeenReviewed(state) || options.random() < scheduler.retrievability(state, time);
+      const grade: ReviewGrade = recalled ? 'good' : 'again';
+      state = { ...state, ...scheduler.next(state, grade, time), lastReviewed: time };
+      if (state.nextReview.getTime() >= endOfDay) break;
+      time = new Date(Math.max(time.getTime(), state.nextReview.getTime()));
+    }
+    states[index] = state;
+    const nextDay = Math.max(day + 1, dayOf(state.nextReview));
+    if (nextDay < options.days) dueOn[nextDay].push(index);
+  };
+
+  let pool = options.newWordPool;
+  const forecast: ForecastDay[] = [];
+  for (let day = 0; day < options.days; day++) {
+    const at = new Date(now.getTime() + day * DAY_MS);
+    const due = dueOn[day].slice(0, cap);
+    dueOn[day + 1].push(...dueOn[day].slice(due.length));
+
+    const newWords = Math.max(0, Math.min(pool, options.newWordsPerDay, options.dailyGoal - due.length));
+    pool -= newWords;
+    for (let i = 0; i < newWords; i++) {
+      states.push({ ...scheduler.initialState(), nextReview: at });
+      due.push(states.length - 1);
+    }
+
+    const reviews = due.length - newWords;
+    due.forEach(index => answer(index, day, at));
+    forecast.push({ date: toDayKey(at), reviews, newWords, low: reviews, high: reviews });
+  }
+  return forecast;
+};
+
+/**
+ * Value below which a share of the sorted values fall
+ * @param sorted Values in ascending order
+ * @param share Between 0 and 1
+ * @returns The percentile
+ */
+const percentile = (sorted: number[], share: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))];
+
+/**
+ * Combine simulation runs into a mean with a 10th to 90th percentile band
+ * @param runs Forecasts from each run, all the same length
+ * @returns The combined forecast
+ */
+export const summarizeRuns = (runs: ForecastDay[][]): ForecastDay[] =>
+  runs[0].map((day, index) => {
+    const reviews = runs.map(run => run[index].reviews).sort((a, b) => a - b);
+    const newWords = runs.reduce((sum, run) => sum + run[index].newWords, 0) / runs.length;
+    return {
+      date: day.date,
+      reviews: reviews.reduce((sum, value) => sum + value, 0) / runs.length,
+      newWords,
+      low: percentile(reviews, 0.1),
+      high: percentile(reviews, 0.9),
+    };
+  });
+
+/**
+ * Forecast the learner's daily reviews from their current progress and scheduler
+ * @param options Horizon, mode, and new-word settings to try instead of the saved ones
+ * @returns Promise with one entry per day, today first
+ */
+export const forecastWorkload = async (options: ForecastOptions = {}): Promise<ForecastDay[]> => {
+  try {
+    const { progress, vocabulary, settings } = getRepositories();
+    const allProgress = await progress.getAll();
+    const cards = allProgress.filter(entry => entry.cardState !== 'new' && !entry.suspended);
+    // Saved words waiting for their first answer, plus words never seen
+    const savedWords = allProgress.filter(entry => entry.cardState === 'new' && !entry.suspended).length;
+    const newWordPool = savedWords + Math.max(0, await vocabulary.count() - allProgress.length);
+
+    const simulationOptions: SimulationOptions = {
+      days: Math.min(365, Math.max(1, options.days ?? FORECAST_DAY_OPTIONS[0])),
+      newWordsPerDay: options.newWordsPerDay ?? await settings.get<number>('newWordsPerDay') ?? DEFAULT_NEW_WORDS_PER_DAY,
+      dailyGoal: options.dailyGoal ?? await settings.get<number>('dailyGoal') ?? DEFAULT_DAILY_GOAL,
+      newWordPool,
+      maxReviewsPerDay: (await loadLoadBalancingOptions()).maxReviewsPerDay,
+    };
+    const scheduler = await loadScheduler();
+
+    if (options.mode !== 'simulation') {
+      return simulateWorkload(cards, scheduler, simulationOptions);
+    }
+
+    const runs: ForecastDay[][] = [];
+    const random = createRandom(Date.now());
+    for (let run = 0; run < (options.runs ?? DEFAULT_SIMULATION_RUNS); run++) {
+      runs.push(simulateWorkload(cards, scheduler, { ...simulationOptions, random }));
+      // Let the page stay responsive on large collections
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return summarizeRuns(runs);
+  } catch (error) {
+    console.error('Error forecasting workload:', error);
+    return [];
+  }
+};
@@ -0,0 +1,199 @@
+// FSRS scheduler for the Arabic Learning Extension
+// Free Spaced Repetition Scheduler, version 4.5: models each word's memory as a stability
+// (days until recall drops to 90%) and a difficulty, and schedules the next review for
+// when recall is predicted to fall to the learner's desired retention
+import {
+  DAY_MS,
+  DEFAULT_DESIRED_RETENTION,
+  REVIEW_GRADES,
+  ReviewGrade,
+  Scheduler,
+  SchedulingInput,
+  elapsedDays,
+  hasBeenReviewed,
+} from './scheduler';
+import { MIN_EASE_FACTOR, MAX_EASE_FACTOR, INITIAL_EASE_FACTOR } from './sm2';
+
+// Default weights, fitted by the FSRS authors on a large body of Anki reviews
+export const DEFAULT_FSRS_PARAMETERS: number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+// Range each weight is kept in, so optimized weights can't produce nonsense schedules
+export const FSRS_PARAMETER_BOUNDS: Array<[number, number]> = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100], // Initial stability per first answer
+  [1, 10], [0.1, 5], // Initial difficulty
+  [0.1, 5], [0, 0.5], // Difficulty update and mean reversion
+  [0, 3], [0.1, 0.8], [0.01, 2.5], // Stability growth on recall
+  [0.5, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 2], // Stability after forgetting
+  [0, 1], [1, 4], // Hard penalty, easy bonus
+];
+
+// Shape of the forgetting curve: R(t) = (1 + FACTOR * t / S) ^ DECAY, so R(S) = 0.9
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.1;
+const MAX_INTERVAL = 36500;
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * FSRS rating (1-4) for an answer button
+ * @param grade The answer button
+ * @returns Rating, 1 for again up to 4 for easy
+ */
+export const toFsrsRating = (grade: ReviewGrade): number => REVIEW_GRADES.indexOf(grade) + 1;
+
+/**
+ * Probability of recall after some time
+ * @param elapsed Days since the last review
+ * @param stability The word's stability in days
+ * @returns Probability between 0 and 1
+ */
+export const forgettingCurve = (elapsed: number, stability: number): number =>
+  Math.pow(1 + FACTOR * elapsed / stability, DECAY);
+
+/**
+ * Days until recall falls to the desired retention
+ * @param stability The word's stability in days
+ * @param desiredRetention Target probability of recall
+ * @returns Interval in whole days
+ */
+export const intervalForStability = (stability: number, desiredRetention: number): number => {
+  const interval = stability / FACTOR * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_INTERVAL);
+};
+
+const initialDifficulty = (w: number[], rating: number): number =>
+  clamp(w[4] - (rating - 3) * w[5], MIN_DIFFICULTY, MAX_DIFFICULTY);
+
+/**
+ * Memory state after an answer
+ * @param w FSRS weights
+ * @param memory The state before the answer, undefined for a first review
+ * @param rating FSRS rating (1-4)
+ * @param elapsed Days since the previous review
+ * @returns The new memory state
+ */
+export const nextMemoryState = (
+  w: number[],
+  memory: MemoryState | undefined,
+  rating: number,
+  elapsed: number
+): MemoryState => {
+  if (!memory) {
+    return { stability: Math.max(MIN_STABILITY, w[rating - 1]), difficulty: initialDifficulty(w, rating) };
+  }
+
+  const { stability, difficulty } = memory;
+  const retrievability = forgettingCurve(elapsed, stability);
+
+  // Difficulty moves with the answer, then reverts a little towards that of a "good" first answer
+  const nextDifficulty = clamp(
+    w[7] * initialDifficulty(w, 3) + (1 - w[7]) * (difficulty - w[6] * (rating - 3)),
+    MIN_DIFFICULTY,
+    MAX_DIFFICULTY
+  );
+
+  let nextStability: number;
+  if (rating === 1) {
+    // Forgotten: stability collapses, though never above what it was
+    nextStability = Math.min(
+      stability,
+      w[11] * Math.pow(difficulty, -w[12]) * (Math.pow(stability + 1, w[13]) - 1) * Math.exp(w[14] * (1 - retrievability))
+    );
+  } else {
+    // Recalled: harder-won recalls (lower retrievability) strengthen memory more
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    nextStability = stability * (1 + Math.exp(w[8]) * (11 - difficulty) * Math.pow(stability, -w[9])
+      * (Math.exp(w[10] * (1 - retrievability)) - 1) * hardPenalty * easyBonus);
+  }
+
+  return { stability: Math.max(MIN_STABILITY, nextStability), difficulty: nextDifficulty };
+};
+
+/**
+ * SM-2 ease factor that roughly matches an FSRS difficulty, so switching back keeps intervals sensible
+ * @param difficulty FSRS difficulty (1-10)
+ * @returns Ease factor
+ */
+const difficultyToEaseFactor = (difficulty: number): number =>
+  MAX_EASE_FACTOR - (difficulty - MIN_DIFFICULTY) / (MAX_DIFFICULTY - MIN_DIFFICULTY) * (MAX_EASE_FACTOR - MIN_EASE_FACTOR);
+
+/**
+ * Memory state of a word, estimated from its SM-2 schedule if FSRS hasn't seen it yet
+ * @param state The word's scheduling input
+ * @returns The memory state, or undefined for words never reviewed
+ */
+export const currentMemoryState = (state: SchedulingInput): MemoryState | undefined => {
+  if (state.stability !== undefined && state.difficulty !== undefined) {
+    return { stability: state.stability, difficulty: state.difficulty };
+  }
+  if (!hasBeenReviewed(state)) return undefined;
+
+  // An SM-2 interval is roughly the time to 90% recall, which is what stability measures
+  const easeFactor = state.easeFactor || INITIAL_EASE_FACTOR;
+  return {
+    stability: Math.max(MIN_STABILITY, state.interval || 1),
+    difficulty: clamp(
+      MIN_DIFFICULTY + (MAX_EASE_FACTOR - easeFactor) / (MAX_EASE_FACTOR - MIN_EASE_FACTOR) * (MAX_DIFFICULTY - MIN_DIFFICULTY),
+      MIN_DIFFICULTY,
+      MAX_DIFFICULTY
+    ),
+  };
+};
+
+/**
+ * Create an FSRS scheduler
+ * @param parameters FSRS weights (default: the published defaults)
+ * @param desiredRetention Target probability of recall at each review
+ * @returns The scheduler
+ */
+export const createFsrsScheduler = (
+  parameters: number[] = DEFAULT_FSRS_PARAMETERS,
+  desiredRetention: number = DEFAULT_DESIRED_RETENTION
+): Scheduler => ({
+  name: 'fsrs',
+
+  initialState: () => ({
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+  }),
+
+  next: (state, grade, now) => {
+    const rating = toFsrsRating(grade);
+    const memory = nextMemoryState(parameters, currentMemoryState(state), rating, elapsedDays(state, now));
+    const interval = intervalForStability(memory.stability, desiredRetention);
+
+    // Repetitions and lapses are kept the same way as SM-2 does
+    const repetitions = rating === 1 ? 0 : (state.repetitions || 0) + 1;
+    const lapses = (state.lapses || 0) + (rating === 1 && (state.repetitions || 0) > 0 ? 1 : 0);
+
+    return {
+      nextReview: new Date(now.getTime() + interval * DAY_MS),
+      easeFactor: difficultyToEaseFactor(memory.difficulty),
+      interval,
+      repetitions,
+      lapses,
+      stability: memory.stability,
+      difficulty: memory.difficulty,
+    };
+  },
+
+  retrievability: (state, at) => {
+    const memory = currentMemoryState(state);
+    return memory ? forgettingCurve(elapsedDays(state, at), memory.stability) : 0;
+  },
+});
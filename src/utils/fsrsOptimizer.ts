@@ -0,0 +1,174 @@
+// Per-learner FSRS weights for the Arabic Learning Extension
+// Fits the FSRS weights to the learner's own review history, locally, so predicted
+// forgetting matches how they actually forget
+import { ReviewLogEntry } from './database';
+import { getRepositories } from './repositories';
+import { getReviewLogByDateRange, isCorrectAnswer, toDayKey } from './reviewLog';
+import { DAY_MS, qualityToGrade } from './scheduler';
+import {
+  DEFAULT_FSRS_PARAMETERS,
+  FSRS_PARAMETER_BOUNDS,
+  MemoryState,
+  forgettingCurve,
+  nextMemoryState,
+  toFsrsRating,
+} from './fsrs';
+
+// Below this many predictable reviews the defaults are a better guess than a fit
+export const MIN_OPTIMIZATION_REVIEWS = 200;
+
+const ITERATIONS = 200;
+const LEARNING_RATE = 0.01;
+const GRADIENT_STEP = 1e-4;
+// How strongly the fit is pulled towards the defaults; matters most for short histories
+const PRIOR_WEIGHT = 20;
+
+export interface FsrsOptimizationResult {
+  parameters: number[];
+  reviewCount: number; // Reviews the fit was measured on
+  lossBefore: number; // Log loss of the starting weights
+  lossAfter: number;
+}
+
+// One answer in a word's history: rating and days since the previous answer
+interface ReviewStep {
+  rating: number;
+  elapsed: number;
+  recalled: boolean;
+}
+
+/**
+ * Split the review log into one answer sequence per word. Words whose history started
+ * before the log did (their first entry follows an earlier interval) are left out, since
+ * their memory state at the first entry is unknown. Only the first answer of each day
+ * counts: later ones are learning steps, which FSRS doesn't model.
+ * @param entries Review log entries, any order
+ * @returns Answer sequences, oldest answer first
+ */
+export const buildReviewSequences = (entries: ReviewLogEntry[]): ReviewStep[][] => {
+  const byWord = new Map<number, ReviewLogEntry[]>();
+  for (const entry of entries) {
+    const history = byWord.get(entry.wordId) || [];
+    history.push(entry);
+    byWord.set(entry.wordId, history);
+  }
+
+  const sequences: ReviewStep[][] = [];
+  for (const history of byWord.values()) {
+    history.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (history[0].previousInterval > 0) continue;
+
+    const daily = history.filter((entry, index) =>
+      index === 0 || toDayKey(entry.timestamp) !== toDayKey(history[index - 1].timestamp));
+    sequences.push(daily.map((entry, index) => ({
+      rating: toFsrsRating(qualityToGrade(entry.grade)),
+      elapsed: index === 0 ? 0 : (entry.timestamp.getTime() - daily[index - 1].timestamp.getTime()) / DAY_MS,
+      recalled: isCorrectAnswer(entry),
+    })));
+  }
+  return sequences;
+};
+
+/**
+ * Mean log loss of the recall predictions a set of weights makes for every answer but the first
+ * @param w FSRS weights
+ * @param sequences Answer sequences
+ * @returns Loss and the number of answers predicted
+ */
+const logLoss = (w: number[], sequences: ReviewStep[][]): { loss: number; count: number } => {
+  let total = 0;
+  let count = 0;
+  for (const sequence of sequences) {
+    let memory: MemoryState | undefined;
+    for (const step of sequence) {
+      if (memory) {
+        const predicted = Math.min(1 - 1e-6, Math.max(1e-6, forgettingCurve(step.elapsed, memory.stability)));
+        total -= step.recalled ? Math.log(predicted) : Math.log(1 - predicted);
+        count++;
+      }
+      memory = nextMemoryState(w, memory, step.rating, step.elapsed);
+    }
+  }
+  return { loss: count > 0 ? total / count : 0, count };
+};
+
+/**
+ * Fit FSRS weights to a review history
+ * @param entries Review log entries
+ * @param initial Weights to start from (default: the FSRS defaults)
+ * @returns Promise with the fitted weights; the starting ones if fitting didn't improve on them
+ */
+export const optimizeFsrsParameters = async (
+  entries: ReviewLogEntry[],
+  initial: number[] = DEFAULT_FSRS_PARAMETERS
+): Promise<FsrsOptimizationResult> => {
+  const sequences = buildReviewSequences(entries);
+  const { loss: lossBefore, count } = logLoss(initial, sequences);
+  if (count < MIN_OPTIMIZATION_REVIEWS) {
+    throw new Error(`Need at least ${MIN_OPTIMIZATION_REVIEWS} repeat reviews to optimize, found ${count}`);
+  }
+
+  // Optimize each weight as a position within its bounds, so all are on the same scale
+  const toWeights = (position: number[]) => position.map((value, i) => {
+    const [min, max] = FSRS_PARAMETER_BOUNDS[i];
+    return min + Math.min(1, Math.max(0, value)) * (max - min);
+  });
+  const prior = DEFAULT_FSRS_PARAMETERS.map((value, i) => {
+    const [min, max] = FSRS_PARAMETER_BOUNDS[i];
+    return (value - min) / (max - min);
+  });
+  const objective = (position: number[]) =>
+    logLoss(toWeights(position), sequences).loss
+    + PRIOR_WEIGHT / count * position.reduce((sum, value, i) => sum + (value - prior[i]) ** 2, 0);
+
+  // Adam with forward-difference gradients
+  const position = initial.map((value, i) => {
+    const [min, max] = FSRS_PARAMETER_BOUNDS[i];
+    return (Math.min(max, Math.max(min, value)) - min) / (max - min);
+  });
+  const m = position.map(() => 0);
+  const v = position.map(() => 0);
+  for (let t = 1; t <= ITERATIONS; t++) {
+    const base = objective(position);
+    const gradient = position.map((value, i) => {
+      const shifted = [...position];
+      shifted[i] = value + GRADIENT_STEP;
+      return (objective(shifted) - base) / GRADIENT_STEP;
+    });
+    gradient.forEach((g, i) => {
+      m[i] = 0.9 * m[i] + 0.1 * g;
+      v[i] = 0.999 * v[i] + 0.001 * g * g;
+      const step = LEARNING_RATE * (m[i] / (1 - 0.9 ** t)) / (Math.sqrt(v[i] / (1 - 0.999 ** t)) + 1e-8);
+      position[i] = Math.min(1, Math.max(0, position[i] - step));
+    });
+
+    // Let the page stay responsive on long histories
+    if (t % 10 === 0) await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const parameters = toWeights(position);
+  const lossAfter = logLoss(parameters, sequences).loss;
+  return lossAfter < lossBefore
+    ? { parameters, reviewCount: count, lossBefore, lossAfter }
+    : { parameters: initial, reviewCount: count, lossBefore, lossAfter: lossBefore };
+};
+
+/**
+ * Fit FSRS weights to the learner's whole review history and save them if they
+ * fit better than the current ones
+ * @returns Promise with the optimization result
+ */
+export const optimizeFsrsFromHistory = async (): Promise<FsrsOptimizationResult> => {
+  try {
+    const entries = await getReviewLogByDateRange(new Date(0));
+    const result = await optimizeFsrsParameters(entries);
+    // Otherwise the current weights stay, whether custom or the defaults
+    if (result.lossAfter < result.lossBefore) {
+      await getRepositories().settings.set('fsrsParameters', result.parameters);
+    }
+    return result;
+  } catch (error) {
+    console.error('Error optimizing FSRS parameters:', error);
+    throw error;
+  }
+};
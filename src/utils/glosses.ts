@@ -0,0 +1,81 @@
+// Gloss languages for the Arabic Learning Extension
+import { VocabularyItem } from './database';
+import { getRepositories } from './repositories';
+
+export type GlossLanguage = 'en' | 'ur' | 'id' | 'fr' | 'tr';
+
+// Languages with a bundled word-by-word file, with their display names
+export const GLOSS_LANGUAGES: Record<GlossLanguage, string> = {
+  en: 'English',
+  ur: 'Urdu (اردو)',
+  id: 'Indonesian (Bahasa Indonesia)',
+  fr: 'French (Français)',
+  tr: 'Turkish (Türkçe)',
+};
+
+// English is always available, so every chain ends with it
+export const DEFAULT_GLOSS_LANGUAGE: GlossLanguage = 'en';
+
+// Languages written right to left
+const RTL_GLOSS_LANGUAGES: GlossLanguage[] = ['ur'];
+
+export interface Gloss {
+  text: string;
+  language: GlossLanguage;
+}
+
+/**
+ * Build the order in which gloss languages are tried
+ * @param preferred The learner's gloss language
+ * @param fallbacks Languages to try next, in order
+ * @returns Distinct languages, ending with English
+ */
+export const getGlossChain = (
+  preferred: GlossLanguage = DEFAULT_GLOSS_LANGUAGE,
+  fallbacks: GlossLanguage[] = []
+): GlossLanguage[] => {
+  return Array.from(new Set([preferred, ...fallbacks, DEFAULT_GLOSS_LANGUAGE]))
+    .filter(language => language in GLOSS_LANGUAGES);
+};
+
+/**
+ * Load the learner's gloss language chain from settings
+ * @returns Promise with the languages to try, in order
+ */
+export const loadGlossChain = async (): Promise<GlossLanguage[]> => {
+  try {
+    const { settings } = getRepositories();
+    const preferred = await settings.get('glossLanguage') || DEFAULT_GLOSS_LANGUAGE;
+    const fallbacks = await settings.get('glossFallbackLanguages') || [];
+    return getGlossChain(preferred, fallbacks);
+  } catch (error) {
+    console.error('Error loading gloss languages:', error);
+    return [DEFAULT_GLOSS_LANGUAGE];
+  }
+};
+
+/**
+ * Get an entry's gloss in the first language of the chain that has one
+ * @param item The vocabulary entry
+ * @param chain Languages to try, in order
+ * @returns The gloss and the language it is in
+ */
+export const getGloss = (
+  item: Pick<VocabularyItem, 'translation' | 'translations'>,
+  chain: GlossLanguage[] = [DEFAULT_GLOSS_LANGUAGE]
+): Gloss => {
+  for (const language of chain) {
+    const text = language === 'en' ? item.translation : item.translations?.[language];
+    if (text) return { text, language };
+  }
+  return { text: item.translation, language: DEFAULT_GLOSS_LANGUAGE };
+};
+
+/**
+ * Text direction for a gloss language
+ * @param language The gloss language
+ * @returns 'rtl' or 'ltr'
+ */
+export const getGlossDirection = (language: GlossLanguage): 'rtl' | 'ltr' => {
+  return RTL_GLOSS_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+};
@@ -1,13 +1,19 @@
 // Hover translation functionality for the Arabic Learning Extension
 import { containsArabic, extractArabicWords } from './textAnalysis';
-import { getVocabularyByTag } from './database';
+import { lookupWord, getSetting, WordMatchType, VocabularySense } from './database';
+import { getSenses } from './lexemes';
+import { getTransliteration, DEFAULT_TRANSLITERATION_SCHEME } from './transliteration';
+import { GlossLanguage, getGloss, getGlossDirection, loadGlossChain } from './glosses';
 
 // Define interfaces
 interface TranslationResult {
   word: string;
   translation: string;
+  glossLanguage?: GlossLanguage; // Language the translation is in
   transliteration?: string;
   id?: number;
+  matchType?: WordMatchType;
+  senses?: VocabularySense[]; // Most frequent first
 }
 
 /**
@@ -17,29 +23,25 @@ interface TranslationResult {
  */
 export const getWordTranslation = async (word: string): Promise<TranslationResult | null> => {
   try {
-    // Normalize the word
-    const normalizedWord = normalizeArabicWord(word);
+    // Find the best candidate: exact, then normalized, then stemmed match
+    const [bestMatch] = await lookupWord(word, 1);
     
-    // In a real implementation, this would query the database for an exact match
-    // For the MVP, we'll use a simplified approach with the 'frequently-used' tag
-    // and filter the results to find a matching word
-    const vocabularyItems = await getVocabularyByTag('frequently-used', 100);
-    
-    // Find a matching word
-    const matchingItem = vocabularyItems.find(item => 
-      normalizeArabicWord(item.word) === normalizedWord
-    );
-    
-    if (matchingItem) {
+    if (bestMatch) {
+      const matchingItem = bestMatch.item;
+      const scheme = await getSetting('transliterationScheme') || DEFAULT_TRANSLITERATION_SCHEME;
+      const gloss = getGloss(matchingItem, await loadGlossChain());
       return {
         word: matchingItem.word,
-        translation: matchingItem.translation,
-        transliteration: matchingItem.transliteration,
-        id: matchingItem.id
+        translation: gloss.text,
+        glossLanguage: gloss.language,
+        transliteration: getTransliteration(matchingItem, scheme),
+        id: matchingItem.id,
+        matchType: bestMatch.matchType,
+        senses: getSenses(matchingItem)
       };
     }
     
-    // If no exact match is found, return a placeholder
+    // If no match is found, return a placeholder
     return {
       word,
       translation: 'Translation not available',
@@ -51,19 +53,6 @@ export const getWordTranslation = async (word: string): Promise<TranslationResul
   }
 };
 
-/**
- * Normalizes an Arabic word by removing diacritics and converting to a standard form
- * @param word The Arabic word to normalize
- * @returns Normalized word
- */
-const normalizeArabicWord = (word: string): string => {
-  // Remove Arabic diacritics (tashkeel)
-  return word
-    .replace(/[\u064B-\u065F\u0670]/g, '') // Remove diacritics
-    .replace(/\s+/g, '')                   // Remove whitespace
-    .trim();
-};
-
 /**
  * Process text element for hover translation
  * @param element The DOM element to process
@@ -183,7 +172,8 @@ export const showTranslationTooltip = async (
       <div class="relative">
         <p class="text-lg font-bold mb-1 text-gray-900 dark:text-white text-right" dir="rtl">${translation.word}</p>
         ${translation.transliteration ? `<p class="text-xs text-gray-500 dark:text-gray-400 mb-1">${translation.transliteration}</p>` : ''}
-        <p class="text-sm text-gray-700 dark:text-gray-300">${translation.translation}</p>
+        <p class="text-sm text-gray-700 dark:text-gray-300" dir="${getGlossDirection(translation.glossLanguage || 'en')}">${translation.translation}</p>
+        ${translation.glossLanguage === 'en' && translation.senses && translation.senses.length > 1 ? `<p class="text-xs text-gray-500 dark:text-gray-400 mt-1">Also: ${translation.senses.slice(1, 4).map(sense => sense.gloss).join(', ')}</p>` : ''}
         
         ${translation.id ? `
           <button
@@ -192,7 +182,27 @@ export const showTranslationTooltip = async (
           >
             Save for Review
           </button>
-        ` : ''}
+        ` : `
+          <form class="mt-2 space-y-1 add-custom-word-form">
+            <input
+              name="translation"
+              required
+              placeholder="Your translation"
+              class="w-full text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700"
+            />
+            <input
+              name="notes"
+              placeholder="Notes (optional)"
+              class="w-full text-xs px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700"
+            />
+            <button
+              type="submit"
+              class="text-xs bg-blue-500 hover:bg-blue-600 text-white px-2 py-1 rounded"
+            >
+              Add to my words
+            </button>
+          </form>
+        `}
         
         <button
           class="absolute top-0 right-0 text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 close-tooltip-button"
@@ -219,7 +229,8 @@ export const showTranslationTooltip = async (
           // Save word for review
           chrome.runtime.sendMessage(
             { action: 'saveWord', wordId: parseInt(wordId) },
-            () => {
+            response => {
+              if (!response || !response.success) return;
               saveButton.textContent = 'Saved';
               saveButton.classList.add('bg-green-500');
               saveButton.classList.remove('bg-blue-500', 'hover:bg-blue-600');
@@ -230,6 +241,34 @@ export const showTranslationTooltip = async (
       });
     }
     
+    // Words missing from the dictionary can be added as the learner's own entries
+    const addWordForm = tooltip.querySelector<HTMLFormElement>('.add-custom-word-form');
+    if (addWordForm) {
+      addWordForm.addEventListener('submit', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const formData = new FormData(addWordForm);
+        chrome.runtime.sendMessage(
+          {
+            action: 'saveWord',
+            word: {
+              word: arabicWords[0],
+              translation: String(formData.get('translation') || ''),
+              notes: String(formData.get('notes') || ''),
+              sourceUrl: window.location.href
+            }
+          },
+          response => {
+            if (response && response.success) {
+              addWordForm.innerHTML = '<p class="text-xs text-green-600 dark:text-green-400">Added to your words</p>';
+            } else {
+              console.error('Error adding custom word:', response && response.error);
+            }
+          }
+        );
+      });
+    }
+    
     const closeButton = tooltip.querySelector('.close-tooltip-button');
     if (closeButton) {
       closeButton.addEventListener('click', () => {
@@ -0,0 +1,298 @@
+// Database integrity checks and repairs for the Arabic Learning Extension
+import { IDBPDatabase, IDBPIndex, IndexKey, IndexNames, StoreNames } from 'idb';
+import { initDB, ArabicLearningDB, UserProgress, VocabularyItem, ReviewLogEntry } from './database';
+import { toDate, mergeProgress } from './migrations';
+import { normalizeArabic } from './arabicNormalization';
+import { mergeLexemes } from './lexemes';
+import { indexVocabularyItem } from './searchIndex';
+import { MIN_EASE_FACTOR, MAX_EASE_FACTOR, INITIAL_EASE_FACTOR } from './sm2';
+
+export type IntegrityIssueType =
+  | 'orphanedProgress' // Progress for a word that no longer exists
+  | 'orphanedReviewLog' // Review history for a word that no longer exists
+  | 'orphanedReference' // Occurrence or search index rows for a missing word
+  | 'invalidDate' // A date stored as a string, number or garbage
+  | 'invalidEaseFactor' // NaN or outside the scheduler's range
+  | 'invalidCount' // Negative or non-numeric answer counts
+  | 'duplicateNormalized'; // Several corpus entries for one normalized word
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  store: string;
+  key: string | number;
+  message: string;
+  repairable: boolean;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  issues: IntegrityIssue[];
+  counts: Record<string, number>; // Records checked per store
+}
+
+export interface RepairResult {
+  repaired: number;
+  report: IntegrityReport; // State after the repair
+}
+
+/**
+ * Whether a value is a usable Date
+ * @param value The stored value
+ * @returns True for a Date with a valid time
+ */
+const isValidDate = (value: any): boolean => value instanceof Date && !isNaN(value.getTime());
+
+/**
+ * Whether a value is a usable answer count
+ * @param value The stored value
+ * @returns True for a non-negative integer
+ */
+const isValidCount = (value: any): boolean => Number.isInteger(value) && value >= 0;
+
+/**
+ * Find the word ids referenced by an index without reading every row:
+ * the cursor jumps past all rows of a word once it has been seen
+ * @param index An index whose keys start with the word id
+ * @param nextKey The smallest key after every row of a word
+ * @returns Promise with the distinct word ids
+ */
+const collectWordIds = async <
+  Name extends StoreNames<ArabicLearningDB>,
+  Index extends IndexNames<ArabicLearningDB, Name>
+>(
+  index: IDBPIndex<ArabicLearningDB, StoreNames<ArabicLearningDB>[], Name, Index, 'readonly'>,
+  nextKey: (wordId: number) => IndexKey<ArabicLearningDB, Name, Index>
+): Promise<number[]> => {
+  const wordIds: number[] = [];
+  let cursor = await index.openKeyCursor();
+
+  while (cursor) {
+    // Keys are the word id itself, or a compound key starting with it
+    const key: IDBValidKey = cursor.key;
+    const wordId = (Array.isArray(key) ? key[0] : key) as number;
+    wordIds.push(wordId);
+    // The cursor's key type is the index key, which TypeScript cannot see through the generics
+    cursor = await cursor.continue(nextKey(wordId) as Parameters<typeof cursor.continue>[0]);
+  }
+
+  return wordIds;
+};
+
+/**
+ * Check the database for inconsistent or corrupt records
+ * @param getDB Returns the connection to check (defaults to the shared cached one)
+ * @returns Promise with every issue found
+ */
+export const verifyDatabase = async (
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Promise<IntegrityReport> => {
+  try {
+    const db = await getDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'reviewLog', 'occurrences', 'searchIndex'], 'readonly');
+    const issues: IntegrityIssue[] = [];
+
+    const vocabulary: VocabularyItem[] = await transaction.objectStore('vocabulary').getAll();
+    const progress: UserProgress[] = await transaction.objectStore('progress').getAll();
+    const reviewLog: ReviewLogEntry[] = await transaction.objectStore('reviewLog').getAll();
+    const vocabularyIds = new Set(vocabulary.map(item => item.id!));
+
+    // Progress rows
+    for (const entry of progress) {
+      if (!vocabularyIds.has(entry.wordId)) {
+        issues.push({ type: 'orphanedProgress', store: 'progress', key: entry.wordId, message: `Progress for missing word ${entry.wordId}`, repairable: true });
+        continue;
+      }
+      for (const field of ['lastReviewed', 'nextReview'] as const) {
+        if (!isValidDate(entry[field])) {
+          issues.push({ type: 'invalidDate', store: 'progress', key: entry.wordId, message: `Word ${entry.wordId} has ${field} stored as ${JSON.stringify(entry[field])}`, repairable: true });
+        }
+      }
+      if (typeof entry.easeFactor !== 'number' || !(entry.easeFactor >= MIN_EASE_FACTOR && entry.easeFactor <= MAX_EASE_FACTOR)) {
+        issues.push({ type: 'invalidEaseFactor', store: 'progress', key: entry.wordId, message: `Word ${entry.wordId} has ease factor ${entry.easeFactor}`, repairable: true });
+      }
+      if (!isValidCount(entry.correctCount) || !isValidCount(entry.incorrectCount)) {
+        issues.push({ type: 'invalidCount', store: 'progress', key: entry.wordId, message: `Word ${entry.wordId} has answer counts ${entry.correctCount}/${entry.incorrectCount}`, repairable: true });
+      }
+    }
+
+    // Review log entries
+    for (const entry of reviewLog) {
+      if (!vocabularyIds.has(entry.wordId)) {
+        // History is kept even for deleted words; it still counts towards streaks and accuracy
+        issues.push({ type: 'orphanedReviewLog', store: 'reviewLog', key: entry.id!, message: `Review log entry ${entry.id} is for missing word ${entry.wordId}`, repairable: false });
+      }
+      if (!isValidDate(entry.timestamp)) {
+        const repairable = isValidDate(toDate(entry.timestamp));
+        issues.push({ type: 'invalidDate', store: 'reviewLog', key: entry.id!, message: `Review log entry ${entry.id} has timestamp ${JSON.stringify(entry.timestamp)}`, repairable });
+      }
+    }
+
+    // Derived rows pointing at missing words
+    const occurrenceWordIds = await collectWordIds(transaction.objectStore('occurrences').index('wordLocation'), wordId => [wordId, Infinity, Infinity, Infinity]);
+    const searchWordIds = await collectWordIds(transaction.objectStore('searchIndex').index('wordId'), wordId => wordId + 0.5);
+    for (const [store, wordIds] of [['occurrences', occurrenceWordIds], ['searchIndex', searchWordIds]] as const) {
+      for (const wordId of wordIds) {
+        if (!vocabularyIds.has(wordId)) {
+          issues.push({ type: 'orphanedReference', store, key: wordId, message: `${store} rows for missing word ${wordId}`, repairable: true });
+        }
+      }
+    }
+
+    // Corpus entries that should have been merged into one lexeme
+    const byNormalized = new Map<string, number[]>();
+    for (const item of vocabulary) {
+      if (item.source === 'custom') continue;
+      const key = item.normalized || normalizeArabic(item.word);
+      byNormalized.set(key, [...(byNormalized.get(key) || []), item.id!]);
+    }
+    for (const [normalized, ids] of byNormalized) {
+      if (ids.length > 1) {
+        issues.push({ type: 'duplicateNormalized', store: 'vocabulary', key: normalized, message: `${ids.length} entries (${ids.join(', ')}) for the word ${normalized}`, repairable: true });
+      }
+    }
+
+    await transaction.done;
+
+    return {
+      checkedAt: new Date(),
+      issues,
+      counts: {
+        vocabulary: vocabulary.length,
+        progress: progress.length,
+        reviewLog: reviewLog.length,
+      },
+    };
+  } catch (error) {
+    console.error('Error verifying database:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fix every issue that can be fixed without losing learner data:
+ * orphaned progress and derived rows are deleted, dates are parsed (or reset
+ * to "due now"), ease factors and counts are clamped, duplicate lexemes are
+ * merged with their progress and history
+ * @param getDB Returns the connection to repair (defaults to the shared cached one)
+ * @returns Promise with the number of repairs and the state afterwards
+ */
+export const repairDatabase = async (
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Promise<RepairResult> => {
+  try {
+    const report = await verifyDatabase(getDB);
+    const repairable = report.issues.filter(issue => issue.repairable);
+    if (repairable.length === 0) {
+      return { repaired: 0, report };
+    }
+
+    const db = await getDB();
+    const transaction = db.transaction(['vocabulary', 'progress', 'reviewLog', 'occurrences', 'searchIndex'], 'readwrite');
+    const vocabularyStore = transaction.objectStore('vocabulary');
+    const progressStore = transaction.objectStore('progress');
+    const reviewLogStore = transaction.objectStore('reviewLog');
+    const occurrencesStore = transaction.objectStore('occurrences');
+    const searchStore = transaction.objectStore('searchIndex');
+    let repaired = 0;
+
+    const deleteReferences = async (store: 'occurrences' | 'searchIndex', wordId: number) => {
+      const keys = store === 'occurrences'
+        ? await occurrencesStore.index('wordLocation').getAllKeys(IDBKeyRange.bound([wordId, 0, 0, 0], [wordId, Infinity, Infinity, Infinity]))
+        : await searchStore.index('wordId').getAllKeys(wordId);
+      for (const key of keys) {
+        await transaction.objectStore(store).delete(key);
+      }
+    };
+
+    for (const issue of repairable) {
+      switch (issue.type) {
+        case 'orphanedProgress':
+          await progressStore.delete(issue.key as number);
+          break;
+        case 'orphanedReference':
+          await deleteReferences(issue.store as 'occurrences' | 'searchIndex', issue.key as number);
+          break;
+        case 'invalidDate':
+          if (issue.store === 'progress') {
+            const entry: UserProgress | undefined = await progressStore.get(issue.key as number);
+            if (!entry) continue;
+            const lastReviewed = toDate(entry.lastReviewed);
+            const nextReview = toDate(entry.nextReview);
+            await progressStore.put({
+              ...entry,
+              lastReviewed: isValidDate(lastReviewed) ? lastReviewed : new Date(0),
+              nextReview: isValidDate(nextReview) ? nextReview : new Date(), // Unreadable: due now
+            });
+          } else {
+            const entry: ReviewLogEntry | undefined = await reviewLogStore.get(issue.key as number);
+            if (!entry) continue;
+            await reviewLogStore.put({ ...entry, timestamp: toDate(entry.timestamp) });
+          }
+          break;
+        case 'invalidEaseFactor': {
+          const entry: UserProgress | undefined = await progressStore.get(issue.key as number);
+          if (!entry) continue;
+          const easeFactor = typeof entry.easeFactor === 'number' && !isNaN(entry.easeFactor)
+            ? Math.min(MAX_EASE_FACTOR, Math.max(MIN_EASE_FACTOR, entry.easeFactor))
+            : INITIAL_EASE_FACTOR;
+          await progressStore.put({ ...entry, easeFactor });
+          break;
+        }
+        case 'invalidCount': {
+          const entry: UserProgress | undefined = await progressStore.get(issue.key as number);
+          if (!entry) continue;
+          const fixCount = (value: any) => (isValidCount(value) ? value : Math.max(0, Math.floor(Number(value)) || 0));
+          await progressStore.put({ ...entry, correctCount: fixCount(entry.correctCount), incorrectCount: fixCount(entry.incorrectCount) });
+          break;
+        }
+        case 'duplicateNormalized': {
+          const items: VocabularyItem[] = (await vocabularyStore.index('normalized').getAll(issue.key as string))
+            .filter((item: VocabularyItem) => item.source !== 'custom')
+            .sort((a: VocabularyItem, b: VocabularyItem) => a.id! - b.id!);
+          if (items.length < 2) continue;
+
+          // Keep the oldest entry, as the schema migration did
+          const lexeme = mergeLexemes(items);
+          await vocabularyStore.put(lexeme);
+          for (const duplicate of items.slice(1)) {
+            await vocabularyStore.delete(duplicate.id!);
+
+            const duplicateProgress: UserProgress | undefined = await progressStore.get(duplicate.id!);
+            if (duplicateProgress) {
+              const lexemeProgress: UserProgress | undefined = await progressStore.get(lexeme.id!);
+              await progressStore.put(lexemeProgress
+                ? mergeProgress(lexemeProgress, duplicateProgress)
+                : { ...duplicateProgress, wordId: lexeme.id! });
+              await progressStore.delete(duplicate.id!);
+            }
+
+            // Move history and occurrences onto the kept entry
+            for (const entry of await reviewLogStore.index('wordTimestamp').getAll(
+              IDBKeyRange.bound([duplicate.id!, new Date(0)], [duplicate.id!, new Date(8.64e15)])
+            )) {
+              await reviewLogStore.put({ ...entry, wordId: lexeme.id! });
+            }
+            for (const occurrence of await occurrencesStore.index('wordLocation').getAll(
+              IDBKeyRange.bound([duplicate.id!, 0, 0, 0], [duplicate.id!, Infinity, Infinity, Infinity])
+            )) {
+              await occurrencesStore.put({ ...occurrence, wordId: lexeme.id! });
+            }
+            await deleteReferences('searchIndex', duplicate.id!);
+          }
+          await indexVocabularyItem(searchStore, lexeme);
+          break;
+        }
+        default:
+          continue;
+      }
+      repaired++;
+    }
+
+    await transaction.done;
+
+    return { repaired, report: await verifyDatabase(getDB) };
+  } catch (error) {
+    console.error('Error repairing database:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,189 @@
+// Learning and relearning steps for the Arabic Learning Extension
+// New words, and words forgotten on review, go through short steps measured in minutes
+// before (re)joining day-scale reviews. Wraps any scheduler: the algorithm only decides
+// when the word is on review, and sets up its memory state on the first answer.
+import { CardState } from './database';
+import { DAY_MS, ReviewGrade, Scheduler, SchedulingInput, ScheduledState, hasBeenReviewed } from './scheduler';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface LearningStepOptions {
+  learningSteps: number[]; // Minutes, for new words
+  relearningSteps: number[]; // Minutes, for forgotten words
+  graduatingInterval: number; // Days, after the last learning step
+  easyInterval: number; // Days, when a new word is answered "easy"
+}
+
+export const DEFAULT_LEARNING_STEP_OPTIONS: LearningStepOptions = {
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  graduatingInterval: 1,
+  easyInterval: 4,
+};
+
+// Words in learning due this soon are shown again in the same session
+export const LEARN_AHEAD_MS = 20 * MINUTE_MS;
+
+/**
+ * Whether a word is in its learning or relearning steps
+ * @param state The word's scheduling state
+ * @returns True while the word is reviewed on a minute scale
+ */
+export const isInLearning = (state: { cardState?: CardState }): boolean =>
+  state.cardState === 'learning' || state.cardState === 'relearning';
+
+/**
+ * Whether a word just answered should come back later in the same session
+ * @param state The word's new scheduling state
+ * @param now When the answer was given
+ * @returns True if the word is in learning and due within the learn-ahead limit
+ */
+export const isDueInSession = (state: ScheduledState, now: Date = new Date()): boolean =>
+  isInLearning(state) && state.nextReview.getTime() - now.getTime() <= LEARN_AHEAD_MS;
+
+/**
+ * Format steps for display, e.g. [1, 10, 60] as "1m 10m 1h"
+ * @param steps Steps in minutes
+ * @returns Space-separated steps
+ */
+export const formatSteps = (steps: number[]): string =>
+  steps.map(step => (step >= 1440 && step % 1440 === 0 ? `${step / 1440}d`
+    : step >= 60 && step % 60 === 0 ? `${step / 60}h` : `${step}m`)).join(' ');
+
+/**
+ * Parse steps typed by the learner, e.g. "1m 10m 1h" or "1 10"
+ * @param text Space- or comma-separated steps; bare numbers are minutes
+ * @returns Steps in minutes, or null if any step is invalid
+ */
+export const parseSteps = (text: string): number[] | null => {
+  const units: Record<string, number> = { m: 1, h: 60, d: 1440 };
+  const steps: number[] = [];
+  for (const token of text.split(/[\s,]+/).filter(Boolean)) {
+    const match = token.match(/^(\d+(?:\.\d+)?)([mhd]?)$/i);
+    if (!match) return null;
+    const minutes = parseFloat(match[1]) * units[(match[2] || 'm').toLowerCase()];
+    if (!(minutes > 0)) return null;
+    steps.push(minutes);
+  }
+  return steps;
+};
+
+/**
+ * Add learning and relearning steps to a scheduler
+ * @param scheduler The algorithm for words on review
+ * @param options Steps and graduation intervals
+ * @returns Scheduler that handles every card state
+ */
+export const withLearningSteps = (
+  scheduler: Scheduler,
+  options: LearningStepOptions = DEFAULT_LEARNING_STEP_OPTIONS
+): Scheduler => {
+  /**
+   * The word's state after a step answer, or its graduation to reviews
+   * @param state Scheduling fields to carry over
+   * @param cardState Which steps the word is in
+   * @param step The step just answered
+   * @param grade The answer
+   * @param now When the answer was given
+   */
+  const answerStep = (
+    state: SchedulingInput,
+    cardState: 'learning' | 'relearning',
+    step: number,
+    grade: ReviewGrade,
+    now: Date
+  ): ScheduledState => {
+    const steps = cardState === 'learning' ? options.learningSteps : options.relearningSteps;
+    // Relearned words go back to the interval the algorithm gave them when they lapsed
+    const graduatingInterval = cardState === 'learning' ? options.graduatingInterval : Math.max(1, state.interval || 0);
+    const carried = {
+      easeFactor: state.easeFactor!,
+      interval: state.interval || 0,
+      repetitions: state.repetitions || 0,
+      lapses: state.lapses || 0,
+      stability: state.stability,
+      difficulty: state.difficulty,
+    };
+
+    const graduate = (interval: number): ScheduledState => ({
+      ...carried,
+      interval,
+      repetitions: Math.max(1, carried.repetitions),
+      cardState: 'review',
+      learningStep: 0,
+      nextReview: new Date(now.getTime() + interval * DAY_MS),
+    });
+
+    if (grade === 'easy') {
+      return graduate(cardState === 'learning' ? options.easyInterval : graduatingInterval);
+    }
+
+    // Steps may have been shortened in settings since the word entered them
+    step = Math.min(step, steps.length - 1);
+    let delay: number;
+    if (grade === 'again') {
+      step = 0;
+      delay = steps[0];
+    } else if (grade === 'hard') {
+      // Repeat the step; on the first step, wait halfway to the second
+      delay = step === 0 && steps.length > 1 ? (steps[0] + steps[1]) / 2 : steps[step];
+    } else {
+      step++;
+      if (step >= steps.length) return graduate(graduatingInterval);
+      delay = steps[step];
+    }
+
+    return {
+      ...carried,
+      repetitions: 0,
+      cardState,
+      learningStep: step,
+      nextReview: new Date(now.getTime() + delay * MINUTE_MS),
+    };
+  };
+
+  return {
+    name: scheduler.name,
+
+    initialState: () => ({ ...scheduler.initialState(), cardState: 'new', learningStep: 0 }),
+
+    next: (state, grade, now) => {
+      const cardState = state.cardState ?? (hasBeenReviewed(state) ? 'review' : 'new');
+
+      if (cardState === 'learning' || cardState === 'relearning') {
+        const steps = cardState === 'learning' ? options.learningSteps : options.relearningSteps;
+        if (steps.length > 0) {
+          return answerStep(state, cardState, state.learningStep || 0, grade, now);
+        }
+        // No steps left in settings: treat it as a review
+      }
+
+      // The algorithm sees every first answer (to set up ease or memory state) and every review
+      const next = scheduler.next(state, grade, now);
+
+      if (cardState === 'new') {
+        if (options.learningSteps.length === 0) {
+          return { ...next, cardState: 'review', learningStep: 0 };
+        }
+        // The first answer counts as answering the first step. SM-2 ease only moves on reviews;
+        // FSRS keeps the ease it derived from the difficulty it just set.
+        const easeFactor = next.stability === undefined ? state.easeFactor ?? scheduler.initialState().easeFactor : next.easeFactor;
+        return answerStep({ ...next, easeFactor, interval: 0, repetitions: 0 }, 'learning', 0, grade, now);
+      }
+
+      if (grade === 'again' && options.relearningSteps.length > 0) {
+        // Keep the post-lapse interval for when the word graduates again
+        return {
+          ...next,
+          cardState: 'relearning',
+          learningStep: 0,
+          nextReview: new Date(now.getTime() + options.relearningSteps[0] * MINUTE_MS),
+        };
+      }
+
+      return { ...next, cardState: 'review', learningStep: 0 };
+    },
+
+    retrievability: (state, at) => scheduler.retrievability(state, at),
+  };
+};
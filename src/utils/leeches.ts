@@ -0,0 +1,149 @@
+// Leech handling for the Arabic Learning Extension
+// A leech is a word forgotten again and again. Once its lapses reach the learner's
+// threshold it is tagged, and optionally suspended or switched to the other card type,
+// so it stops eating into sessions until the learner has given it some attention.
+import { CardType, UserProgress, VocabularyItem } from './database';
+import { getRepositories } from './repositories';
+import { isCorrectAnswer } from './reviewLog';
+
+export type LeechAction = 'tag' | 'suspend' | 'convert';
+
+export const LEECH_ACTION_LABELS: Record<LeechAction, string> = {
+  tag: 'Tag only',
+  suspend: 'Tag and suspend',
+  convert: 'Tag and switch card type',
+};
+
+export const LEECH_TAG = 'leech';
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const DEFAULT_LEECH_ACTION: LeechAction = 'tag';
+
+export interface ProblemWord {
+  item: VocabularyItem;
+  progress: UserProgress;
+  failures: Date[]; // Failed answers, oldest first
+}
+
+/**
+ * Whether a word's latest lapse makes it a leech. After the threshold, the action
+ * repeats every half threshold for as long as the word keeps lapsing.
+ * @param lapses The word's lapse count, including the latest
+ * @param threshold Lapses that make a word a leech
+ * @returns True if the leech action should run now
+ */
+export const isLeechLapse = (lapses: number, threshold: number): boolean =>
+  threshold > 0 && lapses >= threshold && (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+
+export interface LeechResult {
+  progress: UserProgress; // The progress to save
+  // Whether the word needs the leech tag. It is added with the answer, and taken off if the answer is undone.
+  taggedLeech?: boolean;
+}
+
+/**
+ * Whether a word still needs the leech tag
+ * @param wordId The ID of the vocabulary item
+ * @returns Promise with true if the word exists without the tag
+ */
+const needsLeechTag = async (wordId: number): Promise<boolean> => {
+  const item = await getRepositories().vocabulary.get(wordId);
+  return !!item && !item.tags.includes(LEECH_TAG);
+};
+
+/**
+ * Apply the learner's leech action if an answer has just made a word a leech.
+ * Nothing is written here: the progress and tag are saved with the answer.
+ * @param before The word's progress before the answer
+ * @param after The word's progress after it
+ * @returns Promise with the progress to save, and whether to tag the word
+ */
+export const handleLeech = async (before: UserProgress, after: UserProgress): Promise<LeechResult> => {
+  if (after.lapses <= before.lapses) return { progress: after };
+
+  const { settings } = getRepositories();
+  const threshold = await settings.get<number>('leechThreshold') ?? DEFAULT_LEECH_THRESHOLD;
+  if (!isLeechLapse(after.lapses, threshold)) return { progress: after };
+
+  // Every leech is tagged so the problem words view can find it; the other actions come on top
+  const taggedLeech = await needsLeechTag(after.wordId);
+  const action = await settings.get<LeechAction>('leechAction') ?? DEFAULT_LEECH_ACTION;
+  console.log(`Word ${after.wordId} is a leech after ${after.lapses} lapses: ${action}`);
+
+  if (action === 'suspend') {
+    return { progress: { ...after, suspended: true }, taggedLeech };
+  }
+  if (action === 'convert') {
+    return { progress: { ...after, cardType: after.cardType === 'production' ? 'recognition' : 'production' }, taggedLeech };
+  }
+  return { progress: after, taggedLeech };
+};
+
+/**
+ * Get leeches and suspended words, most lapses first
+ * @returns Promise with the words and their failed answers
+ */
+export const getProblemWords = async (): Promise<ProblemWord[]> => {
+  try {
+    const { progress, vocabulary, settings, reviewLog } = getRepositories();
+    const threshold = await settings.get<number>('leechThreshold') ?? DEFAULT_LEECH_THRESHOLD;
+
+    const problems = (await progress.getAll())
+      .filter(entry => entry.suspended || (threshold > 0 && entry.lapses >= threshold))
+      .sort((a, b) => b.lapses - a.lapses);
+    const items = new Map((await vocabulary.getMany(problems.map(entry => entry.wordId))).map(item => [item.id, item]));
+
+    const words: ProblemWord[] = [];
+    for (const entry of problems) {
+      const item = items.get(entry.wordId);
+      if (!item) continue;
+      const history = await reviewLog.getForWord(entry.wordId);
+      words.push({
+        item,
+        progress: entry,
+        failures: history.filter(answer => !isCorrectAnswer(answer)).map(answer => answer.timestamp),
+      });
+    }
+    return words;
+  } catch (error) {
+    console.error('Error getting problem words:', error);
+    return [];
+  }
+};
+
+/**
+ * Put a suspended word back into reviews
+ * @param wordId The ID of the vocabulary item
+ */
+export const unsuspendWord = async (wordId: number): Promise<void> => {
+  const { progress } = getRepositories();
+  const entry = await progress.get(wordId);
+  if (entry) {
+    await progress.put({ ...entry, suspended: false });
+  }
+};
+
+/**
+ * Choose which side of a word its reviews show
+ * @param wordId The ID of the vocabulary item
+ * @param cardType Recognition or production
+ */
+export const setCardType = async (wordId: number, cardType: CardType): Promise<void> => {
+  const { progress } = getRepositories();
+  const entry = await progress.get(wordId);
+  if (entry) {
+    await progress.put({ ...entry, cardType });
+  }
+};
+
+/**
+ * Save the learner's mnemonic for a word in its notes
+ * @param wordId The ID of the vocabulary item
+ * @param notes The mnemonic or other notes
+ */
+export const saveWordNotes = async (wordId: number, notes: string): Promise<void> => {
+  const { vocabulary } = getRepositories();
+  const item = await vocabulary.get(wordId);
+  if (item) {
+    await vocabulary.put({ ...item, notes: notes.trim() || undefined });
+  }
+};
@@ -0,0 +1,100 @@
+// Lexeme helpers for the Arabic Learning Extension
+// One vocabulary entry per normalized word, holding every gloss the corpus gives it
+import { VocabularyItem, VocabularySense } from './database';
+
+/**
+ * Compare glosses ignoring case and surrounding whitespace
+ * @param gloss The gloss to normalize
+ * @returns Comparison key
+ */
+const glossKey = (gloss: string): string => gloss.trim().toLowerCase();
+
+/**
+ * Sort senses so the most frequent gloss comes first
+ * @param senses The senses to sort
+ * @returns Sorted copy
+ */
+export const sortSenses = (senses: VocabularySense[]): VocabularySense[] => {
+  return [...senses].sort((a, b) => b.occurrences - a.occurrences);
+};
+
+/**
+ * Merge two sense lists, adding up occurrences of the same gloss
+ * @param a First list
+ * @param b Second list
+ * @returns Merged list, most frequent first
+ */
+export const mergeSenses = (a: VocabularySense[], b: VocabularySense[]): VocabularySense[] => {
+  const merged = new Map<string, VocabularySense>();
+
+  for (const sense of [...a, ...b]) {
+    const key = glossKey(sense.gloss);
+    const existing = merged.get(key);
+    if (existing) {
+      existing.occurrences += sense.occurrences;
+    } else {
+      merged.set(key, { ...sense });
+    }
+  }
+
+  return sortSenses(Array.from(merged.values()));
+};
+
+/**
+ * Get the senses of an entry, treating legacy entries as a single sense
+ * @param item The vocabulary entry
+ * @returns The entry's senses
+ */
+export const getSenses = (item: VocabularyItem): VocabularySense[] => {
+  if (item.senses && item.senses.length > 0) return item.senses;
+  return item.translation ? [{ gloss: item.translation, occurrences: item.frequency || 1 }] : [];
+};
+
+/**
+ * Record one corpus occurrence of a lexeme
+ * @param item The lexeme entry
+ * @param form The surface form at this position
+ * @param gloss The word-by-word English gloss at this position
+ * @param translations Glosses at this position in other languages; the first one seen for a language is kept
+ * @returns Updated entry
+ */
+export const addOccurrence = (
+  item: VocabularyItem,
+  form: string,
+  gloss: string,
+  translations: Record<string, string> = {}
+): VocabularyItem => {
+  const senses = mergeSenses(item.senses || [], [{ gloss, occurrences: 1 }]);
+  const forms = item.forms || [];
+
+  return {
+    ...item,
+    senses,
+    translation: senses[0].gloss,
+    translations: { ...translations, ...item.translations },
+    forms: forms.includes(form) ? forms : [...forms, form],
+    frequency: (item.frequency || 0) + 1,
+  };
+};
+
+/**
+ * Merge duplicate entries of one lexeme into the first of them
+ * @param items Entries sharing a normalized form, the one to keep first
+ * @returns The merged entry
+ */
+export const mergeLexemes = (items: VocabularyItem[]): VocabularyItem => {
+  const [kept, ...duplicates] = items;
+
+  return duplicates.reduce<VocabularyItem>((merged, duplicate) => {
+    const senses = mergeSenses(getSenses(merged), getSenses(duplicate));
+    return {
+      ...merged,
+      senses,
+      translation: senses[0].gloss,
+      translations: { ...duplicate.translations, ...merged.translations },
+      forms: Array.from(new Set([...(merged.forms || [merged.word]), ...(duplicate.forms || [duplicate.word])])),
+      tags: Array.from(new Set([...merged.tags, ...duplicate.tags])),
+      frequency: (merged.frequency || 1) + (duplicate.frequency || 1),
+    };
+  }, { ...kept, senses: getSenses(kept), forms: kept.forms || [kept.word], frequency: kept.frequency || 1 });
+};
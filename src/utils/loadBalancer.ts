@@ -0,0 +1,134 @@
+// Due-date fuzz and workload balancing for the Arabic Learning Extension
+// Words learned together would otherwise come due together at every review from then on.
+// Review intervals are nudged by a few percent, at random or onto the least busy day
+// nearby, and kept off days that already hold the learner's maximum.
+import { getRepositories } from './repositories';
+import { toDayKey } from './reviewLog';
+import { DAY_MS, ScheduledState } from './scheduler';
+
+export interface LoadBalancingOptions {
+  fuzz: boolean; // Spread due dates over a window around the interval
+  loadBalancing: boolean; // Pick the least busy day in that window rather than a random one
+  maxReviewsPerDay: number; // 0 for no cap
+}
+
+export const DEFAULT_LOAD_BALANCING_OPTIONS: LoadBalancingOptions = {
+  fuzz: true,
+  loadBalancing: true,
+  maxReviewsPerDay: 0,
+};
+
+// Shorter intervals are left alone: a day either way matters too much at that scale
+const MIN_FUZZ_INTERVAL = 2.5;
+// How far past the window a due date may move to find a day under the cap
+const MAX_CAP_DELAY_DAYS = 14;
+
+/**
+ * The days an interval may be moved to: a day either way, plus 15% of the part up to
+ * a week, 10% of the part up to 20 days and 5% of the rest
+ * @param interval Interval in days
+ * @returns Shortest and longest interval in whole days
+ */
+export const getFuzzRange = (interval: number): [number, number] => {
+  if (interval < MIN_FUZZ_INTERVAL) {
+    return [Math.round(interval), Math.round(interval)];
+  }
+  const delta = 1
+    + 0.15 * (Math.min(interval, 7) - MIN_FUZZ_INTERVAL)
+    + 0.1 * Math.max(0, Math.min(interval, 20) - 7)
+    + 0.05 * Math.max(0, interval - 20);
+  return [Math.max(2, Math.round(interval - delta)), Math.round(interval + delta)];
+};
+
+/**
+ * Count the reviews already due on each day of a range
+ * @param now The current time; day n of the range is n days from now
+ * @param firstDay First day to count
+ * @param lastDay Last day to count
+ * @returns Promise with the count for each day, indexed by days from now
+ */
+const countDuePerDay = async (now: Date, firstDay: number, lastDay: number): Promise<Map<number, number>> => {
+  const dayKeys = new Map<string, number>();
+  for (let day = firstDay; day <= lastDay; day++) {
+    dayKeys.set(toDayKey(new Date(now.getTime() + day * DAY_MS)), day);
+  }
+
+  const from = new Date(now.getTime() + firstDay * DAY_MS);
+  from.setUTCHours(0, 0, 0, 0);
+  const to = new Date(now.getTime() + lastDay * DAY_MS);
+  to.setUTCHours(23, 59, 59, 999);
+
+  const counts = new Map<number, number>();
+  for (const entry of await getRepositories().progress.getDueBetween(from, to)) {
+    if (entry.suspended) continue;
+    const day = dayKeys.get(toDayKey(entry.nextReview));
+    if (day !== undefined) counts.set(day, (counts.get(day) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Pick one of the candidates at random
+ * @param values Non-empty list of candidates
+ * @returns One of them
+ */
+const pickRandom = <T>(values: T[]): T => values[Math.floor(Math.random() * values.length)];
+
+/**
+ * Move a word's next review to a fuzzed, balanced day under the daily cap. Only words
+ * on review with intervals of a few days or more are moved.
+ * @param state The word's state as the scheduler left it
+ * @param now When the answer was given
+ * @param options Fuzz, balancing and cap settings
+ * @returns Promise with the state, its interval and due date possibly moved
+ */
+export const balanceDueDate = async (
+  state: ScheduledState,
+  now: Date,
+  options: LoadBalancingOptions = DEFAULT_LOAD_BALANCING_OPTIONS
+): Promise<ScheduledState> => {
+  if (state.cardState !== 'review' || state.interval < MIN_FUZZ_INTERVAL) return state;
+  if (!options.fuzz && options.maxReviewsPerDay <= 0) return state;
+
+  const [minDay, maxDay] = options.fuzz ? getFuzzRange(state.interval) : [Math.round(state.interval), Math.round(state.interval)];
+  const candidates: number[] = [];
+  for (let day = minDay; day <= maxDay; day++) candidates.push(day);
+
+  let day: number;
+  if (!options.loadBalancing && options.maxReviewsPerDay <= 0) {
+    day = pickRandom(candidates);
+  } else {
+    const cap = options.maxReviewsPerDay > 0 ? options.maxReviewsPerDay : Infinity;
+    const counts = await countDuePerDay(now, minDay, maxDay + (cap < Infinity ? MAX_CAP_DELAY_DAYS : 0));
+    const countOn = (candidate: number) => counts.get(candidate) || 0;
+
+    let open = candidates.filter(candidate => countOn(candidate) < cap);
+    if (open.length === 0) {
+      // Every day in the window is full: take the first day after it with room, if any
+      const later = Array.from({ length: MAX_CAP_DELAY_DAYS }, (_, i) => maxDay + 1 + i).find(candidate => countOn(candidate) < cap);
+      open = later !== undefined ? [later] : candidates;
+    }
+
+    if (options.fuzz && options.loadBalancing) {
+      const fewest = Math.min(...open.map(countOn));
+      day = pickRandom(open.filter(candidate => countOn(candidate) === fewest));
+    } else {
+      day = pickRandom(open);
+    }
+  }
+
+  return { ...state, interval: day, nextReview: new Date(now.getTime() + day * DAY_MS) };
+};
+
+/**
+ * Load the learner's fuzz and balancing settings
+ * @returns Promise with the options
+ */
+export const loadLoadBalancingOptions = async (): Promise<LoadBalancingOptions> => {
+  const { settings } = getRepositories();
+  return {
+    fuzz: await settings.get<boolean>('fuzzEnabled') ?? DEFAULT_LOAD_BALANCING_OPTIONS.fuzz,
+    loadBalancing: await settings.get<boolean>('loadBalancing') ?? DEFAULT_LOAD_BALANCING_OPTIONS.loadBalancing,
+    maxReviewsPerDay: await settings.get<number>('maxReviewsPerDay') ?? DEFAULT_LOAD_BALANCING_OPTIONS.maxReviewsPerDay,
+  };
+};
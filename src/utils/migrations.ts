@@ -0,0 +1,410 @@
+// Schema migrations for the Arabic Learning Extension database
+import { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { ArabicLearningDB, UserProgress, VocabularyItem } from './database';
+import { normalizeArabic, stemArabic } from './arabicNormalization';
+import { mergeLexemes } from './lexemes';
+import { transliterate } from './transliteration';
+import { indexVocabularyItem } from './searchIndex';
+import { readSnapshotData, writeSnapshot } from './snapshotData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UpgradeDatabase = IDBPDatabase<ArabicLearningDB>;
+export type UpgradeTransaction = IDBPTransaction<
+  ArabicLearningDB,
+  StoreNames<ArabicLearningDB>[],
+  'versionchange'
+>;
+
+// A single step in the schema history
+interface Migration {
+  version: number; // Database version once this migration has run
+  description: string;
+  migrate: (db: UpgradeDatabase, transaction: UpgradeTransaction) => void | Promise<void>;
+}
+
+/**
+ * Rewrite every record in a store inside the upgrade transaction
+ * @param transaction The versionchange transaction
+ * @param storeName The store to walk
+ * @param transform Returns the updated record, or undefined to leave it unchanged
+ */
+export const updateAllRecords = async <Name extends keyof ArabicLearningDB>(
+  transaction: UpgradeTransaction,
+  storeName: Name,
+  transform: (value: ArabicLearningDB[Name]['value']) => ArabicLearningDB[Name]['value'] | undefined
+): Promise<number> => {
+  let updatedCount = 0;
+  let cursor = await transaction.objectStore(storeName).openCursor();
+
+  while (cursor) {
+    const updated = transform(cursor.value);
+    if (updated !== undefined) {
+      await cursor.update(updated);
+      updatedCount++;
+    }
+    cursor = await cursor.continue();
+  }
+
+  return updatedCount;
+};
+
+/**
+ * Coerce a stored date (Date, ISO string or timestamp) back into a Date
+ * @param value The stored value
+ * @returns The Date, or the original value if it can't be parsed
+ */
+export const toDate = (value: any): any => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return value;
+};
+
+/**
+ * Combine the progress of two entries that turned out to be the same lexeme
+ * @param kept Progress of the entry being kept
+ * @param merged Progress of the duplicate
+ * @returns Combined progress, scheduled as early as either was
+ */
+export const mergeProgress = (kept: UserProgress, merged: UserProgress): UserProgress => ({
+  ...kept,
+  correctCount: kept.correctCount + merged.correctCount,
+  incorrectCount: kept.incorrectCount + merged.incorrectCount,
+  lastReviewed: kept.lastReviewed > merged.lastReviewed ? kept.lastReviewed : merged.lastReviewed,
+  nextReview: kept.nextReview < merged.nextReview ? kept.nextReview : merged.nextReview,
+  easeFactor: Math.min(kept.easeFactor, merged.easeFactor),
+});
+
+/**
+ * Merge corpus entries sharing a normalized form into the oldest of them, moving
+ * their progress, review history and Quran occurrences onto it
+ * @param transaction The versionchange transaction
+ */
+const mergeDuplicateEntries = async (transaction: UpgradeTransaction): Promise<void> => {
+  const vocabularyStore = transaction.objectStore('vocabulary');
+  const progressStore = transaction.objectStore('progress');
+
+  // Group entries by normalized form, oldest entry first; learner-created entries stay apart
+  const groups = new Map<string, VocabularyItem[]>();
+  for (const item of await vocabularyStore.getAll()) {
+    if (item.source === 'custom') continue;
+    const key = item.normalized || normalizeArabic(item.word);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  // Ids of merged duplicates mapped to the id of the entry they merged into
+  const mergedIds = new Map<number, number>();
+  const mergedLexemes: VocabularyItem[] = [];
+
+  for (const items of groups.values()) {
+    items.sort((a, b) => a.id! - b.id!);
+    const lexeme = mergeLexemes(items);
+    await vocabularyStore.put(lexeme);
+    if (items.length > 1) mergedLexemes.push(lexeme);
+
+    for (const duplicate of items.slice(1)) {
+      mergedIds.set(duplicate.id!, lexeme.id!);
+      await vocabularyStore.delete(duplicate.id!);
+
+      // Move the duplicate's progress onto the lexeme
+      const duplicateProgress = await progressStore.get(duplicate.id!);
+      if (!duplicateProgress) continue;
+      const lexemeProgress = await progressStore.get(lexeme.id!);
+      await progressStore.put(lexemeProgress
+        ? mergeProgress(lexemeProgress, duplicateProgress)
+        : { ...duplicateProgress, wordId: lexeme.id! });
+      await progressStore.delete(duplicate.id!);
+    }
+  }
+  if (mergedIds.size === 0) return;
+
+  // Point the review history (and, once they exist, occurrences and the gloss index) at the merged entries
+  await updateAllRecords(transaction, 'reviewLog', entry => (
+    mergedIds.has(entry.wordId) ? { ...entry, wordId: mergedIds.get(entry.wordId)! } : undefined
+  ));
+  if (transaction.objectStoreNames.contains('occurrences')) {
+    await updateAllRecords(transaction, 'occurrences', occurrence => (
+      mergedIds.has(occurrence.wordId) ? { ...occurrence, wordId: mergedIds.get(occurrence.wordId)! } : undefined
+    ));
+  }
+  if (transaction.objectStoreNames.contains('searchIndex')) {
+    const searchStore = transaction.objectStore('searchIndex');
+    for (const duplicateId of mergedIds.keys()) {
+      for (const key of await searchStore.index('wordId').getAllKeys(duplicateId)) {
+        await searchStore.delete(key);
+      }
+    }
+    for (const lexeme of mergedLexemes) {
+      await indexVocabularyItem(searchStore, lexeme);
+    }
+  }
+};
+
+/**
+ * Fill in the scheduling state added in schema versions 11 and 12, for progress written before it
+ * @param progress Stored progress, possibly without interval, repetitions, lapses or card state
+ * @returns Progress with every field set, estimated from its dates
+ */
+export const withSchedulingState = (
+  progress: Omit<UserProgress, 'interval' | 'repetitions' | 'lapses' | 'cardState' | 'learningStep'> & Partial<UserProgress>
+): UserProgress => {
+  const reviewed = progress.lastReviewed instanceof Date && progress.lastReviewed.getTime() > 0;
+  const interval = reviewed && progress.nextReview instanceof Date
+    ? Math.max(0, (progress.nextReview.getTime() - progress.lastReviewed.getTime()) / DAY_MS)
+    : 0;
+
+  return {
+    ...progress,
+    interval: progress.interval ?? interval,
+    repetitions: progress.repetitions ?? (reviewed && progress.correctCount > 0 ? 1 : 0),
+    lapses: progress.lapses ?? 0,
+    cardState: progress.cardState ?? (reviewed ? 'review' : 'new'),
+    learningStep: progress.learningStep ?? 0,
+  };
+};
+
+// Ordered list of migrations. Append new steps here and never edit a shipped one:
+// installs upgrading from `oldVersion` run every step with a higher version.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create vocabulary, progress and settings stores',
+    migrate: (db) => {
+      // Create vocabulary store
+      const vocabularyStore = db.createObjectStore('vocabulary', { keyPath: 'id', autoIncrement: true });
+      vocabularyStore.createIndex('word', 'word', { unique: true });
+      vocabularyStore.createIndex('difficulty', 'difficulty', { unique: false });
+      vocabularyStore.createIndex('tags', 'tags', { multiEntry: true });
+
+      // Create progress store
+      const progressStore = db.createObjectStore('progress', { keyPath: 'wordId' });
+      progressStore.createIndex('nextReview', 'nextReview', { unique: false });
+
+      // Create settings store
+      db.createObjectStore('settings', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 2,
+    description: 'Store progress review dates as Date objects',
+    migrate: async (db, transaction) => {
+      // Dates that went through JSON come back as strings, which sort after
+      // every Date in the nextReview index and so are never due
+      await updateAllRecords(transaction, 'progress', progress => {
+        if (progress.lastReviewed instanceof Date && progress.nextReview instanceof Date) {
+          return undefined;
+        }
+        return {
+          ...progress,
+          lastReviewed: toDate(progress.lastReviewed),
+          nextReview: toDate(progress.nextReview),
+        };
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Add review log store',
+    migrate: (db) => {
+      // One entry per answer, queried by date range and by word
+      const reviewLogStore = db.createObjectStore('reviewLog', { keyPath: 'id', autoIncrement: true });
+      reviewLogStore.createIndex('timestamp', 'timestamp', { unique: false });
+      reviewLogStore.createIndex('wordTimestamp', ['wordId', 'timestamp'], { unique: false });
+    },
+  },
+  {
+    version: 4,
+    description: 'Index vocabulary by normalized form, lemma and root',
+    migrate: async (db, transaction) => {
+      const vocabularyStore = transaction.objectStore('vocabulary');
+      vocabularyStore.createIndex('normalized', 'normalized', { unique: false });
+      vocabularyStore.createIndex('lemma', 'lemma', { unique: false });
+      vocabularyStore.createIndex('root', 'root', { unique: false });
+
+      // Back-fill the indexed fields; lemmas fall back to the light stem
+      await updateAllRecords(transaction, 'vocabulary', item => {
+        const normalized = normalizeArabic(item.word);
+        return {
+          ...item,
+          normalized,
+          lemma: item.lemma || stemArabic(normalized),
+        };
+      });
+    },
+  },
+  {
+    version: 5,
+    description: 'Merge duplicate surface forms into lexemes with senses',
+    migrate: async (db, transaction) => {
+      const vocabularyStore = transaction.objectStore('vocabulary');
+      await mergeDuplicateEntries(transaction);
+
+      // Surface forms are no longer unique per entry; exact lookups go through forms
+      vocabularyStore.deleteIndex('word');
+      vocabularyStore.createIndex('word', 'word', { unique: false });
+      vocabularyStore.createIndex('forms', 'forms', { unique: false, multiEntry: true });
+    },
+  },
+  {
+    version: 6,
+    description: 'Add Quran occurrences store',
+    migrate: (db) => {
+      // Filled by the dataset import; DATASET_VERSION 2 re-imports existing installs
+      const occurrencesStore = db.createObjectStore('occurrences', { keyPath: 'location' });
+      occurrencesStore.createIndex('wordLocation', ['wordId', 'surah', 'ayah', 'position'], { unique: false });
+      occurrencesStore.createIndex('ayahPosition', ['surah', 'ayah', 'position'], { unique: false });
+    },
+  },
+  {
+    version: 7,
+    description: 'Back-fill transliterations',
+    migrate: async (db, transaction) => {
+      // Stored in the default scheme; other schemes are generated when displayed
+      await updateAllRecords(transaction, 'vocabulary', item => (
+        item.transliteration ? undefined : { ...item, transliteration: transliterate(item.word) }
+      ));
+    },
+  },
+  {
+    version: 8,
+    description: 'Add the English gloss search index',
+    migrate: async (db, transaction) => {
+      const searchStore = db.createObjectStore('searchIndex', { keyPath: ['term', 'wordId'] });
+      searchStore.createIndex('wordId', 'wordId', { unique: false });
+
+      let cursor = await transaction.objectStore('vocabulary').openCursor();
+      while (cursor) {
+        await indexVocabularyItem(transaction.objectStore('searchIndex'), cursor.value);
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 9,
+    description: 'Separate learner-created entries from corpus data',
+    migrate: async (db, transaction) => {
+      // Every entry so far came from the dataset import
+      await updateAllRecords(transaction, 'vocabulary', item => (
+        item.source ? undefined : { ...item, source: 'corpus' }
+      ));
+      transaction.objectStore('vocabulary').createIndex('source', 'source', { unique: false });
+    },
+  },
+  {
+    version: 10,
+    description: 'Add snapshots store',
+    migrate: (db) => {
+      // Copies of progress, settings and custom vocabulary taken before risky operations
+      const snapshotsStore = db.createObjectStore('snapshots', { keyPath: 'id', autoIncrement: true });
+      snapshotsStore.createIndex('reasonCreatedAt', ['reason', 'createdAt'], { unique: false });
+    },
+  },
+  {
+    version: 11,
+    description: 'Store SM-2 interval, repetitions and lapses',
+    migrate: async (db, transaction) => {
+      const historyIndex = transaction.objectStore('reviewLog').index('wordTimestamp');
+      let cursor = await transaction.objectStore('progress').openCursor();
+
+      while (cursor) {
+        const progress = cursor.value;
+        const history = await historyIndex.getAll(
+          IDBKeyRange.bound([progress.wordId, new Date(0)], [progress.wordId, new Date(8.64e15)])
+        );
+
+        // Words reviewed since the log was added get exact counts; older ones are estimated
+        let update = withSchedulingState(progress);
+        if (history.length > 0) {
+          const lastFailure = history.map(entry => entry.grade >= 3).lastIndexOf(false);
+          update = {
+            ...update,
+            repetitions: history.length - 1 - lastFailure,
+            lapses: history.filter(entry => entry.grade < 3 && entry.previousInterval >= 1).length,
+          };
+        }
+
+        await cursor.update(update);
+        cursor = await cursor.continue();
+      }
+    },
+  },
+  {
+    version: 12,
+    description: 'Track learning state for minute-scale learning steps',
+    migrate: async (db, transaction) => {
+      // Reviewed words are already on day-scale reviews; the rest haven't been answered
+      await updateAllRecords(transaction, 'progress', progress => (
+        progress.cardState ? undefined : withSchedulingState(progress)
+      ));
+    },
+  },
+  {
+    version: 13,
+    description: 'Index vocabulary by frequency',
+    migrate: (db, transaction) => {
+      // New words are introduced most frequent first
+      transaction.objectStore('vocabulary').createIndex('frequency', 'frequency', { unique: false });
+    },
+  },
+  {
+    version: 14,
+    description: 'Re-normalize vocabulary for dagger alef and hamza seats',
+    migrate: async (db, transaction) => {
+      // Corpus lemmas are rebuilt by the DATASET_VERSION 4 import; learner-created
+      // entries only ever have the light stem, so theirs is worked out again here
+      let cursor = await transaction.objectStore('vocabulary').openCursor();
+      while (cursor) {
+        const item = cursor.value;
+        const normalized = normalizeArabic(item.word);
+        const updated = { ...item, normalized, lemma: item.source === 'custom' ? stemArabic(normalized) : item.lemma };
+        await cursor.update(updated);
+        // Arabic words in glosses are indexed normalized too
+        if (item.source === 'custom') await indexVocabularyItem(transaction.objectStore('searchIndex'), updated);
+        cursor = await cursor.continue();
+      }
+
+      // Spellings that only differed by hamza seat or madda are now one lexeme
+      await mergeDuplicateEntries(transaction);
+    },
+  },
+];
+
+// Latest schema version
+export const DB_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Run every migration between two versions, in order
+ * @param db The database being upgraded
+ * @param transaction The versionchange transaction
+ * @param oldVersion Version the database was at (0 for a fresh install)
+ * @param newVersion Version being opened
+ */
+export const runMigrations = async (
+  db: UpgradeDatabase,
+  transaction: UpgradeTransaction,
+  oldVersion: number,
+  newVersion: number = DB_VERSION
+): Promise<void> => {
+  // Keep the learner's data as it was before the upgrade, in case a migration mangles it
+  const snapshotData = oldVersion > 0 ? await readSnapshotData(transaction) : null;
+
+  for (const migration of migrations) {
+    if (migration.version <= oldVersion || migration.version > newVersion) continue;
+
+    console.log(`Migrating database to version ${migration.version}: ${migration.description}`);
+    await migration.migrate(db, transaction);
+  }
+
+  // Stored once the snapshots store exists; part of the same transaction, so a failed upgrade keeps nothing
+  if (snapshotData && db.objectStoreNames.contains('snapshots')) {
+    await writeSnapshot(transaction.objectStore('snapshots'), {
+      ...snapshotData,
+      createdAt: new Date(),
+      reason: 'migration',
+      schemaVersion: oldVersion,
+    });
+  }
+};
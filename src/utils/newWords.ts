@@ -0,0 +1,153 @@
+// Daily introduction of new words for the Arabic Learning Extension
+// Words the learner has never answered join reviews a few a day. Words they saved
+// themselves come first, then unseen dictionary words in the order they picked.
+import { VocabularyItem } from './database';
+import { getRepositories } from './repositories';
+import { getReviewLogByDateRange } from './reviewLog';
+
+export type NewWordOrder = 'frequency' | 'difficulty' | 'tag' | 'random';
+
+export const NEW_WORD_ORDER_LABELS: Record<NewWordOrder, string> = {
+  frequency: 'Most frequent first',
+  difficulty: 'Easiest first',
+  tag: 'From one tag',
+  random: 'Random',
+};
+
+export const DEFAULT_NEW_WORDS_PER_DAY = 10;
+export const DEFAULT_NEW_WORD_ORDER: NewWordOrder = 'frequency';
+
+const DEFAULT_DAILY_GOAL = 10;
+const DIFFICULTY_ORDER: VocabularyItem['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+const PAGE_SIZE = 50;
+
+export interface NewWordAllowance {
+  newWordsPerDay: number;
+  dailyGoal: number;
+  introducedToday: number; // Words answered for the first time today
+  reviewedToday: number; // Distinct words answered today, new ones included
+  dueCount: number; // Reviews waiting now
+  remaining: number; // New words that may still be introduced today
+}
+
+/**
+ * Start of the current day, in UTC like the review log's day keys
+ * @param now The current time
+ * @returns Midnight UTC
+ */
+const startOfDay = (now: Date): Date => {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+};
+
+/**
+ * Count today's reviews and decide how many new words fit. New words stop once
+ * today's limit is used up, and also once reviews already fill the daily goal, so
+ * a backlog of due reviews is worked off before more words pile on.
+ * @param now The current time
+ * @returns Promise with the allowance
+ */
+export const getNewWordAllowance = async (now: Date = new Date()): Promise<NewWordAllowance> => {
+  const { settings, progress, reviewLog } = getRepositories();
+  const newWordsPerDay = await settings.get<number>('newWordsPerDay') ?? DEFAULT_NEW_WORDS_PER_DAY;
+  const dailyGoal = await settings.get<number>('dailyGoal') ?? DEFAULT_DAILY_GOAL;
+
+  const start = startOfDay(now);
+  const reviewedIds = new Set((await getReviewLogByDateRange(start, now)).map(entry => entry.wordId));
+  let introducedToday = 0;
+  for (const wordId of reviewedIds) {
+    const [first] = await reviewLog.getForWord(wordId);
+    if (first && first.timestamp >= start) introducedToday++;
+  }
+
+  const dueCount = (await progress.getDue(now)).filter(entry => entry.cardState !== 'new' && !entry.suspended).length;
+  const remaining = Math.max(0, Math.min(
+    newWordsPerDay - introducedToday,
+    dailyGoal - reviewedIds.size - dueCount
+  ));
+
+  return { newWordsPerDay, dailyGoal, introducedToday, reviewedToday: reviewedIds.size, dueCount, remaining };
+};
+
+/**
+ * Shuffle in place
+ * @param values The array to shuffle
+ * @returns The same array
+ */
+const shuffle = <T>(values: T[]): T[] => {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  return values;
+};
+
+/**
+ * Find never-answered words in the learner's chosen order
+ * @param limit Maximum number of words
+ * @param exclude Words to skip (already in the session or already answered)
+ * @returns Promise with the words
+ */
+const findUnseenWords = async (limit: number, exclude: Set<number>): Promise<VocabularyItem[]> => {
+  const { settings, vocabulary } = getRepositories();
+  const order = await settings.get<NewWordOrder>('newWordOrder') ?? DEFAULT_NEW_WORD_ORDER;
+  const words: VocabularyItem[] = [];
+  const collect = (items: VocabularyItem[]) => {
+    for (const item of items) {
+      if (words.length >= limit) break;
+      if (item.id !== undefined && !exclude.has(item.id)) words.push(item);
+    }
+  };
+
+  if (order === 'frequency') {
+    for (let offset = 0; words.length < limit; offset += PAGE_SIZE) {
+      const page = await vocabulary.getByFrequency(offset, PAGE_SIZE);
+      collect(page);
+      if (page.length < PAGE_SIZE) break;
+    }
+  } else if (order === 'difficulty') {
+    for (const difficulty of DIFFICULTY_ORDER) {
+      if (words.length >= limit) break;
+      collect(await vocabulary.getByDifficulty(difficulty));
+    }
+  } else if (order === 'tag') {
+    const tag = await settings.get<string>('newWordTag');
+    if (tag) collect(await vocabulary.getByTag(tag));
+  } else {
+    const ids = shuffle((await vocabulary.getAllIds()).filter(id => !exclude.has(id)));
+    collect(await vocabulary.getMany(ids.slice(0, limit)));
+  }
+
+  return words;
+};
+
+/**
+ * Get today's new words: saved words first, then unseen ones, up to the allowance
+ * @param now The current time
+ * @returns Promise with the words to introduce
+ */
+export const getNewWords = async (now: Date = new Date()): Promise<VocabularyItem[]> => {
+  try {
+    const { progress, vocabulary } = getRepositories();
+    const { remaining } = await getNewWordAllowance(now);
+    if (remaining === 0) return [];
+
+    // Saved words wait as progress rows that were never answered, oldest first
+    const allProgress = await progress.getAll();
+    const saved = allProgress
+      .filter(entry => entry.cardState === 'new' && !entry.suspended)
+      .sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime())
+      .slice(0, remaining);
+    const words = await vocabulary.getMany(saved.map(entry => entry.wordId));
+
+    if (words.length < remaining) {
+      const seen = new Set(allProgress.map(entry => entry.wordId));
+      words.push(...await findUnseenWords(remaining - words.length, seen));
+    }
+    return words;
+  } catch (error) {
+    console.error('Error getting new words:', error);
+    return [];
+  }
+};
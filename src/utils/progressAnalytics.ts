@@ -1,5 +1,6 @@
 // User progress analytics for the Arabic Learning Extension
-import { getSetting, updateSetting } from './database';
+import { getRepositories } from './repositories';
+import { getReviewLogByDateRange, isCorrectAnswer, toDayKey } from './reviewLog';
 
 // Define interfaces
 interface LearningStats {
@@ -20,37 +21,37 @@ interface DailyProgress {
 }
 
 /**
- * Get user's learning statistics
+ * Get user's learning statistics, worked out from the review log and word progress
  * @returns Promise with learning statistics
  */
 export const getLearningStats = async (): Promise<LearningStats> => {
   try {
-    // In a real implementation, this would query the database for actual statistics
-    // For the MVP, we'll use stored settings or default values
-    const totalWords = 1000; // Total words in the database
-    const learnedWords = await getSetting('learnedWordsCount') || 0;
-    const reviewsToday = await getSetting('reviewsToday') || 0;
-    const reviewsTotal = await getSetting('reviewsTotal') || 0;
-    const correctAnswers = await getSetting('correctAnswers') || 0;
-    const incorrectAnswers = await getSetting('incorrectAnswers') || 0;
-    const streak = await getSetting('streak') || 0;
-    const lastReviewDateStr = await getSetting('lastReviewDate');
-    const lastReviewDate = lastReviewDateStr ? new Date(lastReviewDateStr) : null;
-    
+    const { vocabulary, progress, reviewLog } = getRepositories();
+
+    const totalWords = await vocabulary.count();
+    // Words that have graduated from their learning steps, including ones relearning after a lapse
+    const learnedWords = (await progress.getAll())
+      .filter(entry => entry.cardState === 'review' || entry.cardState === 'relearning').length;
+
+    const history = await getReviewLogByDateRange(new Date(0));
+    const today = toDayKey(new Date());
+    const correctAnswers = history.filter(isCorrectAnswer).length;
+    const [lastReview] = await reviewLog.getRecent(1);
+
     return {
       totalWords,
       learnedWords,
-      reviewsToday,
-      reviewsTotal,
+      reviewsToday: history.filter(entry => toDayKey(entry.timestamp) === today).length,
+      reviewsTotal: history.length,
       correctAnswers,
-      incorrectAnswers,
-      streak,
-      lastReviewDate
+      incorrectAnswers: history.length - correctAnswers,
+      streak: await getStreakFromHistory(),
+      lastReviewDate: lastReview ? lastReview.timestamp : null
     };
   } catch (error) {
     console.error('Error getting learning stats:', error);
     return {
-      totalWords: 1000,
+      totalWords: 0,
       learnedWords: 0,
       reviewsToday: 0,
       reviewsTotal: 0,
@@ -63,154 +64,83 @@ export const getLearningStats = async (): Promise<LearningStats> => {
 };
 
 /**
- * Update learning statistics after a review
- * @param correct Whether the answer was correct
- * @returns Promise with updated statistics
+ * Get daily progress history from the review log
+ * @param days Number of days to retrieve (default: 7)
+ * @returns Promise with daily progress history, most recent first
  */
-export const updateLearningStats = async (correct: boolean): Promise<LearningStats> => {
+export const getDailyProgress = async (days = 7): Promise<DailyProgress[]> => {
   try {
-    // Get current stats
-    const stats = await getLearningStats();
-    
-    // Update stats
-    const now = new Date();
-    const today = now.toISOString().split('T')[0]; // YYYY-MM-DD
-    
-    // Check if this is the first review today
-    const isNewDay = !stats.lastReviewDate || 
-      stats.lastReviewDate.toISOString().split('T')[0] !== today;
-    
-    // Reset daily count if it's a new day
-    const reviewsToday = isNewDay ? 1 : stats.reviewsToday + 1;
-    
-    // Update streak
-    let streak = stats.streak;
-    if (isNewDay) {
-      const yesterday = new Date(now);
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-      
-      // Check if last review was yesterday to maintain streak
-      if (stats.lastReviewDate && 
-          stats.lastReviewDate.toISOString().split('T')[0] === yesterdayStr) {
-        streak += 1; // Increment streak
-      } else if (!stats.lastReviewDate || 
-                stats.lastReviewDate.toISOString().split('T')[0] !== today) {
-        streak = 1; // Reset streak
+    // Start of the oldest day in the window (UTC, matching the day keys)
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+    
+    const entries = await getReviewLogByDateRange(start);
+    
+    // Group answers by day
+    const byDay: Record<string, DailyProgress> = {};
+    for (const entry of entries) {
+      const date = toDayKey(entry.timestamp);
+      const day = byDay[date] || (byDay[date] = { date, reviewCount: 0, correctCount: 0 });
+      day.reviewCount += 1;
+      if (isCorrectAnswer(entry)) {
+        day.correctCount += 1;
       }
     }
     
-    // Update correct/incorrect counts
-    const correctAnswers = correct ? stats.correctAnswers + 1 : stats.correctAnswers;
-    const incorrectAnswers = correct ? stats.incorrectAnswers : stats.incorrectAnswers + 1;
-    
-    // Calculate learned words (simplified for MVP)
-    // In a real implementation, this would be based on mastery level
-    const learnedWords = Math.min(stats.totalWords, Math.floor(correctAnswers / 3));
-    
-    // Update settings
-    await updateSetting('learnedWordsCount', learnedWords);
-    await updateSetting('reviewsToday', reviewsToday);
-    await updateSetting('reviewsTotal', stats.reviewsTotal + 1);
-    await updateSetting('correctAnswers', correctAnswers);
-    await updateSetting('incorrectAnswers', incorrectAnswers);
-    await updateSetting('streak', streak);
-    await updateSetting('lastReviewDate', now.toISOString());
-    
-    // Update daily progress history
-    await updateDailyProgress(today, correct);
-    
-    // Return updated stats
-    return {
-      totalWords: stats.totalWords,
-      learnedWords,
-      reviewsToday,
-      reviewsTotal: stats.reviewsTotal + 1,
-      correctAnswers,
-      incorrectAnswers,
-      streak,
-      lastReviewDate: now
-    };
+    return Object.values(byDay).sort((a, b) => b.date.localeCompare(a.date));
   } catch (error) {
-    console.error('Error updating learning stats:', error);
-    throw error;
+    console.error('Error getting daily progress:', error);
+    return [];
   }
 };
 
 /**
- * Update daily progress history
- * @param date Date string in YYYY-MM-DD format
- * @param correct Whether the answer was correct
+ * Calculate accuracy percentage from the review log
+ * @param days Number of days to include (default: all history)
+ * @returns Promise with accuracy percentage
  */
-const updateDailyProgress = async (date: string, correct: boolean): Promise<void> => {
+export const getAccuracyPercentage = async (days?: number): Promise<number> => {
   try {
-    // Get current progress history
-    const progressHistory: DailyProgress[] = await getSetting('progressHistory') || [];
-    
-    // Find entry for today
-    const todayEntry = progressHistory.find(entry => entry.date === date);
+    const start = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : new Date(0);
+    const entries = await getReviewLogByDateRange(start);
     
-    if (todayEntry) {
-      // Update existing entry
-      todayEntry.reviewCount += 1;
-      if (correct) {
-        todayEntry.correctCount += 1;
-      }
-    } else {
-      // Create new entry
-      progressHistory.push({
-        date,
-        reviewCount: 1,
-        correctCount: correct ? 1 : 0
-      });
-    }
-    
-    // Keep only the last 30 days
-    const recentHistory = progressHistory
-      .sort((a, b) => b.date.localeCompare(a.date)) // Sort by date descending
-      .slice(0, 30);
-    
-    // Save updated history
-    await updateSetting('progressHistory', recentHistory);
-  } catch (error) {
-    console.error('Error updating daily progress:', error);
-  }
-};
-
-/**
- * Get daily progress history
- * @param days Number of days to retrieve (default: 7)
- * @returns Promise with daily progress history
- */
-export const getDailyProgress = async (days = 7): Promise<DailyProgress[]> => {
-  try {
-    // Get progress history
-    const progressHistory: DailyProgress[] = await getSetting('progressHistory') || [];
+    if (entries.length === 0) return 0;
     
-    // Sort by date and take the most recent entries
-    return progressHistory
-      .sort((a, b) => b.date.localeCompare(a.date))
-      .slice(0, days);
+    const correct = entries.filter(isCorrectAnswer).length;
+    return Math.round((correct / entries.length) * 100);
   } catch (error) {
-    console.error('Error getting daily progress:', error);
-    return [];
+    console.error('Error calculating accuracy percentage:', error);
+    return 0;
   }
 };
 
 /**
- * Calculate accuracy percentage
- * @returns Promise with accuracy percentage
+ * Calculate the current streak from the review log
+ * @param maxDays How far back to look (default: one year)
+ * @returns Promise with the number of consecutive days with at least one review
  */
-export const getAccuracyPercentage = async (): Promise<number> => {
+export const getStreakFromHistory = async (maxDays = 365): Promise<number> => {
   try {
-    const stats = await getLearningStats();
-    const total = stats.correctAnswers + stats.incorrectAnswers;
+    const start = new Date(Date.now() - maxDays * 24 * 60 * 60 * 1000);
+    const entries = await getReviewLogByDateRange(start);
+    const reviewDays = new Set(entries.map(entry => toDayKey(entry.timestamp)));
+    
+    // A streak is still alive if the learner hasn't reviewed yet today
+    const day = new Date();
+    if (!reviewDays.has(toDayKey(day))) {
+      day.setUTCDate(day.getUTCDate() - 1);
+    }
     
-    if (total === 0) return 0;
+    let streak = 0;
+    while (reviewDays.has(toDayKey(day))) {
+      streak++;
+      day.setUTCDate(day.getUTCDate() - 1);
+    }
     
-    return Math.round((stats.correctAnswers / total) * 100);
+    return streak;
   } catch (error) {
-    console.error('Error calculating accuracy percentage:', error);
+    console.error('Error calculating streak from history:', error);
     return 0;
   }
 };
@@ -220,7 +150,9 @@ export const getAccuracyPercentage = async (): Promise<number> => {
  */
 export const resetDailyProgress = async (): Promise<void> => {
   try {
-    await updateSetting('reviewsToday', 0);
+    const settingsRepository = getRepositories().settings;
+    
+    await settingsRepository.set('reviewsToday', 0);
   } catch (error) {
     console.error('Error resetting daily progress:', error);
   }
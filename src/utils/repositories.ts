@@ -0,0 +1,339 @@
+// Storage repositories for the Arabic Learning Extension
+// The scheduler, analytics and settings logic read and write through these
+// interfaces, so they can run against IndexedDB in the extension or against
+// plain in-memory maps in tests.
+import { IDBPDatabase } from 'idb';
+import { initDB, ArabicLearningDB, VocabularyItem, UserProgress, ReviewLogEntry } from './database';
+
+export interface VocabularyRepository {
+  get(id: number): Promise<VocabularyItem | undefined>;
+  getMany(ids: number[]): Promise<VocabularyItem[]>; // Missing ids are skipped
+  getByDifficulty(difficulty: VocabularyItem['difficulty'], limit?: number): Promise<VocabularyItem[]>;
+  getByTag(tag: string, limit?: number): Promise<VocabularyItem[]>;
+  getByFrequency(offset: number, limit: number): Promise<VocabularyItem[]>; // Most frequent first; entries without a frequency are left out
+  getAllIds(): Promise<number[]>;
+  count(): Promise<number>;
+  put(item: VocabularyItem): Promise<number>;
+}
+
+export interface ProgressRepository {
+  get(wordId: number): Promise<UserProgress | undefined>;
+  getAll(): Promise<UserProgress[]>;
+  getDue(before: Date, limit?: number): Promise<UserProgress[]>; // Earliest due first, inclusive
+  getDueBetween(from: Date, to: Date): Promise<UserProgress[]>; // Earliest due first, both ends inclusive
+  put(progress: UserProgress): Promise<void>;
+  delete(wordId: number): Promise<void>;
+  // Save a word's new schedule, its review log entry and a tag the answer adds to the word atomically
+  saveReview(progress: UserProgress, entry: ReviewLogEntry, addedTag?: string): Promise<number>;
+  // Undo saveReview: put back the word's earlier schedule (or none), drop the log entry and
+  // remove the tag the answer added, atomically. Leaves everything alone and returns false
+  // if the word has been answered again since.
+  revertReview(wordId: number, previous: UserProgress | undefined, entryId: number, addedTag?: string): Promise<boolean>;
+}
+
+export interface SettingsRepository {
+  get<T = any>(id: string): Promise<T | null>;
+  set(id: string, value: any): Promise<void>;
+}
+
+export interface ReviewLogRepository {
+  add(entry: ReviewLogEntry): Promise<number>;
+  getByDateRange(start: Date, end: Date, limit?: number): Promise<ReviewLogEntry[]>; // Oldest first, inclusive
+  getForWord(wordId: number): Promise<ReviewLogEntry[]>; // Oldest first
+  getRecent(limit: number): Promise<ReviewLogEntry[]>; // Newest first
+}
+
+export interface Repositories {
+  vocabulary: VocabularyRepository;
+  progress: ProgressRepository;
+  settings: SettingsRepository;
+  reviewLog: ReviewLogRepository;
+}
+
+/**
+ * Whether a word's stored progress is still the one written with a review log entry
+ * @param current The word's progress now
+ * @param entry The answer's log entry
+ * @returns False if the word has been answered again since, or either is missing
+ */
+const isWrittenWith = (current: UserProgress | undefined, entry: ReviewLogEntry | undefined): boolean =>
+  !!current && !!entry && current.lastReviewed.getTime() === entry.timestamp.getTime();
+
+/**
+ * Add a tag to a vocabulary entry
+ * @param item The entry
+ * @param tag The tag to add
+ * @returns The entry with the tag
+ */
+const withTag = (item: VocabularyItem, tag: string): VocabularyItem => (
+  item.tags.includes(tag) ? item : { ...item, tags: [...item.tags, tag] }
+);
+
+/**
+ * Take a tag off a vocabulary entry, leaving the rest of it as it is now
+ * @param item The entry
+ * @param tag The tag to remove
+ * @returns The entry without the tag
+ */
+const withoutTag = (item: VocabularyItem, tag: string): VocabularyItem => ({
+  ...item,
+  tags: item.tags.filter(existing => existing !== tag),
+});
+
+/**
+ * Create repositories backed by IndexedDB
+ * @param getDB Returns the connection to use (defaults to the shared cached one)
+ * @returns The repositories
+ */
+export const createIndexedDBRepositories = (
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Repositories => ({
+  vocabulary: {
+    get: async id => (await getDB()).get('vocabulary', id),
+    getMany: async ids => {
+      const transaction = (await getDB()).transaction('vocabulary');
+      const items = await Promise.all(ids.map(id => transaction.store.get(id)));
+      await transaction.done;
+      return items.filter(Boolean);
+    },
+    getByDifficulty: async (difficulty, limit) => (await getDB()).getAllFromIndex('vocabulary', 'difficulty', difficulty, limit),
+    getByTag: async (tag, limit) => (await getDB()).getAllFromIndex('vocabulary', 'tags', tag, limit),
+    getByFrequency: async (offset, limit) => {
+      const items: VocabularyItem[] = [];
+      let cursor = await (await getDB()).transaction('vocabulary').store.index('frequency').openCursor(null, 'prev');
+      if (cursor && offset > 0) cursor = await cursor.advance(offset);
+      while (cursor && items.length < limit) {
+        items.push(cursor.value);
+        cursor = await cursor.continue();
+      }
+      return items;
+    },
+    getAllIds: async () => (await getDB()).getAllKeys('vocabulary') as Promise<number[]>,
+    count: async () => (await getDB()).count('vocabulary'),
+    put: async item => (await getDB()).put('vocabulary', item) as Promise<number>,
+  },
+  progress: {
+    get: async wordId => (await getDB()).get('progress', wordId),
+    getAll: async () => (await getDB()).getAll('progress'),
+    getDue: async (before, limit) => (await getDB()).getAllFromIndex('progress', 'nextReview', IDBKeyRange.upperBound(before), limit),
+    getDueBetween: async (from, to) => (await getDB()).getAllFromIndex('progress', 'nextReview', IDBKeyRange.bound(from, to)),
+    put: async progress => {
+      await (await getDB()).put('progress', progress);
+    },
+    delete: async wordId => (await getDB()).delete('progress', wordId),
+    saveReview: async (progress, entry, addedTag) => {
+      const transaction = (await getDB()).transaction(['progress', 'reviewLog', 'vocabulary'], 'readwrite');
+      await transaction.objectStore('progress').put(progress);
+      const id = await transaction.objectStore('reviewLog').add(entry) as number;
+      const item = addedTag ? await transaction.objectStore('vocabulary').get(progress.wordId) : undefined;
+      if (item && addedTag) {
+        await transaction.objectStore('vocabulary').put(withTag(item, addedTag));
+      }
+      await transaction.done;
+      return id;
+    },
+    revertReview: async (wordId, previous, entryId, addedTag) => {
+      const transaction = (await getDB()).transaction(['progress', 'reviewLog', 'vocabulary'], 'readwrite');
+      const current = await transaction.objectStore('progress').get(wordId);
+      if (!isWrittenWith(current, await transaction.objectStore('reviewLog').get(entryId))) {
+        await transaction.done;
+        return false;
+      }
+
+      if (previous) {
+        await transaction.objectStore('progress').put(previous);
+      } else {
+        await transaction.objectStore('progress').delete(wordId);
+      }
+      await transaction.objectStore('reviewLog').delete(entryId);
+      const item = addedTag ? await transaction.objectStore('vocabulary').get(wordId) : undefined;
+      if (item && addedTag) {
+        await transaction.objectStore('vocabulary').put(withoutTag(item, addedTag));
+      }
+      await transaction.done;
+      return true;
+    },
+  },
+  settings: {
+    get: async id => {
+      const setting = await (await getDB()).get('settings', id);
+      return setting ? setting.value : null;
+    },
+    set: async (id, value) => {
+      await (await getDB()).put('settings', { id, value });
+    },
+  },
+  reviewLog: {
+    add: async entry => (await getDB()).add('reviewLog', entry) as Promise<number>,
+    getByDateRange: async (start, end, limit) => (await getDB()).getAllFromIndex('reviewLog', 'timestamp', IDBKeyRange.bound(start, end), limit),
+    getForWord: async wordId => (await getDB()).getAllFromIndex(
+      'reviewLog',
+      'wordTimestamp',
+      IDBKeyRange.bound([wordId, new Date(0)], [wordId, new Date(8.64e15)])
+    ),
+    getRecent: async limit => {
+      const entries: ReviewLogEntry[] = [];
+      let cursor = await (await getDB()).transaction('reviewLog').store.index('timestamp').openCursor(null, 'prev');
+      while (cursor && entries.length < limit) {
+        entries.push(cursor.value);
+        cursor = await cursor.continue();
+      }
+      return entries;
+    },
+  },
+});
+
+export interface InMemorySeed {
+  vocabulary?: VocabularyItem[];
+  progress?: UserProgress[];
+  settings?: Record<string, any>;
+  reviewLog?: ReviewLogEntry[];
+}
+
+/**
+ * Create repositories that keep everything in memory, with the same ordering,
+ * range and copy semantics as the IndexedDB ones
+ * @param seed Initial records
+ * @returns The repositories
+ */
+export const createInMemoryRepositories = (seed: InMemorySeed = {}): Repositories => {
+  // Stored values are copies, like IndexedDB's structured clones
+  const clone = <T>(value: T): T => structuredClone(value);
+  const take = <T>(values: T[], limit?: number) => clone(limit === undefined ? values : values.slice(0, limit));
+  const byKey = <T>(map: Map<number, T>) => Array.from(map.entries()).sort(([a], [b]) => a - b).map(([, value]) => value);
+
+  const vocabulary = new Map<number, VocabularyItem>();
+  const progress = new Map<number, UserProgress>();
+  const settings = new Map<string, any>();
+  const reviewLog = new Map<number, ReviewLogEntry>();
+  let nextVocabularyId = 1;
+  let nextReviewLogId = 1;
+
+  const putVocabulary = (item: VocabularyItem): number => {
+    const id = item.id ?? nextVocabularyId;
+    nextVocabularyId = Math.max(nextVocabularyId, id + 1);
+    vocabulary.set(id, clone({ ...item, id }));
+    return id;
+  };
+  const addReviewLog = (entry: ReviewLogEntry): number => {
+    const id = entry.id ?? nextReviewLogId;
+    if (reviewLog.has(id)) throw new Error(`Review log entry ${id} already exists`);
+    nextReviewLogId = Math.max(nextReviewLogId, id + 1);
+    reviewLog.set(id, clone({ ...entry, id }));
+    return id;
+  };
+  // Review log in timestamp order, ties broken by id like the timestamp index
+  const reviewLogByTime = () => byKey(reviewLog).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  (seed.vocabulary || []).forEach(putVocabulary);
+  (seed.progress || []).forEach(entry => progress.set(entry.wordId, clone(entry)));
+  Object.entries(seed.settings || {}).forEach(([id, value]) => settings.set(id, clone(value)));
+  (seed.reviewLog || []).forEach(addReviewLog);
+
+  return {
+    vocabulary: {
+      get: async id => clone(vocabulary.get(id)),
+      getMany: async ids => clone(ids.map(id => vocabulary.get(id)).filter((item): item is VocabularyItem => !!item)),
+      getByDifficulty: async (difficulty, limit) => take(byKey(vocabulary).filter(item => item.difficulty === difficulty), limit),
+      getByTag: async (tag, limit) => take(byKey(vocabulary).filter(item => item.tags.includes(tag)), limit),
+      // Ties in reverse key order, like a 'prev' cursor on the frequency index
+      getByFrequency: async (offset, limit) => take(
+        byKey(vocabulary).reverse().filter(item => typeof item.frequency === 'number')
+          .sort((a, b) => b.frequency! - a.frequency!).slice(offset),
+        limit
+      ),
+      getAllIds: async () => Array.from(vocabulary.keys()).sort((a, b) => a - b),
+      count: async () => vocabulary.size,
+      put: async item => putVocabulary(item),
+    },
+    progress: {
+      get: async wordId => clone(progress.get(wordId)),
+      getAll: async () => take(byKey(progress)),
+      getDue: async (before, limit) => take(
+        byKey(progress)
+          .filter(entry => entry.nextReview.getTime() <= before.getTime())
+          .sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime()),
+        limit
+      ),
+      getDueBetween: async (from, to) => take(
+        byKey(progress)
+          .filter(entry => entry.nextReview.getTime() >= from.getTime() && entry.nextReview.getTime() <= to.getTime())
+          .sort((a, b) => a.nextReview.getTime() - b.nextReview.getTime())
+      ),
+      put: async entry => {
+        progress.set(entry.wordId, clone(entry));
+      },
+      delete: async wordId => {
+        progress.delete(wordId);
+      },
+      saveReview: async (entry, logEntry, addedTag) => {
+        const id = addReviewLog(logEntry);
+        progress.set(entry.wordId, clone(entry));
+        const item = vocabulary.get(entry.wordId);
+        if (item && addedTag) {
+          vocabulary.set(entry.wordId, withTag(item, addedTag));
+        }
+        return id;
+      },
+      revertReview: async (wordId, previous, entryId, addedTag) => {
+        if (!isWrittenWith(progress.get(wordId), reviewLog.get(entryId))) return false;
+
+        if (previous) {
+          progress.set(wordId, clone(previous));
+        } else {
+          progress.delete(wordId);
+        }
+        reviewLog.delete(entryId);
+        const item = vocabulary.get(wordId);
+        if (item && addedTag) {
+          vocabulary.set(wordId, withoutTag(item, addedTag));
+        }
+        return true;
+      },
+    },
+    settings: {
+      get: async id => (settings.has(id) ? clone(settings.get(id)) : null),
+      set: async (id, value) => {
+        settings.set(id, clone(value));
+      },
+    },
+    reviewLog: {
+      add: async entry => addReviewLog(entry),
+      getByDateRange: async (start, end, limit) => take(
+        reviewLogByTime().filter(entry => entry.timestamp >= start && entry.timestamp <= end),
+        limit
+      ),
+      getForWord: async wordId => take(reviewLogByTime().filter(entry => entry.wordId === wordId)),
+      getRecent: async limit => take(reviewLogByTime().reverse(), limit),
+    },
+  };
+};
+
+// Repositories used by the app; IndexedDB unless a test injects others
+let activeRepositories: Repositories | null = null;
+
+/**
+ * Get the active repositories
+ * @returns The injected repositories, or the IndexedDB ones
+ */
+export const getRepositories = (): Repositories => {
+  if (!activeRepositories) {
+    activeRepositories = createIndexedDBRepositories();
+  }
+  return activeRepositories;
+};
+
+/**
+ * Replace the active repositories (for tests)
+ * @param repositories The repositories to use
+ */
+export const setRepositories = (repositories: Repositories): void => {
+  activeRepositories = repositories;
+};
+
+/**
+ * Go back to the default IndexedDB repositories
+ */
+export const resetRepositories = (): void => {
+  activeRepositories = null;
+};
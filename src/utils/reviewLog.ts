@@ -0,0 +1,59 @@
+// Review history for the Arabic Learning Extension
+import { ReviewLogEntry } from './database';
+import { getRepositories } from './repositories';
+
+/**
+ * Record a review answer in the log
+ * @param entry The answer to record
+ * @returns Promise with the id of the new log entry
+ */
+export const addReviewLogEntry = async (entry: ReviewLogEntry): Promise<number> => {
+  return getRepositories().reviewLog.add(entry);
+};
+
+/**
+ * Get review log entries within a date range, oldest first
+ * @param start Start of the range (inclusive)
+ * @param end End of the range (inclusive, defaults to now)
+ * @param limit Maximum number of entries to return
+ * @returns Promise with the matching entries
+ */
+export const getReviewLogByDateRange = async (
+  start: Date,
+  end: Date = new Date(),
+  limit?: number
+): Promise<ReviewLogEntry[]> => {
+  return getRepositories().reviewLog.getByDateRange(start, end, limit);
+};
+
+/**
+ * Get the full answer history for a word, oldest first
+ * @param wordId The ID of the vocabulary item
+ * @returns Promise with the word's log entries
+ */
+export const getReviewLogForWord = async (wordId: number): Promise<ReviewLogEntry[]> => {
+  return getRepositories().reviewLog.getForWord(wordId);
+};
+
+/**
+ * Get the most recent review log entries, newest first
+ * @param limit Maximum number of entries to return
+ * @returns Promise with the latest entries
+ */
+export const getRecentReviewLog = async (limit = 50): Promise<ReviewLogEntry[]> => {
+  return getRepositories().reviewLog.getRecent(limit);
+};
+
+/**
+ * Whether a log entry counts as a correct answer
+ * @param entry The log entry
+ * @returns True if the word was recalled
+ */
+export const isCorrectAnswer = (entry: ReviewLogEntry): boolean => entry.grade >= 3;
+
+/**
+ * Get the day key (YYYY-MM-DD) for a log entry
+ * @param date The date to convert
+ * @returns Day key
+ */
+export const toDayKey = (date: Date): string => date.toISOString().split('T')[0];
@@ -0,0 +1,447 @@
+// Review sessions for the Arabic Learning Extension
+// One engine for every place words are reviewed: the popup, the in-page flashcard and the
+// Flashcard component all drive a session held by the background, so an answer given
+// anywhere goes through the same scheduling and lands in the same review log.
+import { CardType, ReviewSource } from './database';
+import { toDate } from './migrations';
+import { getRepositories } from './repositories';
+import { getDueReviews, processReviewResponse, undoReview, ReviewUndo } from './spacedRepetition';
+import { getNewWords } from './newWords';
+import { isDueInSession, isInLearning, LEARN_AHEAD_MS } from './learningSteps';
+import { ReviewGrade, GRADE_QUALITY } from './scheduler';
+import { GlossLanguage, getGloss, loadGlossChain } from './glosses';
+import { getTransliteration, DEFAULT_TRANSLITERATION_SCHEME } from './transliteration';
+import { getDeck, getReviewedToday, getSiblingKeys, loadBurySiblings } from './siblings';
+
+export type SessionCardKind = 'learning' | 'review' | 'new';
+
+export interface SessionCard {
+  wordId: number;
+  word: string;
+  transliteration: string;
+  translation: string; // In the learner's gloss language when the word has it
+  glossLanguage: GlossLanguage;
+  cardType: CardType;
+  kind: SessionCardKind;
+}
+
+export interface SessionSummary {
+  answered: number; // Answers given, repeats of learning cards included
+  correct: number; // Answers other than "again"
+  grades: Record<ReviewGrade, number>;
+  newWords: number; // New words answered for the first time
+  skipped: number;
+  buried: number; // Siblings of words reviewed today, left for tomorrow
+  startedAt: number; // Milliseconds since the epoch
+  durationMs: number;
+}
+
+export interface ReviewSessionState {
+  id: string;
+  card: SessionCard | null; // Null once the session is over
+  remaining: number; // Cards left, the current one included
+  finished: boolean;
+  canUndo: boolean; // Whether there is an answer to take back
+  summary: SessionSummary;
+}
+
+export interface ReviewSessionOptions {
+  source?: ReviewSource; // Where answers are given, for the review log
+  limit?: number; // Most due reviews to include
+  newWordsOnly?: boolean; // Only introduce new words, for when reviews are done
+}
+
+export interface ReviewSession {
+  id: string;
+  getState(): ReviewSessionState;
+  answer(grade: ReviewGrade, responseTimeMs?: number): Promise<ReviewSessionState>;
+  next(): Promise<ReviewSessionState>; // Skip the current card
+  undo(): Promise<ReviewSessionState>; // Take back the last answer and show its card again
+  end(): Promise<ReviewSessionState>;
+}
+
+// An answer that can be taken back, with the session as it was before it
+interface UndoEntry {
+  undo: ReviewUndo;
+  queue: SessionCard[];
+  summary: SessionSummary;
+}
+
+// Everything a session needs to carry on, saved after every change
+interface SessionRecord {
+  id: string;
+  options: ReviewSessionOptions;
+  queue: SessionCard[];
+  summary: SessionSummary;
+  finished: boolean;
+  undoStack: UndoEntry[];
+  lastUsed: number;
+}
+
+const DEFAULT_REVIEW_LIMIT = 50;
+// How many answers back undo can go
+const UNDO_DEPTH = 10;
+// Sessions nobody has touched for this long are dropped
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+// Storage key prefix for saved sessions
+const SESSION_KEY_PREFIX = 'reviewSession:';
+
+/**
+ * Build the session's queue: learning cards due soon, then due reviews, then new words.
+ * In decks that bury siblings, a word sharing a root or lemma with one reviewed today,
+ * or with one earlier in the queue, is left out; learning cards are never buried.
+ * @param options Session options
+ * @param now When the session starts
+ * @returns Promise with the cards in order, and how many were buried
+ */
+const buildQueue = async (options: ReviewSessionOptions, now: Date): Promise<{ cards: SessionCard[]; buried: number }> => {
+  const { progress, vocabulary, settings } = getRepositories();
+  const entries: Array<{ wordId: number; kind: SessionCardKind; cardType: CardType }> = [];
+
+  if (!options.newWordsOnly) {
+    // Learning steps come first: they are minutes apart and go stale quickest
+    const learning = (await progress.getDue(new Date(now.getTime() + LEARN_AHEAD_MS)))
+      .filter(entry => isInLearning(entry) && !entry.suspended);
+    const learningIds = new Set(learning.map(entry => entry.wordId));
+    for (const entry of learning) {
+      entries.push({ wordId: entry.wordId, kind: 'learning', cardType: entry.cardType || 'recognition' });
+    }
+    for (const item of await getDueReviews(options.limit ?? DEFAULT_REVIEW_LIMIT)) {
+      if (!learningIds.has(item.id!)) {
+        entries.push({ wordId: item.id!, kind: 'review', cardType: item.cardType });
+      }
+    }
+  }
+  for (const item of await getNewWords(now)) {
+    entries.push({ wordId: item.id!, kind: 'new', cardType: 'recognition' });
+  }
+
+  const chain = await loadGlossChain();
+  const scheme = await settings.get('transliterationScheme') || DEFAULT_TRANSLITERATION_SCHEME;
+  const items = new Map((await vocabulary.getMany(entries.map(entry => entry.wordId))).map(item => [item.id, item]));
+
+  // Which words each root or lemma has already been seen with today
+  const burySiblings = await loadBurySiblings();
+  const seenWith = new Map<string, Set<number>>();
+  const markSeen = (key: string, wordId: number) => {
+    const wordIds = seenWith.get(key) || new Set<number>();
+    wordIds.add(wordId);
+    seenWith.set(key, wordIds);
+  };
+  for (const item of await getReviewedToday(now)) {
+    getSiblingKeys(item).forEach(key => markSeen(key, item.id!));
+  }
+
+  const cards: SessionCard[] = [];
+  let buried = 0;
+  for (const entry of entries) {
+    const item = items.get(entry.wordId);
+    if (!item) continue;
+    const keys = getSiblingKeys(item);
+    const hasSeenSibling = keys.some(key => Array.from(seenWith.get(key) || []).some(wordId => wordId !== entry.wordId));
+    if (entry.kind !== 'learning' && burySiblings[getDeck(item)] && hasSeenSibling) {
+      buried++;
+      continue;
+    }
+    keys.forEach(key => markSeen(key, entry.wordId));
+
+    const gloss = getGloss(item, chain);
+    cards.push({
+      wordId: entry.wordId,
+      word: item.word,
+      transliteration: getTransliteration(item, scheme),
+      translation: gloss.text,
+      glossLanguage: gloss.language,
+      cardType: entry.cardType,
+      kind: entry.kind,
+    });
+  }
+  return { cards, buried };
+};
+
+// Saved sessions outside the extension, where chrome.storage is missing (tests)
+const memoryStorage = new Map<string, string>();
+
+/**
+ * Whether chrome.storage.session is there to keep sessions in
+ * @returns True inside the extension's background
+ */
+const hasSessionStorage = (): boolean => typeof chrome !== 'undefined' && Boolean(chrome.storage?.session);
+
+/**
+ * Save a session. Chrome stops the background service worker after half a minute idle,
+ * taking anything held in memory with it, so sessions live in chrome.storage.session:
+ * it survives the worker and is cleared when the browser closes.
+ * @param record The session
+ */
+const saveSessionRecord = async (record: SessionRecord): Promise<void> => {
+  record.lastUsed = Date.now();
+  // Stored as JSON text; Dates in the undo records come back as strings and are revived on load
+  const value = JSON.stringify(record);
+  if (hasSessionStorage()) {
+    await chrome.storage.session.set({ [SESSION_KEY_PREFIX + record.id]: value });
+  } else {
+    memoryStorage.set(SESSION_KEY_PREFIX + record.id, value);
+  }
+};
+
+/**
+ * Turn a saved session back into a record, with Dates where the undo records had them
+ * @param value The saved JSON text
+ * @returns The session
+ */
+const parseSessionRecord = (value: string): SessionRecord => {
+  const record: SessionRecord = JSON.parse(value);
+  for (const { undo } of record.undoStack) {
+    if (undo.previous) {
+      undo.previous.lastReviewed = toDate(undo.previous.lastReviewed);
+      undo.previous.nextReview = toDate(undo.previous.nextReview);
+    }
+  }
+  return record;
+};
+
+/**
+ * Load every saved session
+ * @returns Promise with the sessions
+ */
+const loadSessionRecords = async (): Promise<SessionRecord[]> => {
+  const entries: Array<[string, unknown]> = hasSessionStorage()
+    ? Object.entries(await chrome.storage.session.get(null))
+    : Array.from(memoryStorage.entries());
+  return entries
+    .filter(([key]) => key.startsWith(SESSION_KEY_PREFIX))
+    .map(([, value]) => parseSessionRecord(value as string));
+};
+
+/**
+ * Load a saved session
+ * @param id The session's id
+ * @returns Promise with the session, or undefined if there is none
+ */
+const loadSessionRecord = async (id: string): Promise<SessionRecord | undefined> => {
+  const key = SESSION_KEY_PREFIX + id;
+  const value = hasSessionStorage() ? (await chrome.storage.session.get(key))[key] : memoryStorage.get(key);
+  return typeof value === 'string' ? parseSessionRecord(value) : undefined;
+};
+
+/**
+ * Delete a saved session
+ * @param id The session's id
+ */
+const deleteSessionRecord = async (id: string): Promise<void> => {
+  if (hasSessionStorage()) {
+    await chrome.storage.session.remove(SESSION_KEY_PREFIX + id);
+  } else {
+    memoryStorage.delete(SESSION_KEY_PREFIX + id);
+  }
+};
+
+/**
+ * Run a session from its record; every change is saved before the new state is returned
+ * @param record The session, as created or as loaded back
+ * @returns The session
+ */
+const openReviewSession = (record: SessionRecord): ReviewSession => {
+  const { id, options, queue, summary, undoStack } = record;
+
+  const getState = (): ReviewSessionState => ({
+    id,
+    card: record.finished ? null : queue[0] ?? null,
+    remaining: record.finished ? 0 : queue.length,
+    finished: record.finished,
+    canUndo: undoStack.length > 0,
+    summary: { ...summary, grades: { ...summary.grades }, durationMs: Date.now() - summary.startedAt },
+  });
+
+  // Save the session and report where it stands
+  const saveState = async (): Promise<ReviewSessionState> => {
+    await saveSessionRecord(record);
+    return getState();
+  };
+
+  // Move past the current card, ending the session when none are left
+  const advance = () => {
+    queue.shift();
+    if (queue.length === 0) record.finished = true;
+  };
+
+  // Changes run one at a time, each seeing the session as the last one left it; otherwise a
+  // double click could answer the same card twice and drop the card after it
+  let pending: Promise<unknown> = Promise.resolve();
+  const serialize = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = pending.then(operation);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    id,
+    getState,
+
+    answer: (grade, responseTimeMs) => serialize(async () => {
+      const card = queue[0];
+      if (record.finished || !card) throw new Error('The review session is over');
+
+      const before = { queue: [...queue], summary: { ...summary, grades: { ...summary.grades } } };
+      const { progress, undo } = await processReviewResponse(card.wordId, grade, options.source || 'popup', responseTimeMs);
+      undoStack.push({ undo, ...before });
+      if (undoStack.length > UNDO_DEPTH) undoStack.shift();
+
+      summary.answered++;
+      summary.grades[grade]++;
+      if (GRADE_QUALITY[grade] >= 3) summary.correct++;
+      if (card.kind === 'new') summary.newWords++;
+
+      advance();
+      // Cards still in their learning steps come back at the end of the session
+      if (isDueInSession(progress)) {
+        queue.push({ ...card, kind: 'learning' });
+        record.finished = false;
+      }
+      return saveState();
+    }),
+
+    next: () => serialize(async () => {
+      if (!record.finished) {
+        summary.skipped++;
+        advance();
+      }
+      return saveState();
+    }),
+
+    undo: () => serialize(async () => {
+      const entry = undoStack.pop();
+      if (!entry) throw new Error('Nothing to undo');
+
+      let reverted: boolean;
+      try {
+        reverted = await undoReview(entry.undo);
+      } catch (error) {
+        undoStack.push(entry); // Still there to retry
+        throw error;
+      }
+      if (!reverted) {
+        // Answered again elsewhere, so showing the card again would throw that answer away
+        await saveState();
+        throw new Error('This word has been reviewed again since, so the answer can no longer be undone');
+      }
+      queue.splice(0, queue.length, ...entry.queue);
+      Object.assign(summary, entry.summary);
+      record.finished = false;
+      return saveState();
+    }),
+
+    end: () => serialize(async () => {
+      record.finished = true;
+      return saveState();
+    }),
+  };
+};
+
+/**
+ * Start a review session
+ * @param options Where it runs and which cards it includes
+ * @returns Promise with the session
+ */
+export const createReviewSession = async (options: ReviewSessionOptions = {}): Promise<ReviewSession> => {
+  const startedAt = new Date();
+  const { cards: queue, buried } = await buildQueue(options, startedAt);
+  const record: SessionRecord = {
+    id: `${startedAt.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    options,
+    queue,
+    summary: {
+      answered: 0,
+      correct: 0,
+      grades: { again: 0, hard: 0, good: 0, easy: 0 },
+      newWords: 0,
+      skipped: 0,
+      buried,
+      startedAt: startedAt.getTime(),
+      durationMs: 0,
+    },
+    finished: queue.length === 0,
+    undoStack: [],
+    lastUsed: startedAt.getTime(),
+  };
+  await saveSessionRecord(record);
+  return openReviewSession(record);
+};
+
+// Sessions already loaded by this run of the background, by id. Loads in flight are kept too,
+// so messages arriving together after a restart share one session and its queue of operations
+const sessions = new Map<string, Promise<ReviewSession>>();
+
+/**
+ * Look up a session in progress, loading it back if the background has restarted since
+ * @param id The session's id
+ * @returns Promise with the session
+ */
+const findSession = async (id: string): Promise<ReviewSession> => {
+  const loaded = sessions.get(id);
+  if (loaded) return loaded;
+
+  const loading = loadSessionRecord(id).then(record => {
+    if (!record) throw new Error('Review session not found; it may have expired');
+    return openReviewSession(record);
+  });
+  sessions.set(id, loading);
+  loading.catch(() => sessions.delete(id));
+  return loading;
+};
+
+/**
+ * Start a session and keep it for later messages
+ * @param options Where it runs and which cards it includes
+ * @returns Promise with the session's first state
+ */
+export const startReviewSession = async (options: ReviewSessionOptions = {}): Promise<ReviewSessionState> => {
+  const now = Date.now();
+  for (const record of await loadSessionRecords()) {
+    if (now - record.lastUsed > SESSION_IDLE_MS) {
+      sessions.delete(record.id);
+      await deleteSessionRecord(record.id);
+    }
+  }
+
+  const session = await createReviewSession(options);
+  sessions.set(session.id, Promise.resolve(session));
+  return session.getState();
+};
+
+/**
+ * Answer a session's current card and move to the next
+ * @param id The session's id
+ * @param grade The answer button the user pressed
+ * @param responseTimeMs How long the user took to answer
+ * @returns Promise with the new state
+ */
+export const answerReviewCard = async (id: string, grade: ReviewGrade, responseTimeMs?: number): Promise<ReviewSessionState> =>
+  (await findSession(id)).answer(grade, responseTimeMs);
+
+/**
+ * Take back the last answer in a session
+ * @param id The session's id
+ * @returns Promise with the new state, showing the answered card again
+ */
+export const undoReviewAnswer = async (id: string): Promise<ReviewSessionState> => (await findSession(id)).undo();
+
+/**
+ * Skip a session's current card
+ * @param id The session's id
+ * @returns Promise with the new state
+ */
+export const skipReviewCard = async (id: string): Promise<ReviewSessionState> => (await findSession(id)).next();
+
+/**
+ * End a session and forget it
+ * @param id The session's id
+ * @returns Promise with the final state, including the session summary
+ */
+export const endReviewSession = async (id: string): Promise<ReviewSessionState> => {
+  const state = await (await findSession(id)).end();
+  sessions.delete(id);
+  await deleteSessionRecord(id);
+  return state;
+};
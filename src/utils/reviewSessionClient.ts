@@ -0,0 +1,65 @@
+// Review session client for the Arabic Learning Extension
+// The popup and content script reach the background's review sessions through these
+// messages, so every surface answers cards through the same engine.
+import { ReviewGrade } from './scheduler';
+import { ReviewSessionOptions, ReviewSessionState } from './reviewSession';
+
+/**
+ * Send a review session message to the background
+ * @param message The message, with its action
+ * @returns Promise with the session state the background answered with
+ */
+const sendSessionMessage = (message: Record<string, unknown>): Promise<ReviewSessionState> =>
+  new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, response => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else if (!response || response.error) {
+        reject(new Error(response?.error || 'No response from the background'));
+      } else {
+        resolve(response.session);
+      }
+    });
+  });
+
+/**
+ * Start a review session
+ * @param options Where it runs and which cards it includes
+ * @returns Promise with the session's first state
+ */
+export const startSession = (options: ReviewSessionOptions = {}): Promise<ReviewSessionState> =>
+  sendSessionMessage({ action: 'startReviewSession', options });
+
+/**
+ * Answer the current card
+ * @param sessionId The session's id
+ * @param grade The answer button the user pressed
+ * @param responseTimeMs How long the user took to answer
+ * @returns Promise with the new state
+ */
+export const answerCard = (sessionId: string, grade: ReviewGrade, responseTimeMs?: number): Promise<ReviewSessionState> =>
+  sendSessionMessage({ action: 'answerReviewCard', sessionId, grade, responseTimeMs });
+
+/**
+ * Take back the last answer
+ * @param sessionId The session's id
+ * @returns Promise with the new state, showing the answered card again
+ */
+export const undoAnswer = (sessionId: string): Promise<ReviewSessionState> =>
+  sendSessionMessage({ action: 'undoReviewAnswer', sessionId });
+
+/**
+ * Skip the current card
+ * @param sessionId The session's id
+ * @returns Promise with the new state
+ */
+export const skipCard = (sessionId: string): Promise<ReviewSessionState> =>
+  sendSessionMessage({ action: 'skipReviewCard', sessionId });
+
+/**
+ * End the session
+ * @param sessionId The session's id
+ * @returns Promise with the final state and summary
+ */
+export const endSession = (sessionId: string): Promise<ReviewSessionState> =>
+  sendSessionMessage({ action: 'endReviewSession', sessionId });
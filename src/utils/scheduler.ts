@@ -0,0 +1,107 @@
+// Scheduler interface shared by the spaced repetition algorithms of the Arabic Learning Extension
+// Implementations live in sm2.ts and fsrs.ts; spacedRepetition.ts picks one from the learner's settings
+import { CardState } from './database';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Answer buttons, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// SM-2 quality of recall (0-5) for each answer button, as stored in the review log
+export const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+export type SchedulerName = 'sm2' | 'fsrs';
+
+export const SCHEDULER_LABELS: Record<SchedulerName, string> = {
+  sm2: 'SM-2',
+  fsrs: 'FSRS',
+};
+
+export const DEFAULT_SCHEDULER: SchedulerName = 'sm2';
+
+// Share of reviews FSRS aims to have answered correctly
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+
+// The part of a word's progress the schedulers read and write
+export interface SchedulingState {
+  easeFactor: number;
+  interval: number; // Days
+  repetitions: number;
+  lapses: number;
+  stability?: number; // FSRS: days until recall probability falls to 90%
+  difficulty?: number; // FSRS: how hard the word is to remember, 1-10
+  cardState?: CardState; // Set by the learning steps; the algorithms only see words on review
+  learningStep?: number;
+}
+
+// What a scheduler needs to know about a word; missing fields mean a new word
+export type SchedulingInput = Partial<SchedulingState> & { lastReviewed?: Date };
+
+export type ScheduledState = SchedulingState & { nextReview: Date };
+
+export interface Scheduler {
+  name: SchedulerName;
+  /**
+   * Scheduling state for a word that has never been reviewed
+   * @returns Initial state
+   */
+  initialState(): SchedulingState;
+  /**
+   * Schedule a word after an answer
+   * @param state The word's current state
+   * @param grade The answer button pressed
+   * @param now When the answer was given
+   * @returns The new state and the next review date
+   */
+  next(state: SchedulingInput, grade: ReviewGrade, now: Date): ScheduledState;
+  /**
+   * Estimated probability that the word is recalled at a given time
+   * @param state The word's current state
+   * @param at When to estimate recall
+   * @returns Probability between 0 and 1 (0 for words never reviewed)
+   */
+  retrievability(state: SchedulingInput, at: Date): number;
+}
+
+/**
+ * Answer button for a quality of recall stored in the review log
+ * @param quality Quality of recall (0-5)
+ * @returns The matching grade
+ */
+export const qualityToGrade = (quality: number): ReviewGrade => {
+  if (quality < 3) return 'again';
+  if (quality === 3) return 'hard';
+  if (quality === 4) return 'good';
+  return 'easy';
+};
+
+/**
+ * Whether a word has been reviewed at all
+ * @param state The word's scheduling input
+ * @returns True once the word has a review date
+ */
+export const hasBeenReviewed = (state: SchedulingInput): boolean =>
+  state.lastReviewed instanceof Date && state.lastReviewed.getTime() > 0;
+
+/**
+ * Days between the last review and a given time
+ * @param state The word's scheduling input
+ * @param at The later time
+ * @returns Elapsed days (0 for words never reviewed)
+ */
+export const elapsedDays = (state: SchedulingInput, at: Date): number =>
+  hasBeenReviewed(state) ? Math.max(0, (at.getTime() - state.lastReviewed!.getTime()) / DAY_MS) : 0;
@@ -0,0 +1,141 @@
+// Full-text search index over glosses for the Arabic Learning Extension
+// Maps gloss terms (English ones stemmed) to the vocabulary entries whose glosses contain them
+import { IDBPObjectStore, StoreNames } from 'idb';
+import { ArabicLearningDB, SearchIndexEntry, VocabularyItem } from './database';
+import { normalizeArabic } from './arabicNormalization';
+
+export type SearchIndexStore = IDBPObjectStore<
+  ArabicLearningDB,
+  StoreNames<ArabicLearningDB>[],
+  'searchIndex',
+  'readwrite' | 'versionchange'
+>;
+
+// How much a term counts for, by the field it was found in
+const FIELD_WEIGHTS = {
+  translation: 3,
+  translations: 3, // Glosses in other languages
+  senses: 2, // The lexeme's other glosses
+  examples: 1,
+  etymology: 1,
+};
+
+// Words in Latin or Arabic script (Urdu glosses), after accents are removed
+const GLOSS_WORD_REGEX = /[a-z0-9'\u00DF-\u00F6\u00F8-\u024F\u0621-\u06D3\u06D5-\u06FF\u0750-\u077F]+/g;
+
+// English function words that would match most of the vocabulary
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'and', 'or', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as',
+]);
+
+/**
+ * Light English stemmer: folds plurals, -ed/-ing, -ful/-ness/-ly and a final e or y
+ * so "mercy", "mercies" and "merciful" share a term
+ * @param word A lowercase English word
+ * @returns The stem
+ */
+export const stemEnglish = (word: string): string => {
+  let stem = word.replace(/'s$/, '');
+  if (stem.length <= 3) return stem;
+
+  // Plurals
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ies')) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (/(ch|sh|x|z)es$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Verb endings, undoing a doubled final consonant (running -> run)
+  const verbEnding = stem.match(/(ed|ing)$/);
+  if (verbEnding && stem.length - verbEnding[0].length >= 3 && /[aeiouy]/.test(stem.slice(0, -verbEnding[0].length))) {
+    stem = stem.slice(0, -verbEnding[0].length);
+    if (/([^aeiouslz])\1$/.test(stem)) stem = stem.slice(0, -1);
+  }
+
+  // Derivational suffixes
+  for (const suffix of ['fulness', 'ful', 'ness', 'ly']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  // believe / believ(ing), mercy / merci(ful)
+  return stem.replace(/([^aeiou])e$/, '$1').replace(/y$/, 'i');
+};
+
+/**
+ * Split gloss text into lowercase words without accents. Arabic-script words
+ * are normalized the same way as Arabic lookups.
+ * @param text The text to split
+ * @returns Words in the order they appear (may repeat)
+ */
+export const splitGlossWords = (text: string): string[] => {
+  return (text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036F]/g, '').match(GLOSS_WORD_REGEX) || [])
+    .map(token => token.replace(/^'+|'+$/g, ''))
+    .map(token => (/[\u0600-\u06FF\u0750-\u077F]/.test(token) ? normalizeArabic(token) : token))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+};
+
+/**
+ * Split gloss text into search terms. Only English words are stemmed.
+ * @param text The text to tokenize
+ * @param language Language code of the gloss
+ * @returns Terms in the order they appear (may repeat)
+ */
+export const tokenizeGloss = (text: string, language = 'en'): string[] => {
+  const words = splitGlossWords(text);
+  return language === 'en' ? words.map(stemEnglish) : words;
+};
+
+/**
+ * Build the search index entries of a vocabulary entry
+ * @param item The vocabulary entry (must have an id)
+ * @returns One entry per distinct term, weighted by where it occurs
+ */
+export const buildSearchEntries = (item: VocabularyItem): SearchIndexEntry[] => {
+  if (item.id === undefined) return [];
+  const weights = new Map<string, number>();
+
+  const addText = (text: string | undefined, weight: number, language = 'en') => {
+    if (!text) return;
+    for (const term of new Set(tokenizeGloss(text, language))) {
+      weights.set(term, (weights.get(term) || 0) + weight);
+    }
+  };
+
+  addText(item.translation, FIELD_WEIGHTS.translation);
+  for (const [language, gloss] of Object.entries(item.translations || {})) {
+    addText(gloss, FIELD_WEIGHTS.translations, language);
+  }
+  for (const sense of item.senses || []) {
+    if (sense.gloss !== item.translation) addText(sense.gloss, FIELD_WEIGHTS.senses);
+  }
+  for (const example of item.examples || []) {
+    addText(example, FIELD_WEIGHTS.examples);
+  }
+  addText(item.etymology, FIELD_WEIGHTS.etymology);
+
+  return Array.from(weights.entries()).map(([term, weight]) => ({ term, wordId: item.id!, weight }));
+};
+
+/**
+ * Replace the index entries of a vocabulary entry inside an open transaction
+ * @param store The searchIndex store of a readwrite or upgrade transaction
+ * @param item The vocabulary entry (must have an id)
+ */
+export const indexVocabularyItem = async (store: SearchIndexStore, item: VocabularyItem): Promise<void> => {
+  if (item.id === undefined) return;
+
+  const staleKeys = await store.index('wordId').getAllKeys(item.id);
+  for (const key of staleKeys) {
+    await store.delete(key);
+  }
+  for (const entry of buildSearchEntries(item)) {
+    await store.put(entry);
+  }
+};
@@ -0,0 +1,59 @@
+// Sibling burying for the Arabic Learning Extension
+// Words sharing a root or lemma (رحمن، رحيم، رحمة) give each other away: after seeing one,
+// recalling the next is easier than it should be. A sibling of a word already reviewed
+// today is buried, left out of sessions until the next day. Nothing is stored: buried
+// words are simply still due tomorrow, when today's reviews no longer count.
+import { VocabularyItem, VocabularySource } from './database';
+import { getRepositories } from './repositories';
+import { getReviewLogByDateRange } from './reviewLog';
+
+// Decks are the vocabulary sources: the bundled corpus and the learner's own words
+export const DECK_LABELS: Record<VocabularySource, string> = {
+  corpus: 'Quran vocabulary',
+  custom: 'My words',
+};
+
+export const DEFAULT_BURY_SIBLINGS: Record<VocabularySource, boolean> = {
+  corpus: true,
+  custom: true,
+};
+
+/**
+ * Keys a word shares with its siblings
+ * @param item The vocabulary item
+ * @returns Its root and lemma keys, where it has them
+ */
+export const getSiblingKeys = (item: Pick<VocabularyItem, 'root' | 'lemma'>): string[] => {
+  const keys: string[] = [];
+  if (item.root) keys.push(`root:${item.root}`);
+  if (item.lemma) keys.push(`lemma:${item.lemma}`);
+  return keys;
+};
+
+/**
+ * Which deck a word belongs to
+ * @param item The vocabulary item
+ * @returns Its source; entries from before sources were recorded are corpus words
+ */
+export const getDeck = (item: Pick<VocabularyItem, 'source'>): VocabularySource => item.source || 'corpus';
+
+/**
+ * Load which decks bury siblings
+ * @returns Promise with the setting for each deck
+ */
+export const loadBurySiblings = async (): Promise<Record<VocabularySource, boolean>> => ({
+  ...DEFAULT_BURY_SIBLINGS,
+  ...await getRepositories().settings.get<Partial<Record<VocabularySource, boolean>>>('burySiblings'),
+});
+
+/**
+ * Get the words reviewed today, whose siblings are buried
+ * @param now The current time
+ * @returns Promise with the vocabulary items
+ */
+export const getReviewedToday = async (now: Date = new Date()): Promise<VocabularyItem[]> => {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  const wordIds = new Set((await getReviewLogByDateRange(start, now)).map(entry => entry.wordId));
+  return getRepositories().vocabulary.getMany(Array.from(wordIds));
+};
@@ -0,0 +1,102 @@
+// SM-2 scheduler for the Arabic Learning Extension
+// Based on the SuperMemo SM-2 algorithm for spaced repetition
+import {
+  DAY_MS,
+  GRADE_QUALITY,
+  Scheduler,
+  SchedulingInput,
+  ScheduledState,
+  elapsedDays,
+  hasBeenReviewed,
+} from './scheduler';
+
+// Ease factor bounds; SM-2 never goes below 1.3, and growth is capped so intervals stay reasonable
+export const MIN_EASE_FACTOR = 1.3;
+export const MAX_EASE_FACTOR = 3.0;
+export const INITIAL_EASE_FACTOR = 2.5;
+
+// Interval after an "easy" first answer, instead of the usual single day
+const EASY_FIRST_INTERVAL = 4;
+
+// Interval growth for a "hard" answer, and the extra growth for an "easy" one (as in Anki)
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+// SM-2 doesn't model forgetting; assume recall has dropped to this by the scheduled review
+const RETENTION_AT_INTERVAL = 0.9;
+
+/**
+ * Next SM-2 state from a quality of recall
+ * @param state The word's current scheduling state (missing fields: a new word)
+ * @param quality The quality of recall (0-5, where 0 is complete blackout and 5 is perfect recall)
+ * @param now When the answer was given
+ * @returns Updated scheduling state and the next review date
+ */
+const scheduleSm2 = (state: SchedulingInput, quality: number, now: Date): ScheduledState => {
+  // Ensure quality is within bounds
+  quality = Math.max(0, Math.min(5, quality));
+
+  const previousInterval = state.interval || 0;
+  let repetitions = state.repetitions || 0;
+  let lapses = state.lapses || 0;
+  let interval: number;
+
+  if (quality < 3) {
+    // Forgotten: start the word over tomorrow; a lapse if it had been learned
+    if (repetitions > 0) lapses++;
+    repetitions = 0;
+    interval = 1;
+  } else if (repetitions === 0) {
+    interval = quality === 5 ? EASY_FIRST_INTERVAL : 1;
+    repetitions = 1;
+  } else {
+    // Good answers follow SM-2; hard and easy ones get a shorter and a longer interval,
+    // each at least a day apart so the three buttons always differ
+    const goodBase = repetitions === 1 ? 6 : previousInterval * (state.easeFactor || INITIAL_EASE_FACTOR);
+    const hardInterval = Math.max(previousInterval + 1, Math.round(previousInterval * HARD_INTERVAL_FACTOR));
+    const goodInterval = Math.max(hardInterval + 1, Math.round(goodBase));
+    if (quality < 4) {
+      interval = hardInterval;
+    } else if (quality < 5) {
+      interval = goodInterval;
+    } else {
+      interval = Math.max(goodInterval + 1, Math.round(goodBase * EASY_BONUS));
+    }
+    repetitions++;
+  }
+
+  // Adjust ease factor based on quality of recall
+  const easeFactor = Math.min(MAX_EASE_FACTOR, Math.max(
+    MIN_EASE_FACTOR,
+    (state.easeFactor || INITIAL_EASE_FACTOR) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  ));
+
+  return {
+    nextReview: new Date(now.getTime() + interval * DAY_MS),
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    // Any FSRS memory state is out of date once SM-2 has moved the word on
+    stability: undefined,
+    difficulty: undefined
+  };
+};
+
+export const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+
+  initialState: () => ({
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+  }),
+
+  next: (state, grade, now) => scheduleSm2(state, GRADE_QUALITY[grade], now),
+
+  retrievability: (state, at) => {
+    if (!hasBeenReviewed(state)) return 0;
+    return Math.pow(RETENTION_AT_INTERVAL, elapsedDays(state, at) / Math.max(1, state.interval || 0));
+  },
+};
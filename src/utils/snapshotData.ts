@@ -0,0 +1,71 @@
+// Snapshot records for the Arabic Learning Extension
+// Store-level helpers, shared by the schema migrations and the snapshot manager
+import { IDBPObjectStore, IDBPTransaction, StoreNames } from 'idb';
+import { ArabicLearningDB, Snapshot, SnapshotReason } from './database';
+
+export type SnapshotSourceTransaction = IDBPTransaction<
+  ArabicLearningDB,
+  StoreNames<ArabicLearningDB>[],
+  IDBTransactionMode
+>;
+
+export type SnapshotStore = IDBPObjectStore<
+  ArabicLearningDB,
+  StoreNames<ArabicLearningDB>[],
+  'snapshots',
+  'readwrite' | 'versionchange'
+>;
+
+// Snapshots kept per reason; the oldest are dropped first
+export const SNAPSHOT_RETENTION: Record<SnapshotReason, number> = {
+  migration: 3,
+  import: 5,
+  scheduled: 4, // About a month of weekly snapshots
+  restore: 3,
+  manual: 5,
+};
+
+// Dataset import bookkeeping, not learner data; restoring it would only re-run the import
+export const EXCLUDED_SETTINGS = ['importCheckpoint'];
+
+/**
+ * Read the data a snapshot covers
+ * @param transaction A transaction over progress, settings and vocabulary
+ * @returns The learner's progress, settings and custom vocabulary
+ */
+export const readSnapshotData = async (
+  transaction: SnapshotSourceTransaction
+): Promise<Pick<Snapshot, 'progress' | 'settings' | 'customVocabulary'>> => {
+  const vocabularyStore = transaction.objectStore('vocabulary');
+  const settings = await transaction.objectStore('settings').getAll();
+
+  return {
+    progress: await transaction.objectStore('progress').getAll(),
+    settings: settings.filter(setting => !EXCLUDED_SETTINGS.includes(setting.id)),
+    // Databases from before schema version 9 have no learner-created entries
+    customVocabulary: vocabularyStore.indexNames.contains('source')
+      ? await vocabularyStore.index('source').getAll('custom')
+      : [],
+  };
+};
+
+/**
+ * Store a snapshot and drop the oldest ones of the same reason beyond the retention limit
+ * @param store The snapshots store, in a readwrite or versionchange transaction
+ * @param snapshot The snapshot to store
+ * @param keepId A snapshot never to drop, such as the one being restored
+ * @returns Promise with the new snapshot's id
+ */
+export const writeSnapshot = async (store: SnapshotStore, snapshot: Snapshot, keepId?: number): Promise<number> => {
+  const id = await store.add(snapshot) as number;
+
+  const keys = await store.index('reasonCreatedAt').getAllKeys(
+    IDBKeyRange.bound([snapshot.reason, new Date(0)], [snapshot.reason, new Date(8.64e15)])
+  );
+  const excess = Math.max(0, keys.length - SNAPSHOT_RETENTION[snapshot.reason]);
+  for (const key of keys.filter(key => key !== keepId).slice(0, excess)) {
+    await store.delete(key);
+  }
+
+  return id;
+};
@@ -0,0 +1,159 @@
+// Local snapshots of learner data for the Arabic Learning Extension
+import { IDBPDatabase } from 'idb';
+import { initDB, ArabicLearningDB, Snapshot, SnapshotReason, UserProgress } from './database';
+import { DB_VERSION, toDate, withSchedulingState } from './migrations';
+import { indexVocabularyItem } from './searchIndex';
+import { EXCLUDED_SETTINGS, readSnapshotData, writeSnapshot } from './snapshotData';
+
+// What the snapshot list shows, without the data itself
+export interface SnapshotSummary {
+  id: number;
+  createdAt: Date;
+  reason: SnapshotReason;
+  schemaVersion: number;
+  progressCount: number;
+  settingsCount: number;
+  customVocabularyCount: number;
+}
+
+/**
+ * Take a snapshot of progress, settings and custom vocabulary
+ * @param reason Why the snapshot is taken (default: manual)
+ * @param getDB Returns the connection to snapshot (defaults to the shared cached one)
+ * @returns Promise with the snapshot's id
+ */
+export const createSnapshot = async (
+  reason: SnapshotReason = 'manual',
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Promise<number> => {
+  try {
+    const db = await getDB();
+    const transaction = db.transaction(['progress', 'settings', 'vocabulary', 'snapshots'], 'readwrite');
+
+    const id = await writeSnapshot(transaction.objectStore('snapshots'), {
+      ...(await readSnapshotData(transaction)),
+      createdAt: new Date(),
+      reason,
+      schemaVersion: DB_VERSION,
+    });
+
+    await transaction.done;
+    return id;
+  } catch (error) {
+    console.error('Error creating snapshot:', error);
+    throw error;
+  }
+};
+
+/**
+ * List the stored snapshots
+ * @returns Promise with snapshot summaries, newest first
+ */
+export const listSnapshots = async (): Promise<SnapshotSummary[]> => {
+  try {
+    const db = await initDB();
+    const snapshots: Snapshot[] = await db.getAll('snapshots');
+
+    return snapshots
+      .map(snapshot => ({
+        id: snapshot.id!,
+        createdAt: snapshot.createdAt,
+        reason: snapshot.reason,
+        schemaVersion: snapshot.schemaVersion,
+        progressCount: snapshot.progress.length,
+        settingsCount: snapshot.settings.length,
+        customVocabularyCount: snapshot.customVocabulary.length,
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+    return [];
+  }
+};
+
+/**
+ * Replace progress, settings and custom vocabulary with a snapshot's copy.
+ * Runs in one transaction, and snapshots the current data first so the
+ * restore itself can be rolled back.
+ * @param id The snapshot to restore
+ * @param getDB Returns the connection to restore into (defaults to the shared cached one)
+ * @returns Promise with the id of the snapshot taken before restoring
+ */
+export const restoreSnapshot = async (
+  id: number,
+  getDB: () => Promise<IDBPDatabase<ArabicLearningDB>> = initDB
+): Promise<number> => {
+  try {
+    const db = await getDB();
+    const transaction = db.transaction(['progress', 'settings', 'vocabulary', 'searchIndex', 'snapshots'], 'readwrite');
+    const snapshotsStore = transaction.objectStore('snapshots');
+
+    const snapshot: Snapshot | undefined = await snapshotsStore.get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} does not exist`);
+    }
+
+    const rollbackId = await writeSnapshot(snapshotsStore, {
+      ...(await readSnapshotData(transaction)),
+      createdAt: new Date(),
+      reason: 'restore',
+      schemaVersion: DB_VERSION,
+    }, id); // Restoring an earlier rollback must not prune it away
+
+    // Progress: replaced wholesale; snapshots from old schema versions may hold date strings
+    const progressStore = transaction.objectStore('progress');
+    await progressStore.clear();
+    for (const progress of snapshot.progress) {
+      await progressStore.put(withSchedulingState({
+        ...progress,
+        lastReviewed: toDate(progress.lastReviewed),
+        nextReview: toDate(progress.nextReview),
+      } as UserProgress));
+    }
+
+    // Settings: everything but dataset bookkeeping
+    const settingsStore = transaction.objectStore('settings');
+    for (const key of await settingsStore.getAllKeys()) {
+      if (!EXCLUDED_SETTINGS.includes(key as string)) {
+        await settingsStore.delete(key);
+      }
+    }
+    for (const setting of snapshot.settings) {
+      await settingsStore.put(setting);
+    }
+
+    // Custom vocabulary: drop the current entries and their search terms, then re-add the snapshot's
+    const vocabularyStore = transaction.objectStore('vocabulary');
+    const searchStore = transaction.objectStore('searchIndex');
+    for (const wordId of await vocabularyStore.index('source').getAllKeys('custom')) {
+      await vocabularyStore.delete(wordId);
+      for (const key of await searchStore.index('wordId').getAllKeys(wordId)) {
+        await searchStore.delete(key);
+      }
+    }
+    for (const item of snapshot.customVocabulary) {
+      await vocabularyStore.put(item);
+      await indexVocabularyItem(searchStore, item);
+    }
+
+    await transaction.done;
+    return rollbackId;
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a snapshot
+ * @param id The snapshot to delete
+ */
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  try {
+    const db = await initDB();
+    await db.delete('snapshots', id);
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    throw error;
+  }
+};
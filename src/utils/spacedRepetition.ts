@@ -1,100 +1,186 @@
 // Spaced repetition system for the Arabic Learning Extension
-import { updateVocabularyProgress, getVocabularyForReview } from './database';
+import { CardType, ReviewSource, UserProgress, VocabularyItem } from './database';
+import { getStreakFromHistory } from './progressAnalytics';
+import { getRepositories } from './repositories';
+import { DAY_MS, DEFAULT_DESIRED_RETENTION, DEFAULT_SCHEDULER, GRADE_QUALITY, ReviewGrade, Scheduler, SchedulerName } from './scheduler';
+import { sm2Scheduler } from './sm2';
+import { createFsrsScheduler, DEFAULT_FSRS_PARAMETERS } from './fsrs';
+import { withLearningSteps, DEFAULT_LEARNING_STEP_OPTIONS } from './learningSteps';
+import { handleLeech, LEECH_TAG } from './leeches';
+import { balanceDueDate, loadLoadBalancingOptions } from './loadBalancer';
 
-// Define interfaces
-interface ReviewItem {
-  id: number;
-  word: string;
-  transliteration: string;
-  translation: string;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-  lastReviewed?: Date;
-  nextReview?: Date;
-  easeFactor?: number;
-  correctCount?: number;
-  incorrectCount?: number;
+/**
+ * Progress row for a word that has just been saved, due right away
+ * @param wordId The ID of the vocabulary item
+ * @returns Initial progress
+ */
+export const createInitialProgress = (wordId: number): UserProgress => ({
+  wordId,
+  correctCount: 0,
+  incorrectCount: 0,
+  lastReviewed: new Date(0),
+  nextReview: new Date(),
+  ...sm2Scheduler.initialState(),
+  cardState: 'new',
+  learningStep: 0,
+});
+
+/**
+ * Get a scheduler by name
+ * @param name Which algorithm to use
+ * @param fsrsParameters FSRS weights (default: the published defaults)
+ * @param desiredRetention FSRS target probability of recall
+ * @returns The scheduler
+ */
+export const getScheduler = (
+  name: SchedulerName,
+  fsrsParameters: number[] = DEFAULT_FSRS_PARAMETERS,
+  desiredRetention: number = DEFAULT_DESIRED_RETENTION
+): Scheduler => {
+  return name === 'fsrs' ? createFsrsScheduler(fsrsParameters, desiredRetention) : sm2Scheduler;
+};
+
+/**
+ * Get the scheduler the learner picked in settings, with their learning steps
+ * @returns Promise with the scheduler
+ */
+export const loadScheduler = async (): Promise<Scheduler> => {
+  try {
+    const settings = getRepositories().settings;
+    const scheduler = getScheduler(
+      await settings.get('scheduler') ?? DEFAULT_SCHEDULER,
+      await settings.get('fsrsParameters') ?? DEFAULT_FSRS_PARAMETERS,
+      await settings.get('desiredRetention') ?? DEFAULT_DESIRED_RETENTION
+    );
+    return withLearningSteps(scheduler, {
+      learningSteps: await settings.get('learningSteps') ?? DEFAULT_LEARNING_STEP_OPTIONS.learningSteps,
+      relearningSteps: await settings.get('relearningSteps') ?? DEFAULT_LEARNING_STEP_OPTIONS.relearningSteps,
+      graduatingInterval: await settings.get('graduatingInterval') ?? DEFAULT_LEARNING_STEP_OPTIONS.graduatingInterval,
+      easyInterval: await settings.get('easyInterval') ?? DEFAULT_LEARNING_STEP_OPTIONS.easyInterval,
+    });
+  } catch (error) {
+    console.error('Error loading scheduler:', error);
+    return withLearningSteps(sm2Scheduler);
+  }
+};
+
+// What undoReview needs to take an answer back
+export interface ReviewUndo {
+  wordId: number;
+  previous?: UserProgress; // Undefined if the word had no progress before the answer
+  logEntryId: number;
+  taggedLeech?: boolean; // Whether the answer tagged the word a leech
+}
+
+export interface ReviewResult {
+  progress: UserProgress;
+  undo: ReviewUndo;
 }
 
 /**
- * SM-2 Spaced Repetition Algorithm
- * Based on the SuperMemo SM-2 algorithm for spaced repetition
- * 
- * @param item The vocabulary item being reviewed
- * @param quality The quality of recall (0-5, where 0 is complete blackout and 5 is perfect recall)
- * @returns Updated review schedule information
+ * Update a word's progress after an answer and record it in the review log
+ * @param wordId The ID of the vocabulary item
+ * @param grade The answer button the user pressed
+ * @param options Where the answer was given and how long it took
+ * @returns Promise with the updated progress and how to undo the answer
  */
-export const calculateNextReview = (
-  item: ReviewItem,
-  quality: number
-): { nextReview: Date; easeFactor: number; interval: number } => {
-  // Ensure quality is within bounds
-  quality = Math.max(0, Math.min(5, quality));
+const answerWord = async (
+  wordId: number,
+  grade: ReviewGrade,
+  options: { source?: ReviewSource; responseTimeMs?: number } = {}
+): Promise<ReviewResult> => {
+  const { progress: progressRepository } = getRepositories();
   
-  // Default values if this is the first review
-  let easeFactor = item.easeFactor || 2.5;
-  let interval = 1; // Default interval in days
+  // Get existing progress or create new
+  const existing = await progressRepository.get(wordId);
+  const progress: UserProgress = existing || createInitialProgress(wordId);
   
-  // If the item has been reviewed before
-  if (item.lastReviewed) {
-    // Calculate new ease factor based on quality of recall
-    easeFactor = Math.max(1.3, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
-    
-    // Calculate new interval
-    if (quality < 3) {
-      // If recall was difficult, reset interval to 1 day
-      interval = 1;
-    } else {
-      // Calculate next interval based on previous interval
-      const previousInterval = Math.ceil(
-        (item.nextReview!.getTime() - item.lastReviewed.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      
-      if (previousInterval === 1) {
-        interval = 6;
-      } else if (previousInterval === 6) {
-        interval = Math.round(previousInterval * easeFactor);
-      } else {
-        interval = Math.round(previousInterval * easeFactor);
-      }
-    }
-  } else {
-    // First review - interval depends on quality
-    if (quality >= 4) {
-      interval = 3; // Good recall - 3 days
-    } else if (quality >= 3) {
-      interval = 2; // Okay recall - 2 days
-    } else {
-      interval = 1; // Poor recall - 1 day
-    }
-  }
-  
-  // Calculate next review date
+  const quality = GRADE_QUALITY[grade];
   const now = new Date();
-  const nextReview = new Date(now.getTime() + interval * 24 * 60 * 60 * 1000);
+  const previousInterval = progress.interval;
+  const scheduler = await loadScheduler();
+  // Spread out due dates so words learned together don't stay due together
+  const next = await balanceDueDate(scheduler.next(progress, grade, now), now, await loadLoadBalancingOptions());
+  
+  // Words that keep lapsing are tagged, and possibly suspended or switched to the other card type
+  const { progress: updated, taggedLeech } = await handleLeech(progress, {
+    ...progress,
+    ...next,
+    lastReviewed: now,
+    correctCount: progress.correctCount + (quality >= 3 ? 1 : 0),
+    incorrectCount: progress.incorrectCount + (quality >= 3 ? 0 : 1),
+  });
+  
+  // Save updated progress, the leech tag and the answer in the review log together
+  const logEntryId = await progressRepository.saveReview(updated, {
+    wordId,
+    timestamp: now,
+    grade: quality,
+    previousInterval,
+    newInterval: (updated.nextReview.getTime() - now.getTime()) / DAY_MS, // A fraction of a day for learning steps
+    easeFactor: updated.easeFactor,
+    responseTimeMs: options.responseTimeMs,
+    source: options.source || 'popup',
+  }, taggedLeech ? LEECH_TAG : undefined);
   
-  return {
-    nextReview,
-    easeFactor,
-    interval
-  };
+  return { progress: updated, undo: { wordId, previous: existing, logEntryId, taggedLeech } };
+};
+
+/**
+ * Update a word's progress after an answer and record it in the review log
+ * @param wordId The ID of the vocabulary item
+ * @param grade The answer button the user pressed
+ * @param options Where the answer was given and how long it took
+ * @returns Promise with the updated progress
+ */
+export const updateVocabularyProgress = async (
+  wordId: number,
+  grade: ReviewGrade,
+  options: { source?: ReviewSource; responseTimeMs?: number } = {}
+): Promise<UserProgress> => (await answerWord(wordId, grade, options)).progress;
+
+/**
+ * Take back an answer: restore the word's earlier progress and remove the answer from
+ * the review log. Stats, streaks and the new-word allowance are all read from the log,
+ * so they go back with it. A leech tag the answer added comes off; the rest of the
+ * word's entry, such as notes edited since, is kept.
+ * @param undo The undo record returned with the answer
+ * @returns Promise with false if the word has been answered again since, and nothing was undone
+ */
+export const undoReview = async (undo: ReviewUndo): Promise<boolean> => {
+  try {
+    const reverted = await getRepositories().progress.revertReview(
+      undo.wordId, undo.previous, undo.logEntryId, undo.taggedLeech ? LEECH_TAG : undefined
+    );
+    console.log(reverted
+      ? `Undid review ${undo.logEntryId} of word ${undo.wordId}`
+      : `Review ${undo.logEntryId} of word ${undo.wordId} was answered over since, not undone`);
+    return reverted;
+  } catch (error) {
+    console.error('Error undoing review:', error);
+    throw error;
+  }
 };
 
 /**
  * Process a review response
  * @param wordId The ID of the vocabulary item
- * @param correct Whether the user's response was correct
- * @returns Promise with the updated review information
+ * @param grade The answer button the user pressed
+ * @param source Where the answer was given
+ * @param responseTimeMs How long the user took to answer
+ * @returns Promise with the updated progress and how to undo the answer
  */
-export const processReviewResponse = async (wordId: number, correct: boolean): Promise<void> => {
+export const processReviewResponse = async (
+  wordId: number,
+  grade: ReviewGrade,
+  source: ReviewSource = 'popup',
+  responseTimeMs?: number
+): Promise<ReviewResult> => {
   try {
-    // Convert boolean to quality score (simplified for MVP)
-    // In a more advanced implementation, we could use a scale of 0-5
-    const quality = correct ? 4 : 2;
-    
-    // Update progress in the database
-    await updateVocabularyProgress(wordId, correct);
+    const result = await answerWord(wordId, grade, { source, responseTimeMs });
     
-    console.log(`Processed review for word ${wordId}: ${correct ? 'correct' : 'incorrect'}`);
+    console.log(`Processed review for word ${wordId}: ${grade}, next in ${result.progress.interval} days`);
+    return result;
   } catch (error) {
     console.error('Error processing review response:', error);
     throw error;
@@ -104,11 +190,19 @@ export const processReviewResponse = async (wordId: number, correct: boolean): P
 /**
  * Get vocabulary items due for review
  * @param limit Maximum number of items to return
- * @returns Promise with array of review items
+ * @returns Promise with array of review items, each with the side its review shows
  */
-export const getDueReviews = async (limit = 10): Promise<ReviewItem[]> => {
+export const getDueReviews = async (limit = 10): Promise<(VocabularyItem & { cardType: CardType })[]> => {
   try {
-    return await getVocabularyForReview(limit);
+    const { progress, vocabulary } = getRepositories();
+    
+    // Words due for review, earliest first; never-answered words wait in the new-word queue
+    const dueItems = (await progress.getDue(new Date()))
+      .filter(item => item.cardState !== 'new' && !item.suspended)
+      .slice(0, limit);
+    const cardTypes = new Map(dueItems.map(item => [item.wordId, item.cardType || 'recognition' as CardType]));
+    const words = await vocabulary.getMany(dueItems.map(item => item.wordId));
+    return words.map(word => ({ ...word, cardType: cardTypes.get(word.id!) || 'recognition' }));
   } catch (error) {
     console.error('Error getting due reviews:', error);
     return [];
@@ -121,43 +215,9 @@ export const getDueReviews = async (limit = 10): Promise<ReviewItem[]> => {
  */
 export const calculateStreak = async (): Promise<number> => {
   try {
-    // In a real implementation, this would query the database for review history
-    // For the MVP, we'll return a placeholder value
-    return 3; // Placeholder: 3-day streak
+    return await getStreakFromHistory();
   } catch (error) {
     console.error('Error calculating streak:', error);
     return 0;
   }
 };
-
-/**
- * Get user's learning statistics
- * @returns Promise with learning statistics
- */
-export const getLearningStats = async (): Promise<{
-  totalWords: number;
-  learnedWords: number;
-  reviewsToday: number;
-  streak: number;
-}> => {
-  try {
-    // In a real implementation, this would query the database for actual statistics
-    // For the MVP, we'll return placeholder values
-    const streak = await calculateStreak();
-    
-    return {
-      totalWords: 1000,
-      learnedWords: 42,
-      reviewsToday: 15,
-      streak
-    };
-  } catch (error) {
-    console.error('Error getting learning stats:', error);
-    return {
-      totalWords: 0,
-      learnedWords: 0,
-      reviewsToday: 0,
-      streak: 0
-    };
-  }
-};
@@ -1,9 +1,33 @@
 // Test utility for the Arabic Learning Browser Extension
 import { analyzePageContent, containsArabic } from '../utils/textAnalysis';
 import { getWordTranslation } from '../utils/hoverTranslation';
-import { calculateNextReview } from '../utils/spacedRepetition';
-import { getLearningStats } from '../utils/progressAnalytics';
-import { loadUserSettings } from '../utils/userSettings';
+import { getScheduler } from '../utils/spacedRepetition';
+import { SchedulerName } from '../utils/scheduler';
+import { withLearningSteps, DEFAULT_LEARNING_STEP_OPTIONS } from '../utils/learningSteps';
+import { getLearningStats, getDailyProgress } from '../utils/progressAnalytics';
+import { loadUserSettings, saveUserSettings } from '../utils/userSettings';
+import { openDatabase, ArabicLearningDB } from '../utils/database';
+import { updateVocabularyProgress, getDueReviews } from '../utils/spacedRepetition';
+import {
+  Repositories,
+  createInMemoryRepositories,
+  createIndexedDBRepositories,
+  setRepositories,
+  resetRepositories
+} from '../utils/repositories';
+import { DB_VERSION } from '../utils/migrations';
+import { BackupFile, BACKUP_FORMAT, BACKUP_VERSION, importBackup, parseBackup } from '../utils/backup';
+import { verifyDatabase, repairDatabase } from '../utils/integrity';
+import { createSnapshot, restoreSnapshot } from '../utils/snapshots';
+import { SNAPSHOT_RETENTION } from '../utils/snapshotData';
+import { startReviewSession, answerReviewCard, skipReviewCard, undoReviewAnswer, endReviewSession } from '../utils/reviewSession';
+import { simulateWorkload, summarizeRuns, createRandom, SimulationCard } from '../utils/forecast';
+import { transliterate } from '../utils/transliteration';
+import { normalizeArabic, stemArabic } from '../utils/arabicNormalization';
+import { parseDelimited, quoteDelimited } from '../utils/ankiFormat';
+import { readAnkiText, toProgress } from '../utils/ankiImport';
+import { toAnkiScheduling } from '../utils/ankiExport';
+import { deleteDB, IDBPDatabase } from 'idb';
 
 /**
  * Run basic tests for the extension's core functionality
@@ -27,6 +51,16 @@ export const runBasicTests = async (): Promise<{
     results.push(hoverTranslationResult);
     if (!hoverTranslationResult.passed) allPassed = false;
 
+    // Test transliteration
+    const transliterationResult = await testTransliteration();
+    results.push(transliterationResult);
+    if (!transliterationResult.passed) allPassed = false;
+
+    // Test Arabic normalization
+    const normalizationResult = await testArabicNormalization();
+    results.push(normalizationResult);
+    if (!normalizationResult.passed) allPassed = false;
+
     // Test spaced repetition
     const spacedRepetitionResult = await testSpacedRepetition();
     results.push(spacedRepetitionResult);
@@ -42,6 +76,51 @@ export const runBasicTests = async (): Promise<{
     results.push(userSettingsResult);
     if (!userSettingsResult.passed) allPassed = false;
 
+    // Test database migrations
+    const databaseMigrationsResult = await testDatabaseMigrations();
+    results.push(databaseMigrationsResult);
+    if (!databaseMigrationsResult.passed) allPassed = false;
+
+    // Test backup import
+    const backupImportResult = await testBackupImport();
+    results.push(backupImportResult);
+    if (!backupImportResult.passed) allPassed = false;
+
+    // Test database integrity checks
+    const databaseIntegrityResult = await testDatabaseIntegrity();
+    results.push(databaseIntegrityResult);
+    if (!databaseIntegrityResult.passed) allPassed = false;
+
+    // Test snapshots
+    const snapshotsResult = await testSnapshots();
+    results.push(snapshotsResult);
+    if (!snapshotsResult.passed) allPassed = false;
+
+    // Test storage repositories
+    const repositoriesResult = await testRepositories();
+    results.push(repositoriesResult);
+    if (!repositoriesResult.passed) allPassed = false;
+
+    // Test review sessions
+    const reviewSessionResult = await testReviewSession();
+    results.push(reviewSessionResult);
+    if (!reviewSessionResult.passed) allPassed = false;
+
+    // Test undoing review answers
+    const reviewUndoResult = await testReviewUndo();
+    results.push(reviewUndoResult);
+    if (!reviewUndoResult.passed) allPassed = false;
+
+    // Test workload forecast
+    const workloadForecastResult = await testWorkloadForecast();
+    results.push(workloadForecastResult);
+    if (!workloadForecastResult.passed) allPassed = false;
+
+    // Test Anki import and export
+    const ankiResult = await testAnki();
+    results.push(ankiResult);
+    if (!ankiResult.passed) allPassed = false;
+
     return {
       success: allPassed,
       results
@@ -142,45 +221,183 @@ const testHoverTranslation = async (): Promise<{ name: string; passed: boolean;
 };
 
 /**
- * Test spaced repetition functionality
+ * Test transliteration functionality
  */
-const testSpacedRepetition = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+const testTransliteration = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
   try {
-    // Test calculateNextReview function
-    const item = {
-      id: 1,
-      word: 'الله',
-      transliteration: 'Allah',
-      translation: 'Allah',
-      difficulty: 'beginner' as const
+    const cases: Array<[string, 'simple' | 'academic' | 'chat', string]> = [
+      ['كِتَابٌ', 'academic', 'kitābun'],
+      ['ٱلشَّمْسُ', 'simple', 'ash-shamsu'],
+      ['ٱلْقَمَرُ', 'simple', 'al-qamaru'],
+      ['رَحْمَةٌ', 'chat', 'ra7matun'],
+      ['فِى', 'academic', 'fī'],
+      ['عَلَىٰ', 'academic', 'ʿalā'],
+      ['مُوسَىٰ', 'academic', 'mūsā'],
+      ['شَىْءٍ', 'academic', 'shayʾin'],
+      ['ٱلَّذِينَ', 'academic', 'alladhīna'],
+    ];
+
+    for (const [word, scheme, expected] of cases) {
+      const actual = transliterate(word, scheme);
+      if (actual !== expected) {
+        return {
+          name: 'Transliteration',
+          passed: false,
+          message: `Expected "${expected}" for ${word} (${scheme}), got "${actual}"`
+        };
+      }
+    }
+
+    return {
+      name: 'Transliteration',
+      passed: true,
+      message: 'Transliteration handles long vowels, alef maqsura, tanween and the definite article'
     };
+  } catch (error) {
+    return {
+      name: 'Transliteration',
+      passed: false,
+      message: `Error testing transliteration: ${error.message}`
+    };
+  }
+};
 
-    // Test with different quality ratings
-    const goodResult = calculateNextReview(item, 5);
-    const okResult = calculateNextReview(item, 3);
-    const poorResult = calculateNextReview(item, 1);
+/**
+ * Test that Uthmani spellings normalize to their plain spellings, and that the light
+ * stemmer leaves root letters alone
+ */
+const testArabicNormalization = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  try {
+    const sameWords: Array<[string, string]> = [
+      ['ٱلْكِتَٰبُ', 'الكتاب'],
+      ['ٱلْعَٰلَمِينَ', 'العالمين'],
+      ['إِنسَٰن', 'إنسان'],
+      ['قُرْءَان', 'قرآن'],
+      ['ٱلصَّلَوٰةَ', 'الصلاة'],
+      ['عَلَىٰ', 'على'],
+      ['شَيْـًٔا', 'شيئا'],
+      ['مسؤول', 'مسئول'],
+    ];
+    for (const [uthmani, plain] of sameWords) {
+      if (normalizeArabic(uthmani) !== normalizeArabic(plain)) {
+        return {
+          name: 'Arabic Normalization - Spellings',
+          passed: false,
+          message: `${uthmani} (${normalizeArabic(uthmani)}) should match ${plain} (${normalizeArabic(plain)})`
+        };
+      }
+    }
 
-    if (!goodResult || !okResult || !poorResult) {
+    // "The book" and "the books" only differ by the dagger alef
+    if (normalizeArabic('ٱلْكِتَٰب') === normalizeArabic('ٱلْكُتُب')) {
       return {
-        name: 'Spaced Repetition - calculateNextReview',
+        name: 'Arabic Normalization - Dagger Alef',
         passed: false,
-        message: 'Failed to calculate next review schedule'
+        message: 'ٱلْكِتَٰب and ٱلْكُتُب should stay different words'
       };
     }
 
-    // Verify that higher quality leads to longer intervals
-    if (goodResult.interval <= poorResult.interval) {
+    const stems: Array<[string, string]> = [['نبي', 'نبي'], ['قرى', 'قري'], ['الكتابان', 'كتاب'], ['كتابها', 'كتاب']];
+    for (const [word, expected] of stems) {
+      const actual = stemArabic(normalizeArabic(word));
+      if (actual !== expected) {
+        return {
+          name: 'Arabic Normalization - Stemming',
+          passed: false,
+          message: `Expected the stem ${expected} for ${word}, got ${actual}`
+        };
+      }
+    }
+
+    return {
+      name: 'Arabic Normalization',
+      passed: true,
+      message: 'Uthmani dagger alef, madda and hamza seats match plain spelling; short roots keep their last letters'
+    };
+  } catch (error) {
+    return {
+      name: 'Arabic Normalization',
+      passed: false,
+      message: `Error testing Arabic normalization: ${error.message}`
+    };
+  }
+};
+
+/**
+ * Test spaced repetition functionality
+ */
+const testSpacedRepetition = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  try {
+    // Test each scheduler on a word reviewed twice before, now due
+    const now = new Date();
+    const state = { easeFactor: 2.5, interval: 6, repetitions: 2, lapses: 0, lastReviewed: new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000) };
+    const summaries: string[] = [];
+
+    for (const name of ['sm2', 'fsrs'] as SchedulerName[]) {
+      const scheduler = getScheduler(name);
+
+      // Test with different grades
+      const easyResult = scheduler.next(state, 'easy', now);
+      const goodResult = scheduler.next(state, 'good', now);
+      const hardResult = scheduler.next(state, 'hard', now);
+      const againResult = scheduler.next(state, 'again', now);
+
+      if (!easyResult || !goodResult || !hardResult || !againResult) {
+        return {
+          name: `Spaced Repetition - ${name} next`,
+          passed: false,
+          message: 'Failed to calculate next review schedule'
+        };
+      }
+
+      // Verify that each higher grade leads to a longer interval
+      if (!(againResult.interval < hardResult.interval && hardResult.interval < goodResult.interval && goodResult.interval < easyResult.interval)) {
+        return {
+          name: `Spaced Repetition - ${name} Interval Logic`,
+          passed: false,
+          message: 'Higher grades should lead to longer intervals'
+        };
+      }
+
+      // A failed answer restarts the word and counts as a lapse
+      if (againResult.repetitions !== 0 || againResult.lapses !== 1) {
+        return {
+          name: `Spaced Repetition - ${name} Lapses`,
+          passed: false,
+          message: 'A failed review should reset repetitions and record a lapse'
+        };
+      }
+
+      // Recall gets less likely the longer a word goes unreviewed
+      const recallSoon = scheduler.retrievability({ ...easyResult, lastReviewed: now }, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+      const recallLater = scheduler.retrievability({ ...easyResult, lastReviewed: now }, easyResult.nextReview);
+      if (!(recallSoon > recallLater && recallLater > 0)) {
+        return {
+          name: `Spaced Repetition - ${name} Retrievability`,
+          passed: false,
+          message: 'Retrievability should fall over time'
+        };
+      }
+
+      summaries.push(`${name}: Easy (${easyResult.interval} days), Good (${goodResult.interval} days), Hard (${hardResult.interval} days), Again (${againResult.interval} days)`);
+    }
+
+    // New words go through minute-scale learning steps before day-scale reviews
+    const learning = withLearningSteps(getScheduler('sm2'), DEFAULT_LEARNING_STEP_OPTIONS);
+    const firstAnswer = learning.next(learning.initialState(), 'good', now);
+    const graduated = learning.next({ ...firstAnswer, lastReviewed: now }, 'good', firstAnswer.nextReview);
+    if (firstAnswer.cardState !== 'learning' || firstAnswer.nextReview.getTime() - now.getTime() !== 10 * 60 * 1000 || graduated.cardState !== 'review') {
       return {
-        name: 'Spaced Repetition - Interval Logic',
+        name: 'Spaced Repetition - Learning Steps',
         passed: false,
-        message: 'Higher quality rating should lead to longer intervals'
+        message: 'New words should step through minutes before graduating to days'
       };
     }
 
     return {
       name: 'Spaced Repetition',
       passed: true,
-      message: `Successfully calculated spaced repetition intervals: Good (${goodResult.interval} days), OK (${okResult.interval} days), Poor (${poorResult.interval} days)`
+      message: `Successfully calculated spaced repetition intervals: ${summaries.join('; ')}`
     };
   } catch (error) {
     return {
@@ -196,14 +413,43 @@ const testSpacedRepetition = async (): Promise<{ name: string; passed: boolean;
  */
 const testProgressAnalytics = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
   try {
-    // Test getLearningStats function
-    const stats = await getLearningStats();
+    // Stats come from the review log and progress, whatever old counters settings still hold
+    const now = new Date();
+    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const answer = (wordId: number, timestamp: Date, grade: number) => ({
+      wordId, timestamp, grade, previousInterval: 0, newInterval: 1, easeFactor: 2.5, source: 'popup' as const
+    });
+    const baseProgress = { correctCount: 1, incorrectCount: 0, lastReviewed: now, nextReview: now, easeFactor: 2.5, interval: 1, repetitions: 1, lapses: 0, learningStep: 0 };
+    const repositories = createInMemoryRepositories({
+      vocabulary: [
+        { id: 1, word: 'كِتَاب', transliteration: 'kitab', translation: 'book', difficulty: 'beginner', tags: [] },
+        { id: 2, word: 'قَلَم', transliteration: 'qalam', translation: 'pen', difficulty: 'beginner', tags: [] },
+        { id: 3, word: 'نُور', transliteration: 'nur', translation: 'light', difficulty: 'beginner', tags: [] },
+      ],
+      progress: [
+        { ...baseProgress, wordId: 1, cardState: 'review' },
+        { ...baseProgress, wordId: 2, cardState: 'learning' },
+      ],
+      settings: { reviewsTotal: 99, streak: 42, learnedWordsCount: 7 },
+    });
+    for (const entry of [answer(1, yesterday, 4), answer(1, now, 4), answer(2, now, 1)]) {
+      await repositories.reviewLog.add(entry);
+    }
+    setRepositories(repositories);
 
-    if (!stats) {
+    let stats;
+    try {
+      stats = await getLearningStats();
+    } finally {
+      resetRepositories();
+    }
+
+    const summary = [stats.totalWords, stats.learnedWords, stats.reviewsToday, stats.reviewsTotal, stats.correctAnswers, stats.incorrectAnswers, stats.streak].join();
+    if (summary !== '3,1,2,3,2,1,2' || stats.lastReviewDate?.getTime() !== now.getTime()) {
       return {
         name: 'Progress Analytics - getLearningStats',
         passed: false,
-        message: 'Failed to get learning statistics'
+        message: `Stats should come from the review log and progress, got ${summary}`
       };
     }
 
@@ -251,6 +497,896 @@ const testUserSettings = async (): Promise<{ name: string; passed: boolean; mess
   }
 };
 
+/**
+ * Test upgrading a seeded version 1 database to the latest schema
+ */
+const testDatabaseMigrations = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  // Use a throwaway database so the learner's data is never touched
+  const testDbName = 'ArabicLearningDB-migration-test';
+
+  try {
+    await deleteDB(testDbName);
+
+    // Seed a database at the original schema version
+    const v1 = await openDatabase(testDbName, 1);
+    await v1.add('vocabulary', {
+      word: 'رَحْمَة',
+      transliteration: 'rahma',
+      translation: 'mercy',
+      difficulty: 'beginner',
+      tags: ['quranic']
+    });
+    await v1.add('vocabulary', {
+      word: 'كِتَاب',
+      transliteration: 'kitab',
+      translation: 'book',
+      difficulty: 'intermediate',
+      tags: ['quranic', 'frequently-used']
+    });
+    // Dates stored as strings, as an old JSON import would have left them
+    await v1.put('progress', {
+      wordId: 1,
+      correctCount: 3,
+      incorrectCount: 1,
+      lastReviewed: '2024-01-01T00:00:00.000Z' as any,
+      nextReview: '2024-01-08T00:00:00.000Z' as any,
+      easeFactor: 2.6
+    });
+    await v1.put('settings', { id: 'dailyGoal', value: 15 });
+    v1.close();
+
+    // Upgrade to the latest version
+    const latest = await openDatabase(testDbName);
+    const vocabularyCount = await latest.count('vocabulary');
+    const progress = await latest.get('progress', 1);
+    const dailyGoal = await latest.get('settings', 'dailyGoal');
+    latest.close();
+
+    if (vocabularyCount !== 2 || !progress || !dailyGoal || dailyGoal.value !== 15) {
+      return {
+        name: 'Database Migrations - Data Preservation',
+        passed: false,
+        message: `Data lost during upgrade: ${vocabularyCount} vocabulary items, progress ${progress ? 'kept' : 'missing'}, daily goal ${dailyGoal ? dailyGoal.value : 'missing'}`
+      };
+    }
+
+    if (!(progress.nextReview instanceof Date) || progress.correctCount !== 3 || progress.easeFactor !== 2.6) {
+      return {
+        name: 'Database Migrations - Progress Records',
+        passed: false,
+        message: 'Progress record was not migrated correctly'
+      };
+    }
+
+    return {
+      name: 'Database Migrations',
+      passed: true,
+      message: `Successfully upgraded a seeded version 1 database to version ${DB_VERSION} without losing data`
+    };
+  } catch (error) {
+    return {
+      name: 'Database Migrations',
+      passed: false,
+      message: `Error testing database migrations: ${error.message}`
+    };
+  } finally {
+    await deleteDB(testDbName);
+  }
+};
+
+/**
+ * Check that a repository implementation behaves as the app expects
+ * @param repositories The repositories to check (must start empty)
+ * @returns Description of the first failed check, or null if all passed
+ */
+const checkRepositoryContract = async (repositories: Repositories): Promise<string | null> => {
+  const { vocabulary, progress, settings, reviewLog } = repositories;
+  const day = 24 * 60 * 60 * 1000;
+  const now = new Date();
+
+  // Vocabulary: generated ids, lookups in key order, copies rather than live objects
+  const bookId = await vocabulary.put({ word: 'كِتَاب', transliteration: 'kitab', translation: 'book', difficulty: 'beginner', tags: ['quranic'] });
+  const mercyId = await vocabulary.put({ word: 'رَحْمَة', transliteration: 'rahma', translation: 'mercy', difficulty: 'beginner', tags: ['quranic', 'frequently-used'] });
+  if (bookId === mercyId) return 'vocabulary ids are not unique';
+  if ((await vocabulary.count()) !== 2) return 'vocabulary count is wrong';
+  if ((await vocabulary.getByTag('frequently-used')).map(item => item.id).join() !== String(mercyId)) return 'getByTag returned the wrong entries';
+  if ((await vocabulary.getByDifficulty('beginner', 1))[0]?.id !== bookId) return 'getByDifficulty ignores key order or limit';
+  if ((await vocabulary.getMany([mercyId, 999, bookId])).map(item => item.id).join() !== `${mercyId},${bookId}`) return 'getMany returned the wrong entries';
+  const book = await vocabulary.get(bookId);
+  book!.translation = 'changed';
+  if ((await vocabulary.get(bookId))!.translation !== 'book') return 'returned entries are live objects';
+
+  // Frequency order: most frequent first, ties in reverse key order, entries without a frequency left out
+  const allahId = await vocabulary.put({ word: 'اللَّه', transliteration: 'allah', translation: 'Allah', difficulty: 'beginner', tags: [], frequency: 2699 });
+  const lordId = await vocabulary.put({ word: 'رَبّ', transliteration: 'rabb', translation: 'lord', difficulty: 'beginner', tags: [], frequency: 970 });
+  const dayId = await vocabulary.put({ word: 'يَوْم', transliteration: 'yawm', translation: 'day', difficulty: 'beginner', tags: [], frequency: 970 });
+  if ((await vocabulary.getByFrequency(0, 10)).map(item => item.id).join() !== `${allahId},${dayId},${lordId}`) return 'getByFrequency returned the wrong order';
+  if ((await vocabulary.getByFrequency(1, 1)).map(item => item.id).join() !== String(dayId)) return 'getByFrequency ignores offset or limit';
+
+  // Progress: due words up to and including now, earliest first
+  const baseProgress = { correctCount: 0, incorrectCount: 0, lastReviewed: new Date(0), easeFactor: 2.5, interval: 0, repetitions: 0, lapses: 0, cardState: 'review' as const, learningStep: 0 };
+  await progress.put({ ...baseProgress, wordId: mercyId, nextReview: new Date(now.getTime() - day) });
+  await progress.put({ ...baseProgress, wordId: bookId, nextReview: new Date(now.getTime() + day) });
+  if ((await progress.getDue(now)).map(entry => entry.wordId).join() !== String(mercyId)) return 'getDue returned the wrong words';
+  if ((await progress.getDueBetween(new Date(now.getTime() - day), new Date(now.getTime() + day))).map(entry => entry.wordId).join() !== `${mercyId},${bookId}`) {
+    return 'getDueBetween is not earliest first or not inclusive';
+  }
+  if ((await progress.getDueBetween(now, new Date(now.getTime() + 2 * day))).map(entry => entry.wordId).join() !== String(bookId)) return 'getDueBetween returned the wrong words';
+  if (!((await progress.get(mercyId))!.nextReview instanceof Date)) return 'progress dates are not Dates';
+
+  // Reviews: progress and log entry saved together, log ordered by time
+  const mercyEntryId = await progress.saveReview({ ...baseProgress, wordId: mercyId, correctCount: 1, lastReviewed: new Date(now.getTime() - 1000), nextReview: new Date(now.getTime() + day) }, {
+    wordId: mercyId, timestamp: new Date(now.getTime() - 1000), grade: 4, previousInterval: 0, newInterval: 1, easeFactor: 2.5, source: 'popup'
+  });
+  await reviewLog.add({ wordId: bookId, timestamp: now, grade: 2, previousInterval: 0, newInterval: 0, easeFactor: 2.3, source: 'in-page' });
+  if ((await progress.get(mercyId))!.correctCount !== 1) return 'saveReview did not update progress';
+  if ((await reviewLog.getForWord(mercyId)).length !== 1) return 'getForWord returned the wrong entries';
+  if ((await reviewLog.getRecent(1))[0]?.wordId !== bookId) return 'getRecent is not newest first';
+  if ((await reviewLog.getByDateRange(new Date(now.getTime() - day), now)).map(entry => entry.wordId).join() !== `${mercyId},${bookId}`) {
+    return 'getByDateRange is not oldest first or not inclusive';
+  }
+
+  // Undoing a review: the earlier schedule comes back with the log entry gone, or the word is left unscheduled
+  if (!await progress.revertReview(mercyId, { ...baseProgress, wordId: mercyId, nextReview: new Date(now.getTime() - day) }, mercyEntryId)) return 'revertReview refused a current answer';
+  if ((await progress.get(mercyId))!.correctCount !== 0 || (await reviewLog.getForWord(mercyId)).length !== 0) return 'revertReview did not restore the earlier schedule';
+  const allahEntryId = await progress.saveReview({ ...baseProgress, wordId: allahId, lastReviewed: now, nextReview: now }, {
+    wordId: allahId, timestamp: now, grade: 1, previousInterval: 0, newInterval: 0, easeFactor: 2.5, source: 'popup'
+  }, 'leech');
+  const allah = (await vocabulary.get(allahId))!;
+  if (allah.tags.join() !== 'leech') return 'saveReview did not add the tag';
+  await vocabulary.put({ ...allah, tags: ['quranic', ...allah.tags], notes: 'edited after the answer' });
+  await progress.revertReview(allahId, undefined, allahEntryId, 'leech');
+  if ((await progress.get(allahId)) !== undefined || (await reviewLog.getForWord(allahId)).length !== 0) return 'revertReview without a schedule left progress behind';
+  const untagged = (await vocabulary.get(allahId))!;
+  if (untagged.tags.join() !== 'quranic' || untagged.notes !== 'edited after the answer') return 'revertReview did not remove just the added tag';
+  if ((await reviewLog.getRecent(10)).length !== 1) return 'revertReview removed the wrong log entries';
+
+  // An answer can't be undone once the word has been answered again
+  const dayProgress = { ...baseProgress, wordId: dayId, nextReview: now };
+  const firstEntryId = await progress.saveReview({ ...dayProgress, lastReviewed: new Date(now.getTime() - 1000) }, {
+    wordId: dayId, timestamp: new Date(now.getTime() - 1000), grade: 4, previousInterval: 0, newInterval: 0, easeFactor: 2.5, source: 'popup'
+  });
+  await progress.saveReview({ ...dayProgress, lastReviewed: now, correctCount: 2 }, {
+    wordId: dayId, timestamp: now, grade: 4, previousInterval: 0, newInterval: 0, easeFactor: 2.5, source: 'in-page'
+  });
+  if (await progress.revertReview(dayId, undefined, firstEntryId)) return 'revertReview undid an answer made stale by a later one';
+  if ((await progress.get(dayId))!.correctCount !== 2 || (await reviewLog.getForWord(dayId)).length !== 2) return 'a refused revertReview changed the word';
+
+  // Settings: missing keys read as null
+  if ((await settings.get('missing')) !== null) return 'missing settings are not null';
+  await settings.set('dailyGoal', 20);
+  if ((await settings.get('dailyGoal')) !== 20) return 'settings are not saved';
+
+  return null;
+};
+
+/**
+ * Test the storage repositories, and the scheduler, analytics and settings
+ * logic running on injected in-memory storage
+ */
+const testRepositories = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  // Use a throwaway database so the learner's data is never touched
+  const testDbName = 'ArabicLearningDB-repository-test';
+  let testDb: IDBPDatabase<ArabicLearningDB> | null = null;
+
+  try {
+    await deleteDB(testDbName);
+    testDb = await openDatabase(testDbName);
+    const connection = testDb;
+
+    // Both implementations must pass the same checks
+    const implementations: Array<[string, Repositories]> = [
+      ['In-memory', createInMemoryRepositories()],
+      ['IndexedDB', createIndexedDBRepositories(async () => connection)]
+    ];
+    for (const [name, repositories] of implementations) {
+      const failure = await checkRepositoryContract(repositories);
+      if (failure) {
+        return {
+          name: `Repositories - ${name}`,
+          passed: false,
+          message: failure
+        };
+      }
+    }
+
+    // Scheduler, analytics and settings on in-memory storage
+    const repositories = createInMemoryRepositories({
+      vocabulary: [{ id: 1, word: 'كِتَاب', transliteration: 'kitab', translation: 'book', difficulty: 'beginner', tags: ['quranic'] }]
+    });
+    setRepositories(repositories);
+
+    await updateVocabularyProgress(1, 'good');
+    const progress = await updateVocabularyProgress(1, 'again', { source: 'in-page' });
+    const dailyProgress = await getDailyProgress(1);
+    const dueReviews = await getDueReviews();
+    await saveUserSettings({ dailyGoal: 25 });
+    const settings = await loadUserSettings();
+
+    if (progress.correctCount !== 1 || progress.incorrectCount !== 1 || (await repositories.reviewLog.getForWord(1)).length !== 2) {
+      return {
+        name: 'Repositories - Scheduler',
+        passed: false,
+        message: 'Answers were not recorded in the injected repositories'
+      };
+    }
+
+    if (dailyProgress[0]?.reviewCount !== 2 || dailyProgress[0].correctCount !== 1 || dueReviews.length !== 0) {
+      return {
+        name: 'Repositories - Analytics',
+        passed: false,
+        message: 'Daily progress or due reviews do not match the recorded answers'
+      };
+    }
+
+    if (settings.dailyGoal !== 25) {
+      return {
+        name: 'Repositories - Settings',
+        passed: false,
+        message: 'Settings were not saved to the injected repositories'
+      };
+    }
+
+    return {
+      name: 'Repositories',
+      passed: true,
+      message: 'In-memory and IndexedDB repositories behave the same, and the scheduler runs on injected storage'
+    };
+  } catch (error) {
+    return {
+      name: 'Repositories',
+      passed: false,
+      message: `Error testing repositories: ${error.message}`
+    };
+  } finally {
+    resetRepositories();
+    testDb?.close();
+    await deleteDB(testDbName);
+  }
+};
+
+/**
+ * Test backup import: dry runs, merging and replacing, word matching and file validation
+ */
+const testBackupImport = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  // Use a throwaway database so the learner's data is never touched
+  const testDbName = 'ArabicLearningDB-backup-test';
+  let testDb: IDBPDatabase<ArabicLearningDB> | null = null;
+
+  try {
+    await deleteDB(testDbName);
+    testDb = await openDatabase(testDbName);
+    const db = testDb;
+    const getDB = async () => db;
+
+    // Two corpus words reviewed in January and March, and some settings
+    const mercyId = await db.add('vocabulary', { word: 'رَحْمَة', normalized: 'رحمه', transliteration: 'rahma', translation: 'mercy', difficulty: 'beginner', tags: [], source: 'corpus' }) as number;
+    const bookId = await db.add('vocabulary', { word: 'كِتَاب', normalized: 'كتاب', transliteration: 'kitab', translation: 'book', difficulty: 'beginner', tags: [], source: 'corpus' }) as number;
+    const baseProgress = { incorrectCount: 0, easeFactor: 2.5, interval: 7, repetitions: 2, lapses: 0, cardState: 'review' as const, learningStep: 0 };
+    await db.put('progress', { ...baseProgress, wordId: mercyId, correctCount: 1, lastReviewed: new Date('2024-01-01T00:00:00Z'), nextReview: new Date('2024-01-08T00:00:00Z') });
+    await db.put('progress', { ...baseProgress, wordId: bookId, correctCount: 4, lastReviewed: new Date('2024-03-01T00:00:00Z'), nextReview: new Date('2024-03-08T00:00:00Z') });
+    await db.put('settings', { id: 'dailyGoal', value: 15 });
+    await db.put('settings', { id: 'reviewsTotal', value: 10 });
+
+    // A backup from another install: its ids differ, newer progress for one word and older for
+    // the other, and a custom word with one review
+    const ref = (id: number, normalized: string, source: 'corpus' | 'custom' = 'corpus') => ({ id, source, normalized });
+    const backupProgress = (word: ReturnType<typeof ref>, correctCount: number, lastReviewed: string) => ({
+      ...baseProgress, word, correctCount, lastReviewed, nextReview: lastReviewed
+    });
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      schemaVersion: DB_VERSION,
+      exportedAt: '2024-04-01T00:00:00.000Z',
+      settings: [{ id: 'dailyGoal', value: 30 }, { id: 'reviewsTotal', value: 5 }],
+      progress: [
+        backupProgress(ref(901, 'رحمه'), 5, '2024-02-01T00:00:00.000Z'),
+        backupProgress(ref(902, 'كتاب'), 2, '2024-02-01T00:00:00.000Z'),
+        backupProgress(ref(50, 'قلم', 'custom'), 1, '2024-02-01T00:00:00.000Z'),
+      ],
+      reviewLog: [{ word: ref(50, 'قلم', 'custom'), timestamp: '2024-02-01T00:00:00.000Z', grade: 4, previousInterval: 0, newInterval: 1, easeFactor: 2.5, source: 'popup' }],
+      customVocabulary: [{ id: 50, word: 'قَلَم', normalized: 'قلم', transliteration: 'qalam', translation: 'pen', difficulty: 'beginner', tags: [], source: 'custom' }],
+      vocabularyOverrides: [],
+    };
+
+    // A dry run reports the merge but writes nothing, not even the snapshot
+    const dryRun = await importBackup(backup, { dryRun: true }, getDB);
+    if (dryRun.progress.updated !== 1 || dryRun.progress.kept !== 1 || dryRun.progress.added !== 1 || dryRun.customVocabulary.added !== 1
+      || (await db.count('vocabulary')) !== 2 || (await db.get('progress', mercyId))!.correctCount !== 1 || (await db.count('snapshots')) !== 0) {
+      return {
+        name: 'Backup Import - Dry Run',
+        passed: false,
+        message: `Dry run changed data or misreported: ${JSON.stringify(dryRun)}`
+      };
+    }
+
+    // Merge: newer progress wins, counters keep the larger value, the custom word gets a new id
+    await importBackup(backup, { mode: 'merge' }, getDB);
+    const [pen] = await db.getAllFromIndex('vocabulary', 'source', 'custom');
+    if ((await db.get('progress', mercyId))!.correctCount !== 5 || (await db.get('progress', bookId))!.correctCount !== 4
+      || (await db.get('settings', 'dailyGoal'))!.value !== 30 || (await db.get('settings', 'reviewsTotal'))!.value !== 10) {
+      return {
+        name: 'Backup Import - Merge',
+        passed: false,
+        message: 'Merging should keep the newer progress per word and the larger counters'
+      };
+    }
+    if (!pen || pen.id === 50 || !(await db.get('progress', pen.id!)) || (await db.getAllFromIndex('reviewLog', 'wordTimestamp', IDBKeyRange.bound([pen.id!, new Date(0)], [pen.id!, new Date(8.64e15)]))).length !== 1) {
+      return {
+        name: 'Backup Import - Custom Words',
+        passed: false,
+        message: "The custom word's progress and history should follow it to its new id"
+      };
+    }
+
+    // Replace: the backup becomes the data, older progress and smaller counters included
+    const replaced = await importBackup(backup, { mode: 'replace' }, getDB);
+    if ((await db.count('progress')) !== 3 || (await db.get('progress', bookId))!.correctCount !== 2
+      || (await db.get('settings', 'reviewsTotal'))!.value !== 5 || (await db.count('reviewLog')) !== 1 || replaced.customVocabulary.removed !== 1) {
+      return {
+        name: 'Backup Import - Replace',
+        passed: false,
+        message: `Replacing should leave exactly the backup's data: ${JSON.stringify(replaced)}`
+      };
+    }
+
+    // Files: legacy exports are converted; broken and newer backups are refused
+    const legacy = await parseBackup(JSON.stringify({ settings: { dailyGoal: 12 }, progress: { reviewsTotal: 7 }, exportDate: '2023-01-01T00:00:00.000Z' }));
+    const legacySettings = legacy.settings.map(setting => `${setting.id}=${setting.value}`).join();
+    const refusals = await Promise.all([
+      JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, settings: [] }),
+      JSON.stringify({ ...backup, version: BACKUP_VERSION + 1 }),
+    ].map(text => parseBackup(text).then(() => null, (error: Error) => error.message)));
+    if (legacySettings !== 'dailyGoal=12,reviewsTotal=7' || !refusals[0]?.includes('missing') || !refusals[1]?.includes('newer version')) {
+      return {
+        name: 'Backup Import - Files',
+        passed: false,
+        message: `Legacy settings ${legacySettings}; refusals: ${refusals.join('; ')}`
+      };
+    }
+
+    return {
+      name: 'Backup Import',
+      passed: true,
+      message: 'Dry run, merge and replace imports matched words across installs; legacy, broken and newer files handled'
+    };
+  } catch (error) {
+    return {
+      name: 'Backup Import',
+      passed: false,
+      message: `Error testing backup import: ${error.message}`
+    };
+  } finally {
+    testDb?.close();
+    await deleteDB(testDbName);
+  }
+};
+
+/**
+ * Test the integrity check and repair: duplicate lexemes are merged with their progress,
+ * history and occurrences, and rows for missing words are deleted
+ */
+const testDatabaseIntegrity = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  // Use a throwaway database so the learner's data is never touched
+  const testDbName = 'ArabicLearningDB-integrity-test';
+  let testDb: IDBPDatabase<ArabicLearningDB> | null = null;
+
+  try {
+    await deleteDB(testDbName);
+    testDb = await openDatabase(testDbName);
+    const db = testDb;
+    const getDB = async () => db;
+
+    // The same corpus word twice, each with progress, and the second with history, an occurrence and index rows
+    const entry = { word: 'رَحْمَة', normalized: 'رحمه', transliteration: 'rahma', difficulty: 'beginner' as const, tags: [], source: 'corpus' as const };
+    const keptId = await db.add('vocabulary', { ...entry, translation: 'mercy' }) as number;
+    const duplicateId = await db.add('vocabulary', { ...entry, translation: 'compassion' }) as number;
+    const baseProgress = { incorrectCount: 0, easeFactor: 2.5, interval: 7, repetitions: 2, lapses: 0, cardState: 'review' as const, learningStep: 0 };
+    await db.put('progress', { ...baseProgress, wordId: keptId, correctCount: 1, lastReviewed: new Date('2024-01-01T00:00:00Z'), nextReview: new Date('2024-01-08T00:00:00Z') });
+    await db.put('progress', { ...baseProgress, wordId: duplicateId, correctCount: 2, lastReviewed: new Date('2024-03-01T00:00:00Z'), nextReview: new Date('2024-03-08T00:00:00Z') });
+    await db.add('reviewLog', { wordId: duplicateId, timestamp: new Date('2024-03-01T00:00:00Z'), grade: 4, previousInterval: 3, newInterval: 7, easeFactor: 2.5, source: 'popup' });
+    await db.put('occurrences', { location: '1:3:2', wordId: duplicateId, surah: 1, ayah: 3, position: 2, text: 'ٱلرَّحِيمِ', translation: 'the Most Merciful' });
+    await db.put('searchIndex', { term: 'compass', wordId: duplicateId, weight: 3 });
+
+    // Rows left behind by words that no longer exist
+    await db.put('progress', { ...baseProgress, wordId: 999, correctCount: 1, lastReviewed: new Date(), nextReview: new Date() });
+    await db.put('occurrences', { location: '2:1:1', wordId: 998, surah: 2, ayah: 1, position: 1, text: 'الٓمٓ', translation: 'Alif Lam Meem' });
+
+    const found = (await verifyDatabase(getDB)).issues.map(issue => `${issue.type}:${issue.key}`).sort().join();
+    const expected = ['duplicateNormalized:رحمه', 'orphanedProgress:999', 'orphanedReference:998'].join();
+    if (found !== expected) {
+      return {
+        name: 'Database Integrity - Verify',
+        passed: false,
+        message: `Expected ${expected}, found ${found}`
+      };
+    }
+
+    const { repaired, report } = await repairDatabase(getDB);
+    const merged = await db.get('progress', keptId);
+    const history = await db.getAll('reviewLog');
+    const occurrences = await db.getAll('occurrences');
+    if (repaired !== 3 || report.issues.length !== 0) {
+      return {
+        name: 'Database Integrity - Repair',
+        passed: false,
+        message: `Repaired ${repaired}, ${report.issues.length} issues left`
+      };
+    }
+    if ((await db.count('vocabulary')) !== 1 || merged?.correctCount !== 3 || (await db.get('progress', duplicateId))
+      || history[0]?.wordId !== keptId || occurrences.map(row => row.wordId).join() !== String(keptId)
+      || (await db.getAllFromIndex('searchIndex', 'wordId', duplicateId)).length !== 0) {
+      return {
+        name: 'Database Integrity - Merge',
+        passed: false,
+        message: "The duplicate's progress, history and occurrence should move onto the kept entry"
+      };
+    }
+    if (await db.get('progress', 999)) {
+      return {
+        name: 'Database Integrity - Orphans',
+        passed: false,
+        message: 'Progress for a missing word should be deleted'
+      };
+    }
+
+    return {
+      name: 'Database Integrity',
+      passed: true,
+      message: 'Found and repaired a duplicate lexeme and rows for missing words'
+    };
+  } catch (error) {
+    return {
+      name: 'Database Integrity',
+      passed: false,
+      message: `Error testing database integrity: ${error.message}`
+    };
+  } finally {
+    testDb?.close();
+    await deleteDB(testDbName);
+  }
+};
+
+/**
+ * Test snapshots: one is taken before a schema upgrade, restoring brings back progress,
+ * settings and custom words, and old snapshots are pruned per reason
+ */
+const testSnapshots = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  // Use a throwaway database so the learner's data is never touched
+  const testDbName = 'ArabicLearningDB-snapshot-test';
+  let testDb: IDBPDatabase<ArabicLearningDB> | null = null;
+
+  try {
+    // A database one version behind, with some progress, is snapshotted as it upgrades
+    await deleteDB(testDbName);
+    testDb = await openDatabase(testDbName, DB_VERSION - 1);
+    const mercyId = await testDb.add('vocabulary', { word: 'رَحْمَة', normalized: 'رحمه', transliteration: 'rahma', translation: 'mercy', difficulty: 'beginner', tags: [], source: 'corpus' }) as number;
+    const baseProgress = { wordId: mercyId, incorrectCount: 0, lastReviewed: new Date('2024-01-01T00:00:00Z'), nextReview: new Date('2024-01-08T00:00:00Z'), easeFactor: 2.5, interval: 7, repetitions: 2, lapses: 0, cardState: 'review' as const, learningStep: 0 };
+    await testDb.put('progress', { ...baseProgress, correctCount: 2 });
+    testDb.close();
+    testDb = await openDatabase(testDbName);
+    const db = testDb;
+    const getDB = async () => db;
+
+    const [migration] = await db.getAll('snapshots');
+    if (migration?.reason !== 'migration' || migration.schemaVersion !== DB_VERSION - 1 || migration.progress[0]?.correctCount !== 2) {
+      return {
+        name: 'Snapshots - Before Upgrade',
+        passed: false,
+        message: 'Upgrading should snapshot the data as it was at the old version'
+      };
+    }
+
+    // Snapshot with a custom word and settings, then change all of them
+    const custom = { word: 'قَلَم', normalized: 'قلم', transliteration: 'qalam', translation: 'pen', difficulty: 'beginner' as const, tags: ['custom'], source: 'custom' as const };
+    const penId = await db.add('vocabulary', custom) as number;
+    await db.put('settings', { id: 'dailyGoal', value: 15 });
+    await db.put('settings', { id: 'importCheckpoint', value: { datasetVersion: 1 } });
+    const snapshotId = await createSnapshot('manual', getDB);
+
+    await db.put('progress', { ...baseProgress, correctCount: 9 });
+    await db.put('settings', { id: 'dailyGoal', value: 40 });
+    await db.put('settings', { id: 'theme', value: 'dark' });
+    await db.put('settings', { id: 'importCheckpoint', value: { datasetVersion: 2 } });
+    await db.delete('vocabulary', penId);
+    await db.add('vocabulary', { ...custom, word: 'نُور', normalized: 'نور', translation: 'light' });
+
+    await restoreSnapshot(snapshotId, getDB);
+    const customWords = (await db.getAllFromIndex('vocabulary', 'source', 'custom')).map(item => `${item.id}:${item.translation}`).join();
+    const checkpoint = (await db.get('settings', 'importCheckpoint'))?.value;
+    if ((await db.get('progress', mercyId))?.correctCount !== 2 || customWords !== `${penId}:pen`) {
+      return {
+        name: 'Snapshots - Restore',
+        passed: false,
+        message: `Restoring should bring back the progress and custom words, got ${customWords}`
+      };
+    }
+    if ((await db.get('settings', 'dailyGoal'))?.value !== 15 || (await db.get('settings', 'theme')) || checkpoint?.datasetVersion !== 2) {
+      return {
+        name: 'Snapshots - Settings',
+        passed: false,
+        message: "Restoring should bring back the snapshot's settings and keep the import checkpoint"
+      };
+    }
+
+    // The restore itself was snapshotted first, and only the newest manual snapshots are kept
+    for (let i = 0; i < SNAPSHOT_RETENTION.manual + 2; i++) {
+      await createSnapshot('manual', getDB);
+    }
+    const reasons = (await db.getAll('snapshots')).map(snapshot => snapshot.reason);
+    const count = (reason: string) => reasons.filter(existing => existing === reason).length;
+    if (count('restore') !== 1 || count('manual') !== SNAPSHOT_RETENTION.manual || count('migration') !== 1) {
+      return {
+        name: 'Snapshots - Retention',
+        passed: false,
+        message: `Unexpected snapshots kept: ${reasons.join(', ')}`
+      };
+    }
+
+    return {
+      name: 'Snapshots',
+      passed: true,
+      message: 'Snapshotted an upgrade, restored progress, settings and custom words, and pruned old snapshots'
+    };
+  } catch (error) {
+    return {
+      name: 'Snapshots',
+      passed: false,
+      message: `Error testing snapshots: ${error.message}`
+    };
+  } finally {
+    testDb?.close();
+    await deleteDB(testDbName);
+  }
+};
+
+/**
+ * In-memory storage for the review session tests: one review due now, one word in its
+ * learning steps due in a few minutes, and unseen words with one new word allowed today
+ * @returns The repositories, already in use
+ */
+const useSessionTestRepositories = (): Repositories => {
+  const now = Date.now();
+  const day = 24 * 60 * 60 * 1000;
+  const baseProgress = { correctCount: 2, incorrectCount: 0, lastReviewed: new Date(now - 4 * day), easeFactor: 2.5, interval: 4, repetitions: 2, lapses: 0, learningStep: 0 };
+  const repositories = createInMemoryRepositories({
+    vocabulary: [
+      { id: 1, word: 'كِتَاب', transliteration: 'kitab', translation: 'book', difficulty: 'beginner', tags: [], frequency: 230 },
+      { id: 2, word: 'قَلَم', transliteration: 'qalam', translation: 'pen', difficulty: 'beginner', tags: [], frequency: 4 },
+      { id: 3, word: 'رَحْمَة', transliteration: 'rahma', translation: 'mercy', difficulty: 'beginner', tags: [], frequency: 114 },
+      { id: 4, word: 'نُور', transliteration: 'nur', translation: 'light', difficulty: 'beginner', tags: [], frequency: 43 },
+    ],
+    progress: [
+      { ...baseProgress, wordId: 1, cardState: 'review', nextReview: new Date(now - 1000) },
+      { ...baseProgress, wordId: 2, cardState: 'learning', nextReview: new Date(now + 5 * 60 * 1000) },
+    ],
+    settings: { newWordsPerDay: 1, dailyGoal: 20, newWordOrder: 'frequency', fuzzEnabled: false, loadBalancing: false },
+  });
+  setRepositories(repositories);
+  return repositories;
+};
+
+/**
+ * Test the review session engine: queue order, learning cards coming back, skipping and the summary
+ */
+const testReviewSession = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  let sessionId: string | null = null;
+
+  try {
+    useSessionTestRepositories();
+
+    // Learning cards first, then due reviews, then new words
+    let state = await startReviewSession({ source: 'popup' });
+    sessionId = state.id;
+    const order = [state.card?.wordId, state.card?.kind, state.remaining].join();
+    if (order !== '2,learning,3') {
+      return {
+        name: 'Review Session - Queue Order',
+        passed: false,
+        message: `Expected the learning card first of 3, got ${order}`
+      };
+    }
+
+    // A forgotten learning card comes back at the end of the session
+    state = await answerReviewCard(sessionId, 'again');
+    if (state.card?.wordId !== 1 || state.card.kind !== 'review' || state.remaining !== 3) {
+      return {
+        name: 'Review Session - Learning Steps',
+        passed: false,
+        message: 'A card still in its learning steps should be queued again'
+      };
+    }
+
+    // Skipping moves on without answering
+    state = await skipReviewCard(sessionId);
+    if (state.card?.wordId !== 3 || state.card.kind !== 'new' || state.summary.skipped !== 1) {
+      return {
+        name: 'Review Session - Skip',
+        passed: false,
+        message: 'Skipping should move on to the new word'
+      };
+    }
+
+    // Easy answers graduate every card, so the session runs out
+    for (let i = 0; i < 10 && !state.finished; i++) {
+      state = await answerReviewCard(sessionId, 'easy');
+    }
+    const { summary } = await endReviewSession(sessionId);
+    sessionId = null;
+    if (!state.finished || state.card !== null || summary.answered !== 3 || summary.correct !== 2 || summary.grades.again !== 1 || summary.newWords !== 1) {
+      return {
+        name: 'Review Session - Summary',
+        passed: false,
+        message: `Unexpected summary: ${JSON.stringify(summary)}`
+      };
+    }
+
+    return {
+      name: 'Review Session',
+      passed: true,
+      message: `Session of ${summary.answered} answers: learning, review and new cards in order, with repeats and skips`
+    };
+  } catch (error) {
+    return {
+      name: 'Review Session',
+      passed: false,
+      message: `Error testing review session: ${error.message}`
+    };
+  } finally {
+    if (sessionId) await endReviewSession(sessionId).catch(() => undefined);
+    resetRepositories();
+  }
+};
+
+/**
+ * Test undo: the answered card, the word's progress and the review log all go back
+ */
+const testReviewUndo = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  let sessionId: string | null = null;
+
+  try {
+    const repositories = useSessionTestRepositories();
+    let state = await startReviewSession({ source: 'popup' });
+    sessionId = state.id;
+    const before = JSON.stringify(await repositories.progress.get(2));
+
+    state = await answerReviewCard(sessionId, 'good');
+    if (!state.canUndo || (await repositories.reviewLog.getForWord(2)).length !== 1) {
+      return {
+        name: 'Review Undo - Answer',
+        passed: false,
+        message: 'The answer was not recorded or cannot be undone'
+      };
+    }
+
+    state = await undoReviewAnswer(sessionId);
+    if (state.card?.wordId !== 2 || state.remaining !== 3 || state.canUndo || state.summary.answered !== 0) {
+      return {
+        name: 'Review Undo - Queue',
+        passed: false,
+        message: 'Undo should show the answered card again with the queue and summary as they were'
+      };
+    }
+    if (JSON.stringify(await repositories.progress.get(2)) !== before || (await repositories.reviewLog.getForWord(2)).length !== 0) {
+      return {
+        name: 'Review Undo - Progress',
+        passed: false,
+        message: "Undo should restore the word's progress and remove its review log entry"
+      };
+    }
+
+    // Two answers sent together (a double click) answer two cards, one after the other
+    const [first, second] = await Promise.all([
+      answerReviewCard(sessionId, 'easy'),
+      answerReviewCard(sessionId, 'easy'),
+    ]);
+    const logged = [
+      (await repositories.reviewLog.getForWord(2)).length,
+      (await repositories.reviewLog.getForWord(1)).length,
+    ].join();
+    if (first.remaining !== 2 || second.remaining !== 1 || second.summary.answered !== 2 || logged !== '1,1') {
+      return {
+        name: 'Review Undo - Concurrent Answers',
+        passed: false,
+        message: `Answers at the same time should each answer their own card, got ${logged} log entries`
+      };
+    }
+
+    return {
+      name: 'Review Undo',
+      passed: true,
+      message: 'Undo restored the queue, the progress row and the review log; concurrent answers stay in order'
+    };
+  } catch (error) {
+    return {
+      name: 'Review Undo',
+      passed: false,
+      message: `Error testing review undo: ${error.message}`
+    };
+  } finally {
+    if (sessionId) await endReviewSession(sessionId).catch(() => undefined);
+    resetRepositories();
+  }
+};
+
+/**
+ * Test the workload forecast, which also plays out scheduler changes over months
+ */
+const testWorkloadForecast = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  try {
+    const now = new Date();
+    const cards: SimulationCard[] = Array.from({ length: 50 }, (_, index) => ({
+      easeFactor: 2.5,
+      interval: 1 + index % 20,
+      repetitions: 3,
+      lapses: 0,
+      cardState: 'review',
+      lastReviewed: new Date(now.getTime() - (index % 20) * 24 * 60 * 60 * 1000),
+      nextReview: new Date(now.getTime() + (index % 10) * 24 * 60 * 60 * 1000),
+    }));
+    const options = { days: 60, newWordsPerDay: 5, dailyGoal: 20, newWordPool: 100, now };
+    const summaries: string[] = [];
+
+    for (const name of ['sm2', 'fsrs'] as SchedulerName[]) {
+      const scheduler = withLearningSteps(getScheduler(name), DEFAULT_LEARNING_STEP_OPTIONS);
+      const total = (days: { reviews: number }[]) => days.reduce((sum, day) => sum + day.reviews, 0);
+
+      // One entry per day, and more new words mean more reviews later
+      const expected = simulateWorkload(cards, scheduler, options);
+      const withoutNewWords = simulateWorkload(cards, scheduler, { ...options, newWordsPerDay: 0 });
+      if (expected.length !== options.days || total(expected) < total(withoutNewWords)) {
+        return {
+          name: `Workload Forecast - ${name} Expected`,
+          passed: false,
+          message: 'The forecast should cover every day and grow with new words'
+        };
+      }
+
+      // The same seed gives the same simulation, and forgotten words come back sooner
+      const firstRun = simulateWorkload(cards, scheduler, { ...options, random: createRandom(7) });
+      const repeatRun = simulateWorkload(cards, scheduler, { ...options, random: createRandom(7) });
+      if (JSON.stringify(firstRun) !== JSON.stringify(repeatRun) || total(firstRun) < total(expected)) {
+        return {
+          name: `Workload Forecast - ${name} Simulation`,
+          passed: false,
+          message: 'Simulations should repeat with a seed and add reviews for forgotten words'
+        };
+      }
+
+      const runs = [1, 2, 3, 4, 5].map(seed => simulateWorkload(cards, scheduler, { ...options, random: createRandom(seed) }));
+      const summary = summarizeRuns(runs);
+      if (summary.some(day => day.low > day.reviews || day.reviews > day.high)) {
+        return {
+          name: `Workload Forecast - ${name} Range`,
+          passed: false,
+          message: 'The simulated average should fall within its range'
+        };
+      }
+
+      summaries.push(`${name}: ${total(expected)} expected, ${Math.round(total(summary))} simulated reviews`);
+    }
+
+    return {
+      name: 'Workload Forecast',
+      passed: true,
+      message: `Forecast ${options.days} days: ${summaries.join('; ')}`
+    };
+  } catch (error) {
+    return {
+      name: 'Workload Forecast',
+      passed: false,
+      message: `Error testing workload forecast: ${error.message}`
+    };
+  }
+};
+
+/**
+ * Test reading Anki text files and carrying scheduling between Anki cards and progress
+ */
+const testAnki = async (): Promise<{ name: string; passed: boolean; message?: string }> => {
+  try {
+    // Values with separators, quotes and line breaks survive quoting and parsing
+    const rows = [['كِتَاب', 'book, volume', 'He said "read"'], ['قَلَم', 'pen\nquill', '']];
+    for (const separator of [',', '\t']) {
+      const text = rows.map(row => row.map(value => quoteDelimited(value, separator)).join(separator)).join('\r\n');
+      if (JSON.stringify(parseDelimited(text, separator)) !== JSON.stringify(rows)) {
+        return {
+          name: 'Anki - Delimited Text',
+          passed: false,
+          message: `Rows should survive quoting with ${JSON.stringify(separator)}: ${JSON.stringify(parseDelimited(text, separator))}`
+        };
+      }
+    }
+
+    // Anki's header lines name the separator, columns and tags column; fields lose their HTML
+    const deck = readAnkiText('#separator:semicolon\n#columns:Front;Back;Tags\n#tags column:3\nكِتَاب;<b>book</b><br>volume;noun common\n');
+    if (
+      JSON.stringify(deck.fieldNames) !== '["Front","Back"]'
+      || JSON.stringify(deck.notes) !== JSON.stringify([{ fields: ['كِتَاب', 'book\nvolume'], tags: ['noun', 'common'] }])
+    ) {
+      return {
+        name: 'Anki - Text File',
+        passed: false,
+        message: `Unexpected deck: ${JSON.stringify(deck)}`
+      };
+    }
+
+    // New and learning cards start fresh; review cards keep their schedule
+    const crt = new Date(2024, 0, 1).getTime();
+    if (toProgress([0, 5, 0, 0, 0, 0], crt / 1000) || toProgress([1, 5, 0, 2500, 1, 0], crt / 1000)) {
+      return {
+        name: 'Anki - Card Types',
+        passed: false,
+        message: 'New and learning cards should not carry scheduling'
+      };
+    }
+    const relearning = toProgress([3, 40, 1, 2100, 12, 3], crt / 1000);
+    if (!relearning || relearning.repetitions !== 0 || relearning.lapses !== 3 || relearning.cardState !== 'review') {
+      return {
+        name: 'Anki - Card Types',
+        passed: false,
+        message: `A relearning card should join reviews with its run reset: ${JSON.stringify(relearning)}`
+      };
+    }
+
+    // Exporting a reviewed word and importing the card gives back its schedule
+    const dayMs = 24 * 60 * 60 * 1000;
+    const progress = {
+      wordId: 1,
+      correctCount: 7,
+      incorrectCount: 2,
+      lastReviewed: new Date(crt + 30 * dayMs),
+      nextReview: new Date(crt + 42 * dayMs),
+      easeFactor: 2.3,
+      interval: 12,
+      repetitions: 4,
+      lapses: 2,
+      cardState: 'review' as const,
+      learningStep: 0,
+    };
+    const [type, , due, ivl, factor, reps, lapses] = toAnkiScheduling(progress, crt, 1);
+    const imported = toProgress([type, due, ivl, factor, reps, lapses], crt / 1000);
+    if (
+      !imported
+      || imported.nextReview.getTime() !== progress.nextReview.getTime()
+      || imported.lastReviewed.getTime() !== progress.lastReviewed.getTime()
+      || imported.interval !== progress.interval
+      || imported.easeFactor !== progress.easeFactor
+      || imported.correctCount !== progress.correctCount
+      || imported.incorrectCount !== progress.incorrectCount
+    ) {
+      return {
+        name: 'Anki - Scheduling Round Trip',
+        passed: false,
+        message: `Expected the exported schedule back, got ${JSON.stringify(imported)}`
+      };
+    }
+
+    // Words saved but never reviewed export as new cards, in order
+    const unreviewed = toAnkiScheduling({ ...progress, lastReviewed: new Date(0) }, crt, 3);
+    if (JSON.stringify(unreviewed) !== '[0,0,3,0,0,0,0]') {
+      return {
+        name: 'Anki - New Cards',
+        passed: false,
+        message: `Unreviewed words should export as new cards: ${JSON.stringify(unreviewed)}`
+      };
+    }
+
+    return {
+      name: 'Anki',
+      passed: true,
+      message: 'Text files parse with their headers, and review schedules survive export and import'
+    };
+  } catch (error) {
+    return {
+      name: 'Anki',
+      passed: false,
+      message: `Error testing Anki import and export: ${error.message}`
+    };
+  }
+};
+
 /**
  * Test extension on a specific website
  * @param url Website URL to test
@@ -1,5 +1,6 @@
 // Text analysis utility for the Arabic Learning Extension
 import { getVocabularyByTag } from './database';
+import { normalizeArabic } from './arabicNormalization';
 
 // Define interfaces
 interface AnalysisResult {
@@ -29,6 +30,9 @@ const ARABIC_STOP_WORDS = [
   'أنا', 'أنت', 'أنتم', 'نحن', 'كان', 'كانت', 'كانوا', 'يكون'
 ];
 
+// Stop words in the same normalized form as the words they're compared with
+const NORMALIZED_STOP_WORDS = ARABIC_STOP_WORDS.map(normalizeArabic);
+
 /**
  * Analyzes page content to find relevant Arabic vocabulary
  * @param content The text content of the page
@@ -45,10 +49,10 @@ export const analyzePageContent = async (content: string, maxResults = 10): Prom
     
     arabicWordsMatches.forEach(word => {
       // Normalize the word (remove diacritics, convert to lowercase)
-      const normalizedWord = normalizeArabicWord(word);
+      const normalizedWord = normalizeArabic(word);
       
       // Skip stop words and very short words
-      if (ARABIC_STOP_WORDS.includes(normalizedWord) || normalizedWord.length < 2) {
+      if (NORMALIZED_STOP_WORDS.includes(normalizedWord) || normalizedWord.length < 2) {
         return;
       }
       
@@ -83,25 +87,14 @@ export const analyzePageContent = async (content: string, maxResults = 10): Prom
   }
 };
 
-/**
- * Normalizes an Arabic word by removing diacritics and converting to a standard form
- * @param word The Arabic word to normalize
- * @returns Normalized word
- */
-const normalizeArabicWord = (word: string): string => {
-  // Remove Arabic diacritics (tashkeel)
-  return word
-    .replace(/[\u064B-\u065F\u0670]/g, '') // Remove diacritics
-    .replace(/\s+/g, '')                   // Remove whitespace
-    .trim();
-};
-
 /**
  * Checks if text contains Arabic characters
  * @param text The text to check
  * @returns Boolean indicating if text contains Arabic
  */
 export const containsArabic = (text: string): boolean => {
+  // The regex is global, so test() would otherwise resume from the previous match
+  ARABIC_REGEX.lastIndex = 0;
   return ARABIC_REGEX.test(text);
 };
 
@@ -0,0 +1,325 @@
+// Arabic-to-Latin transliteration for the Arabic Learning Extension
+// Works on fully vowelled Uthmani text; unvowelled text gets a best-effort reading.
+
+export type TransliterationScheme = 'simple' | 'academic' | 'chat';
+
+export const DEFAULT_TRANSLITERATION_SCHEME: TransliterationScheme = 'simple';
+
+// Letters
+const HAMZA = '\u0621';
+const ALEF_MADDA = '\u0622';
+const ALEF_HAMZA_ABOVE = '\u0623';
+const WAW_HAMZA = '\u0624';
+const ALEF_HAMZA_BELOW = '\u0625';
+const YEH_HAMZA = '\u0626';
+const ALEF = '\u0627';
+const TEH_MARBUTA = '\u0629';
+const LAM = '\u0644';
+const NOON = '\u0646';
+const WAW = '\u0648';
+const ALEF_MAQSURA = '\u0649';
+const YEH = '\u064A';
+const TATWEEL = '\u0640';
+const ALEF_WASLA = '\u0671';
+const SMALL_WAW = '\u06E5';
+const SMALL_YEH = '\u06E6';
+
+// Marks
+const FATHATAN = '\u064B';
+const DAMMATAN = '\u064C';
+const KASRATAN = '\u064D';
+const FATHA = '\u064E';
+const DAMMA = '\u064F';
+const KASRA = '\u0650';
+const SHADDA = '\u0651';
+const SUKUN = '\u0652';
+const DAGGER_ALEF = '\u0670';
+const SMALL_HIGH_ROUNDED_ZERO = '\u06DF'; // Letter is not pronounced
+const SMALL_HIGH_MEEM = '\u06E2'; // Iqlab: noon pronounced as meem
+const QURANIC_SUKUN = '\u06E1';
+
+// Combining marks that attach to the preceding letter
+const MARK_REGEX = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06E4\u06E7\u06E8\u06EA-\u06ED]/;
+
+const HAMZA_LETTERS = [HAMZA, ALEF_HAMZA_ABOVE, ALEF_HAMZA_BELOW, WAW_HAMZA, YEH_HAMZA];
+
+// Letters the definite article assimilates to
+const SUN_LETTERS = ['\u062A', '\u062B', '\u062F', '\u0630', '\u0631', '\u0632', '\u0633', '\u0634', '\u0635', '\u0636', '\u0637', '\u0638', LAM, NOON];
+
+interface SchemeTable {
+  consonants: Record<string, string>;
+  hamza: string;
+  longA: string;
+  longI: string;
+  longU: string;
+}
+
+// Consonants shared by every scheme
+const BASE_CONSONANTS: Record<string, string> = {
+  '\u0628': 'b', '\u062A': 't', '\u062B': 'th', '\u062C': 'j', '\u062F': 'd', '\u0630': 'dh',
+  '\u0631': 'r', '\u0632': 'z', '\u0633': 's', '\u0634': 'sh', '\u063A': 'gh', '\u0641': 'f',
+  '\u0642': 'q', '\u0643': 'k', '\u0644': 'l', '\u0645': 'm', '\u0646': 'n', '\u0647': 'h',
+  '\u0648': 'w', '\u064A': 'y', '\u062E': 'kh',
+};
+
+const SCHEMES: Record<TransliterationScheme, SchemeTable> = {
+  simple: {
+    consonants: {
+      ...BASE_CONSONANTS,
+      '\u062D': 'h', '\u0635': 's', '\u0636': 'd', '\u0637': 't', '\u0638': 'z', '\u0639': "'",
+    },
+    hamza: "'",
+    longA: 'a',
+    longI: 'i',
+    longU: 'u',
+  },
+  academic: {
+    consonants: {
+      ...BASE_CONSONANTS,
+      '\u062D': 'ḥ', '\u0635': 'ṣ', '\u0636': 'ḍ', '\u0637': 'ṭ', '\u0638': 'ẓ', '\u0639': 'ʿ',
+    },
+    hamza: 'ʾ',
+    longA: 'ā',
+    longI: 'ī',
+    longU: 'ū',
+  },
+  chat: {
+    consonants: {
+      ...BASE_CONSONANTS,
+      '\u062D': '7', '\u0635': 's', '\u0636': 'd', '\u0637': '6', '\u0638': 'z', '\u0639': '3',
+    },
+    hamza: '2',
+    longA: 'aa',
+    longI: 'ee',
+    longU: 'oo',
+  },
+};
+
+interface Cluster {
+  base: string;
+  marks: Set<string>;
+}
+
+/**
+ * Split a word into letters with their attached marks
+ * @param word The Arabic word
+ * @returns Letter clusters
+ */
+const toClusters = (word: string): Cluster[] => {
+  const clusters: Cluster[] = [];
+
+  for (const char of word.normalize('NFC')) {
+    if (MARK_REGEX.test(char) && clusters.length > 0) {
+      clusters[clusters.length - 1].marks.add(char);
+    } else {
+      clusters.push({ base: char, marks: new Set() });
+    }
+  }
+
+  return clusters;
+};
+
+/**
+ * Whether a cluster carries a vowel, tanween, sukun or shadda
+ * @param cluster The cluster to check
+ * @returns True if the letter is voweled or doubled
+ */
+const isVoweled = (cluster: Cluster): boolean => {
+  return [FATHA, KASRA, DAMMA, FATHATAN, KASRATAN, DAMMATAN, SUKUN, QURANIC_SUKUN, SHADDA, DAGGER_ALEF]
+    .some(mark => cluster.marks.has(mark));
+};
+
+/**
+ * Whether a cluster is a bare long-vowel carrier for the given short vowel
+ * @param cluster The following cluster
+ * @param vowel The short vowel before it
+ * @returns True if the cluster lengthens the vowel
+ */
+const lengthens = (cluster: Cluster | undefined, vowel: 'a' | 'i' | 'u'): boolean => {
+  if (!cluster) return false;
+  // Alef maqsura carrying a dagger alef (عَلَىٰ) spells the same long a
+  if (vowel === 'a' && cluster.base === ALEF_MAQSURA && cluster.marks.has(DAGGER_ALEF)) return true;
+  if (isVoweled(cluster)) return false;
+  switch (vowel) {
+    case 'a':
+      // Mid-word alef madda after a fatha is a long alef with a madd sign
+      return cluster.base === ALEF || cluster.base === ALEF_MAQSURA || cluster.base === ALEF_MADDA;
+    case 'i':
+      // Uthmani script writes a final long i as alef maqsura (فِى)
+      return cluster.base === YEH || cluster.base === SMALL_YEH || cluster.base === ALEF_MAQSURA;
+    case 'u':
+      return cluster.base === WAW || cluster.base === SMALL_WAW;
+  }
+};
+
+/**
+ * Transliterate a single word
+ * @param word The Arabic word
+ * @param table The scheme's letter table
+ * @returns Latin transliteration
+ */
+const transliterateWord = (word: string, table: SchemeTable): string => {
+  const clusters = toClusters(word);
+  let result = '';
+  let skipShaddaAt = -1;
+
+  for (let i = 0; i < clusters.length; i++) {
+    const cluster = clusters[i];
+    const { base, marks } = cluster;
+    const next = clusters[i + 1];
+
+    // Letters marked as silent in the Uthmani script
+    if (marks.has(SMALL_HIGH_ROUNDED_ZERO)) continue;
+
+    // Relative pronouns and lam-initial nouns (ٱلَّذِينَ, ٱلَّيْلِ) write the article's lam once, with a shadda
+    if (base === ALEF_WASLA && next && next.base === LAM && next.marks.has(SHADDA)) {
+      if (i === 0) result += 'a';
+      continue;
+    }
+
+    // Definite article: al- before moon letters, assimilated before sun letters
+    const isArticleAlef = base === ALEF_WASLA || (base === ALEF && i === 0 && !isVoweled(cluster));
+    const isArticleLam = next && next.base === LAM
+      && ![FATHA, KASRA, DAMMA, SHADDA].some(mark => next.marks.has(mark));
+    if (isArticleAlef && isArticleLam && clusters[i + 2]) {
+      const target = clusters[i + 2];
+      if (i === 0) result += 'a';
+      if (target.base === LAM) {
+        // Allah and other lam-initial nouns: the doubled lam carries on as written
+      } else if (SUN_LETTERS.includes(target.base)) {
+        result += `${table.consonants[target.base]}-`;
+        skipShaddaAt = i + 2;
+      } else {
+        result += 'l-';
+      }
+      i += 1; // Skip the article's lam
+      continue;
+    }
+
+    // Consonant
+    let consonant: string;
+    if (base === ALEF_WASLA) {
+      // Elided mid-word; a word-initial wasla is read with i
+      consonant = '';
+      if (i === 0 && !isVoweled(cluster)) {
+        result += 'i';
+      }
+    } else if (HAMZA_LETTERS.includes(base)) {
+      // Word-initial hamza isn't written
+      consonant = i === 0 ? '' : table.hamza;
+    } else if (base === ALEF_MADDA) {
+      result += (i === 0 ? '' : table.hamza) + table.longA;
+      continue;
+    } else if (base === TEH_MARBUTA) {
+      consonant = [FATHA, KASRA, DAMMA, FATHATAN, KASRATAN, DAMMATAN].some(mark => marks.has(mark)) ? 't' : 'h';
+    } else if (base === ALEF_MAQSURA && [SUKUN, QURANIC_SUKUN, SHADDA, FATHA, KASRA, DAMMA].some(mark => marks.has(mark))) {
+      // Uthmani script also writes the consonant ya without dots (شَىْءٍ)
+      consonant = table.consonants[YEH];
+    } else if (base === ALEF || base === ALEF_MAQSURA) {
+      // A long a not consumed by a preceding fatha
+      result += marks.has(DAGGER_ALEF) || !isVoweled(cluster) ? table.longA : '';
+      continue;
+    } else if (base === SMALL_WAW) {
+      result += table.longU;
+      continue;
+    } else if (base === SMALL_YEH) {
+      result += table.longI;
+      continue;
+    } else if (base === TATWEEL) {
+      consonant = '';
+    } else if (base === NOON && marks.has(SMALL_HIGH_MEEM)) {
+      consonant = 'm';
+    } else if (table.consonants[base] !== undefined) {
+      consonant = table.consonants[base];
+    } else {
+      // Not an Arabic letter: pass it through
+      result += base;
+      continue;
+    }
+
+    // A word-initial shadda marks assimilation across words, not a doubled letter
+    if (marks.has(SHADDA) && i !== skipShaddaAt && i > 0) {
+      consonant += consonant;
+    }
+    result += consonant;
+
+    // Vowel
+    if (marks.has(DAGGER_ALEF)) {
+      result += table.longA;
+    } else if (marks.has(FATHA)) {
+      if (lengthens(next, 'a')) {
+        result += table.longA;
+        i += 1;
+      } else {
+        result += 'a';
+      }
+    } else if (marks.has(KASRA)) {
+      if (lengthens(next, 'i')) {
+        result += table.longI;
+        i += 1;
+      } else {
+        result += 'i';
+      }
+    } else if (marks.has(DAMMA)) {
+      if (lengthens(next, 'u')) {
+        result += table.longU;
+        i += 1;
+      } else {
+        result += 'u';
+      }
+    } else if (marks.has(FATHATAN)) {
+      result += 'an';
+      // The alef or alef maqsura carrying fathatan is silent
+      if (lengthens(next, 'a')) i += 1;
+    } else if (marks.has(KASRATAN)) {
+      result += 'in';
+    } else if (marks.has(DAMMATAN)) {
+      result += 'un';
+    } else if (base === ALEF_HAMZA_ABOVE && !marks.has(SUKUN) && !marks.has(QURANIC_SUKUN)) {
+      result += 'a';
+    } else if (base === ALEF_HAMZA_BELOW) {
+      result += 'i';
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Transliterate Arabic text into Latin script.
+ * Handles shadda, sukun, tanween, hamza seats, long vowels and the
+ * assimilation of the definite article before sun letters.
+ * @param text Vowelled Arabic text (one or more words)
+ * @param scheme Transliteration scheme
+ * @returns Latin transliteration
+ */
+export const transliterate = (
+  text: string,
+  scheme: TransliterationScheme = DEFAULT_TRANSLITERATION_SCHEME
+): string => {
+  const table = SCHEMES[scheme] || SCHEMES[DEFAULT_TRANSLITERATION_SCHEME];
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map(word => transliterateWord(word, table))
+    .filter(Boolean)
+    .join(' ');
+};
+
+/**
+ * Get an entry's transliteration in the requested scheme, reusing the stored
+ * one when it was generated with that scheme
+ * @param item Entry with its Arabic word and stored transliteration
+ * @param scheme Transliteration scheme
+ * @returns Latin transliteration
+ */
+export const getTransliteration = (
+  item: { word: string; transliteration?: string },
+  scheme: TransliterationScheme = DEFAULT_TRANSLITERATION_SCHEME
+): string => {
+  if (scheme === DEFAULT_TRANSLITERATION_SCHEME && item.transliteration) {
+    return item.transliteration;
+  }
+  return transliterate(item.word, scheme);
+};
@@ -1,26 +1,69 @@
 // User settings management for the Arabic Learning Browser Extension
-import { getSetting, updateSetting } from './database';
+import { getRepositories } from './repositories';
+import { TransliterationScheme, DEFAULT_TRANSLITERATION_SCHEME } from './transliteration';
+import { GlossLanguage, DEFAULT_GLOSS_LANGUAGE } from './glosses';
+import { SchedulerName, DEFAULT_SCHEDULER, DEFAULT_DESIRED_RETENTION } from './scheduler';
+import { DEFAULT_LEARNING_STEP_OPTIONS } from './learningSteps';
+import { NewWordOrder, DEFAULT_NEW_WORDS_PER_DAY, DEFAULT_NEW_WORD_ORDER } from './newWords';
+import { LeechAction, DEFAULT_LEECH_THRESHOLD, DEFAULT_LEECH_ACTION } from './leeches';
+import { DEFAULT_LOAD_BALANCING_OPTIONS } from './loadBalancer';
+import { DEFAULT_BURY_SIBLINGS } from './siblings';
+import { VocabularySource } from './database';
+import { createBackup, serializeBackup, parseBackup, importBackup, ImportOptions, ImportReport } from './backup';
 
 // Define interfaces
 export interface UserSettings {
   dailyGoal: number;
+  newWordsPerDay: number;
+  newWordOrder: NewWordOrder;
+  newWordTag: string; // Tag new words are drawn from when newWordOrder is 'tag'
+  burySiblings: Record<VocabularySource, boolean>; // Per deck: hold back words sharing a root with one reviewed today
   notificationsEnabled: boolean;
   theme: 'light' | 'dark' | 'auto';
   showSidebar: boolean;
   hoverTranslationEnabled: boolean;
   autoPlayAudio: boolean;
   difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
+  transliterationScheme: TransliterationScheme;
+  glossLanguage: GlossLanguage;
+  glossFallbackLanguages: GlossLanguage[]; // Tried in order when a word has no gloss in glossLanguage
+  scheduler: SchedulerName;
+  desiredRetention: number; // FSRS only: share of reviews to get right
+  learningSteps: number[]; // Minutes
+  relearningSteps: number[]; // Minutes
+  graduatingInterval: number; // Days
+  easyInterval: number; // Days
+  fuzzEnabled: boolean; // Spread review due dates a little around their interval
+  loadBalancing: boolean; // Fuzz towards the least busy day
+  maxReviewsPerDay: number; // 0 for no cap
+  leechThreshold: number; // Lapses that make a word a leech; 0 turns leech handling off
+  leechAction: LeechAction;
 }
 
 // Default settings
 const DEFAULT_SETTINGS: UserSettings = {
   dailyGoal: 10,
+  newWordsPerDay: DEFAULT_NEW_WORDS_PER_DAY,
+  newWordOrder: DEFAULT_NEW_WORD_ORDER,
+  newWordTag: '',
+  burySiblings: DEFAULT_BURY_SIBLINGS,
   notificationsEnabled: true,
   theme: 'auto',
   showSidebar: true,
   hoverTranslationEnabled: true,
   autoPlayAudio: false,
-  difficultyLevel: 'beginner'
+  difficultyLevel: 'beginner',
+  transliterationScheme: DEFAULT_TRANSLITERATION_SCHEME,
+  glossLanguage: DEFAULT_GLOSS_LANGUAGE,
+  glossFallbackLanguages: [],
+  scheduler: DEFAULT_SCHEDULER,
+  desiredRetention: DEFAULT_DESIRED_RETENTION,
+  ...DEFAULT_LEARNING_STEP_OPTIONS,
+  fuzzEnabled: DEFAULT_LOAD_BALANCING_OPTIONS.fuzz,
+  loadBalancing: DEFAULT_LOAD_BALANCING_OPTIONS.loadBalancing,
+  maxReviewsPerDay: DEFAULT_LOAD_BALANCING_OPTIONS.maxReviewsPerDay,
+  leechThreshold: DEFAULT_LEECH_THRESHOLD,
+  leechAction: DEFAULT_LEECH_ACTION
 };
 
 /**
@@ -29,23 +72,61 @@ const DEFAULT_SETTINGS: UserSettings = {
  */
 export const loadUserSettings = async (): Promise<UserSettings> => {
   try {
+    const settingsRepository = getRepositories().settings;
+    
     // Get settings from database or use defaults
-    const dailyGoal = await getSetting('dailyGoal') ?? DEFAULT_SETTINGS.dailyGoal;
-    const notificationsEnabled = await getSetting('notificationsEnabled') ?? DEFAULT_SETTINGS.notificationsEnabled;
-    const theme = await getSetting('theme') ?? DEFAULT_SETTINGS.theme;
-    const showSidebar = await getSetting('showSidebar') ?? DEFAULT_SETTINGS.showSidebar;
-    const hoverTranslationEnabled = await getSetting('hoverTranslationEnabled') ?? DEFAULT_SETTINGS.hoverTranslationEnabled;
-    const autoPlayAudio = await getSetting('autoPlayAudio') ?? DEFAULT_SETTINGS.autoPlayAudio;
-    const difficultyLevel = await getSetting('difficultyLevel') ?? DEFAULT_SETTINGS.difficultyLevel;
+    const dailyGoal = await settingsRepository.get('dailyGoal') ?? DEFAULT_SETTINGS.dailyGoal;
+    const newWordsPerDay = await settingsRepository.get('newWordsPerDay') ?? DEFAULT_SETTINGS.newWordsPerDay;
+    const newWordOrder = await settingsRepository.get('newWordOrder') ?? DEFAULT_SETTINGS.newWordOrder;
+    const newWordTag = await settingsRepository.get('newWordTag') ?? DEFAULT_SETTINGS.newWordTag;
+    const burySiblings = { ...DEFAULT_SETTINGS.burySiblings, ...await settingsRepository.get('burySiblings') };
+    const notificationsEnabled = await settingsRepository.get('notificationsEnabled') ?? DEFAULT_SETTINGS.notificationsEnabled;
+    const theme = await settingsRepository.get('theme') ?? DEFAULT_SETTINGS.theme;
+    const showSidebar = await settingsRepository.get('showSidebar') ?? DEFAULT_SETTINGS.showSidebar;
+    const hoverTranslationEnabled = await settingsRepository.get('hoverTranslationEnabled') ?? DEFAULT_SETTINGS.hoverTranslationEnabled;
+    const autoPlayAudio = await settingsRepository.get('autoPlayAudio') ?? DEFAULT_SETTINGS.autoPlayAudio;
+    const difficultyLevel = await settingsRepository.get('difficultyLevel') ?? DEFAULT_SETTINGS.difficultyLevel;
+    const transliterationScheme = await settingsRepository.get('transliterationScheme') ?? DEFAULT_SETTINGS.transliterationScheme;
+    const glossLanguage = await settingsRepository.get('glossLanguage') ?? DEFAULT_SETTINGS.glossLanguage;
+    const glossFallbackLanguages = await settingsRepository.get('glossFallbackLanguages') ?? DEFAULT_SETTINGS.glossFallbackLanguages;
+    const scheduler = await settingsRepository.get('scheduler') ?? DEFAULT_SETTINGS.scheduler;
+    const desiredRetention = await settingsRepository.get('desiredRetention') ?? DEFAULT_SETTINGS.desiredRetention;
+    const learningSteps = await settingsRepository.get('learningSteps') ?? DEFAULT_SETTINGS.learningSteps;
+    const relearningSteps = await settingsRepository.get('relearningSteps') ?? DEFAULT_SETTINGS.relearningSteps;
+    const graduatingInterval = await settingsRepository.get('graduatingInterval') ?? DEFAULT_SETTINGS.graduatingInterval;
+    const easyInterval = await settingsRepository.get('easyInterval') ?? DEFAULT_SETTINGS.easyInterval;
+    const fuzzEnabled = await settingsRepository.get('fuzzEnabled') ?? DEFAULT_SETTINGS.fuzzEnabled;
+    const loadBalancing = await settingsRepository.get('loadBalancing') ?? DEFAULT_SETTINGS.loadBalancing;
+    const maxReviewsPerDay = await settingsRepository.get('maxReviewsPerDay') ?? DEFAULT_SETTINGS.maxReviewsPerDay;
+    const leechThreshold = await settingsRepository.get('leechThreshold') ?? DEFAULT_SETTINGS.leechThreshold;
+    const leechAction = await settingsRepository.get('leechAction') ?? DEFAULT_SETTINGS.leechAction;
     
     return {
       dailyGoal,
+      newWordsPerDay,
+      newWordOrder: newWordOrder as NewWordOrder,
+      newWordTag,
+      burySiblings,
       notificationsEnabled,
       theme: theme as 'light' | 'dark' | 'auto',
       showSidebar,
       hoverTranslationEnabled,
       autoPlayAudio,
-      difficultyLevel: difficultyLevel as 'beginner' | 'intermediate' | 'advanced'
+      difficultyLevel: difficultyLevel as 'beginner' | 'intermediate' | 'advanced',
+      transliterationScheme: transliterationScheme as TransliterationScheme,
+      glossLanguage: glossLanguage as GlossLanguage,
+      glossFallbackLanguages,
+      scheduler: scheduler as SchedulerName,
+      desiredRetention,
+      learningSteps,
+      relearningSteps,
+      graduatingInterval,
+      easyInterval,
+      fuzzEnabled,
+      loadBalancing,
+      maxReviewsPerDay,
+      leechThreshold,
+      leechAction: leechAction as LeechAction
     };
   } catch (error) {
     console.error('Error loading user settings:', error);
@@ -60,9 +141,11 @@ export const loadUserSettings = async (): Promise<UserSettings> => {
  */
 export const saveUserSettings = async (settings: Partial<UserSettings>): Promise<boolean> => {
   try {
+    const settingsRepository = getRepositories().settings;
+    
     // Save each setting to the database
     for (const [key, value] of Object.entries(settings)) {
-      await updateSetting(key, value);
+      await settingsRepository.set(key, value);
     }
     
     // Apply theme if it's included in the settings
@@ -122,32 +205,13 @@ export const resetSettings = async (): Promise<boolean> => {
 };
 
 /**
- * Export user data (settings and progress)
- * @returns Promise with user data as JSON string
+ * Export user data (settings, progress, review history and custom words)
+ * @param gzip Whether to compress the file (default: false)
+ * @returns Promise with the backup file
  */
-export const exportUserData = async (): Promise<string> => {
+export const exportUserData = async (gzip = false): Promise<Blob> => {
   try {
-    // Get settings
-    const settings = await loadUserSettings();
-    
-    // Get progress data (simplified for MVP)
-    const progressData = {
-      learnedWords: await getSetting('learnedWordsCount') || 0,
-      reviewsTotal: await getSetting('reviewsTotal') || 0,
-      correctAnswers: await getSetting('correctAnswers') || 0,
-      incorrectAnswers: await getSetting('incorrectAnswers') || 0,
-      streak: await getSetting('streak') || 0,
-      progressHistory: await getSetting('progressHistory') || []
-    };
-    
-    // Combine data
-    const userData = {
-      settings,
-      progress: progressData,
-      exportDate: new Date().toISOString()
-    };
-    
-    return JSON.stringify(userData, null, 2);
+    return await serializeBackup(await createBackup(), gzip);
   } catch (error) {
     console.error('Error exporting user data:', error);
     throw error;
@@ -155,46 +219,16 @@ export const exportUserData = async (): Promise<string> => {
 };
 
 /**
- * Import user data
- * @param jsonData User data as JSON string
- * @returns Promise indicating success
+ * Import user data from a backup file or an export made by an older version
+ * @param data The file contents, plain or gzipped
+ * @param options Replace or merge, and whether this is a dry run
+ * @returns Promise with a report of what changed (or would change)
  */
-export const importUserData = async (jsonData: string): Promise<boolean> => {
+export const importUserData = async (data: string | Blob, options: ImportOptions = {}): Promise<ImportReport> => {
   try {
-    // Parse JSON data
-    const userData = JSON.parse(jsonData);
-    
-    // Validate data structure
-    if (!userData.settings || !userData.progress) {
-      throw new Error('Invalid user data format');
-    }
-    
-    // Import settings
-    await saveUserSettings(userData.settings);
-    
-    // Import progress data
-    if (userData.progress.learnedWords) {
-      await updateSetting('learnedWordsCount', userData.progress.learnedWords);
-    }
-    if (userData.progress.reviewsTotal) {
-      await updateSetting('reviewsTotal', userData.progress.reviewsTotal);
-    }
-    if (userData.progress.correctAnswers) {
-      await updateSetting('correctAnswers', userData.progress.correctAnswers);
-    }
-    if (userData.progress.incorrectAnswers) {
-      await updateSetting('incorrectAnswers', userData.progress.incorrectAnswers);
-    }
-    if (userData.progress.streak) {
-      await updateSetting('streak', userData.progress.streak);
-    }
-    if (userData.progress.progressHistory) {
-      await updateSetting('progressHistory', userData.progress.progressHistory);
-    }
-    
-    return true;
+    return await importBackup(await parseBackup(data), options);
   } catch (error) {
     console.error('Error importing user data:', error);
-    return false;
+    throw error;
   }
 };
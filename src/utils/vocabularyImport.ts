@@ -0,0 +1,295 @@
+// Vocabulary dataset import for the Arabic Learning Extension
+import { initDB, VocabularyItem } from './database';
+import { normalizeArabic, stemArabic } from './arabicNormalization';
+import { addOccurrence } from './lexemes';
+import { transliterate } from './transliteration';
+import { indexVocabularyItem } from './searchIndex';
+import { GlossLanguage } from './glosses';
+
+// Bump whenever the bundled word-by-word data files (or how they are read) change, so existing
+// installs re-import them on top of their current vocabulary
+export const DATASET_VERSION = 4;
+
+// Words written per transaction. Each batch commits together with its checkpoint.
+const IMPORT_BATCH_SIZE = 500;
+
+// Settings key holding the import checkpoint
+const CHECKPOINT_KEY = 'importCheckpoint';
+
+// Word-by-word gloss files besides English, keyed like en-quranwbw.json
+const EXTRA_GLOSS_LANGUAGES: GlossLanguage[] = ['ur', 'id', 'fr', 'tr'];
+
+interface ImportCheckpoint {
+  datasetVersion: number;
+  nextIndex: number; // Position in the word list to resume from
+  totalWords: number;
+  completed: boolean;
+  updatedAt: string;
+}
+
+interface WordMetadata {
+  surah_id: number;
+  ayah_number?: number;
+  word_position?: number;
+  lemma?: string;
+  root?: string;
+}
+
+/**
+ * Get the JSON object from a dynamically imported data file
+ * @param module The imported module
+ * @returns The parsed JSON object
+ */
+const jsonData = <T>(module: any): Record<string, T> => module.default || module;
+
+/**
+ * Work out where a word sits in the Quran. Metadata fields win; otherwise the
+ * key is read as a "surah:ayah:position" location.
+ * @param wordId Key of the word in the data files
+ * @param meta The word's metadata
+ * @returns The location, or null if it can't be determined
+ */
+const getWordLocation = (
+  wordId: string,
+  meta: WordMetadata
+): { surah: number; ayah: number; position: number } | null => {
+  const [surahKey, ayahKey, positionKey] = wordId.split(':').map(Number);
+  const surah = meta.surah_id ?? surahKey;
+  const ayah = meta.ayah_number ?? ayahKey;
+  const position = meta.word_position ?? positionKey;
+
+  if ([surah, ayah, position].some(value => value === undefined || isNaN(value))) {
+    return null;
+  }
+  return { surah, ayah, position };
+};
+
+/**
+ * Load the word-by-word glosses of one extra language
+ * @param language The gloss language
+ * @returns Glosses by word key, empty if the language isn't bundled
+ */
+const loadGlossFile = async (language: GlossLanguage): Promise<Record<string, string>> => {
+  try {
+    return jsonData<string>(await import(`../data/${language}-quranwbw.json`));
+  } catch (error) {
+    console.warn(`No word-by-word glosses bundled for "${language}"`, error);
+    return {};
+  }
+};
+
+/**
+ * Get the current import checkpoint
+ * @returns Promise with the checkpoint, or null if no import has started
+ */
+export const getImportCheckpoint = async (): Promise<ImportCheckpoint | null> => {
+  const db = await initDB();
+  const setting = await db.get('settings', CHECKPOINT_KEY);
+  return setting ? setting.value : null;
+};
+
+/**
+ * Build a vocabulary entry from one word of the dataset
+ * @param wordId Key of the word in the data files
+ * @param arabicWord The Uthmani text of the word
+ * @param translation The word-by-word gloss
+ * @param meta The word's metadata
+ * @returns The vocabulary entry (without an id)
+ */
+const buildVocabularyItem = (
+  wordId: string,
+  arabicWord: string,
+  translation: string,
+  meta: WordMetadata
+): VocabularyItem => {
+  // Determine difficulty based on word ID (lower IDs are more common)
+  let difficulty: 'beginner' | 'intermediate' | 'advanced';
+  const numericId = parseInt(wordId);
+  if (numericId <= 300) {
+    difficulty = 'beginner';
+  } else if (numericId <= 700) {
+    difficulty = 'intermediate';
+  } else {
+    difficulty = 'advanced';
+  }
+
+  // Create tags based on metadata
+  const tags = ['quranic'];
+  if (meta.surah_id <= 9) tags.push('frequently-used');
+
+  // Lookup keys; without a lemma in the metadata fall back to the light stem
+  const normalized = normalizeArabic(arabicWord);
+
+  return {
+    word: arabicWord,
+    transliteration: transliterate(arabicWord),
+    translation,
+    difficulty,
+    tags,
+    datasetVersion: DATASET_VERSION,
+    source: 'corpus',
+    normalized,
+    lemma: meta.lemma ? normalizeArabic(meta.lemma) : stemArabic(normalized),
+    root: meta.root ? normalizeArabic(meta.root) : undefined,
+  };
+};
+
+/**
+ * Load vocabulary data from the bundled JSON files.
+ * Every corpus position is folded into one lexeme per normalized word, counting
+ * how often each gloss occurs. Words are written in batches and a checkpoint is saved with each batch, so an
+ * import interrupted by the service worker shutting down resumes where it stopped.
+ * Entries from an older dataset version are updated in place, keeping their ids
+ * so learner progress stays attached to them. Custom entries are never modified.
+ * @returns Promise with the number of corpus words processed in this run
+ */
+export const loadVocabularyData = async (): Promise<number> => {
+  try {
+    // Open the database
+    const db = await initDB();
+
+    // Check if this dataset version is already loaded
+    let checkpoint = await getImportCheckpoint();
+    if (checkpoint && checkpoint.completed && checkpoint.datasetVersion === DATASET_VERSION) {
+      console.log('Vocabulary already loaded, skipping import');
+      return 0;
+    }
+
+    // Import the JSON data
+    const arabicWords = jsonData<string>(await import('../data/uthmani-qurancom.json'));
+    const translations = jsonData<string>(await import('../data/en-quranwbw.json'));
+    const metadata = jsonData<WordMetadata>(await import('../data/word-metadata.json'));
+    const extraGlosses = await Promise.all(
+      EXTRA_GLOSS_LANGUAGES.map(async language => [language, await loadGlossFile(language)] as const)
+    );
+    const wordIds = Object.keys(arabicWords);
+
+    // Start over when a new dataset version ships
+    if (!checkpoint || checkpoint.datasetVersion !== DATASET_VERSION) {
+      checkpoint = {
+        datasetVersion: DATASET_VERSION,
+        nextIndex: 0,
+        totalWords: wordIds.length,
+        completed: false,
+        updatedAt: new Date().toISOString(),
+      };
+    } else {
+      console.log(`Resuming vocabulary import at word ${checkpoint.nextIndex} of ${wordIds.length}`);
+    }
+
+    let processedCount = 0;
+
+    for (let start = checkpoint.nextIndex; start < wordIds.length; start += IMPORT_BATCH_SIZE) {
+      const batch = wordIds.slice(start, start + IMPORT_BATCH_SIZE);
+      const transaction = db.transaction(['vocabulary', 'occurrences', 'searchIndex', 'settings'], 'readwrite');
+      const store = transaction.objectStore('vocabulary');
+      const occurrencesStore = transaction.objectStore('occurrences');
+      // Lexemes touched by this batch, re-indexed once at the end of it
+      const updatedLexemes = new Map<number, VocabularyItem>();
+
+      for (const wordId of batch) {
+        const arabicWord = arabicWords[wordId];
+        const translation = translations[wordId];
+        const meta = metadata[wordId];
+
+        if (!arabicWord || !translation || !meta) continue;
+
+        // Glosses at this position in every other language that has one
+        const localized: Record<string, string> = {};
+        for (const [language, glosses] of extraGlosses) {
+          if (glosses[wordId]) localized[language] = glosses[wordId];
+        }
+
+        const vocabItem = buildVocabularyItem(wordId, arabicWord, translation, meta);
+        // Learner-created entries with the same spelling are left alone
+        const sameForm: VocabularyItem[] = await store.index('normalized').getAll(vocabItem.normalized!);
+        const existing = sameForm.find(item => item.source !== 'custom');
+
+        let lexeme: VocabularyItem;
+        if (!existing) {
+          lexeme = addOccurrence(vocabItem, arabicWord, translation, localized);
+        } else if ((existing.datasetVersion || 0) < DATASET_VERSION) {
+          // First occurrence in a newer dataset: restart the corpus counts
+          // without changing the entry's id, so its progress stays attached
+          lexeme = addOccurrence({
+            ...existing,
+            difficulty: vocabItem.difficulty,
+            tags: Array.from(new Set([...existing.tags, ...vocabItem.tags])),
+            transliteration: existing.transliteration || vocabItem.transliteration,
+            lemma: vocabItem.lemma,
+            root: vocabItem.root,
+            senses: [],
+            translations: {},
+            forms: [],
+            frequency: 0,
+            datasetVersion: DATASET_VERSION,
+          }, arabicWord, translation, localized);
+        } else {
+          // Another occurrence of a lexeme already seen in this dataset
+          lexeme = addOccurrence({
+            ...existing,
+            tags: Array.from(new Set([...existing.tags, ...vocabItem.tags])),
+          }, arabicWord, translation, localized);
+        }
+        const lexemeId = await store.put(lexeme) as number;
+        updatedLexemes.set(lexemeId, { ...lexeme, id: lexemeId });
+
+        // Link the lexeme to this position in the Quran
+        const location = getWordLocation(wordId, meta);
+        if (location) {
+          await occurrencesStore.put({
+            location: `${location.surah}:${location.ayah}:${location.position}`,
+            wordId: lexemeId,
+            ...location,
+            text: arabicWord,
+            translation,
+          });
+        }
+
+        processedCount++;
+      }
+
+      // Refresh the gloss search index for the lexemes this batch changed
+      const searchStore = transaction.objectStore('searchIndex');
+      for (const lexeme of updatedLexemes.values()) {
+        await indexVocabularyItem(searchStore, lexeme);
+      }
+
+      // Save the checkpoint in the same transaction as the batch
+      const nextIndex = start + batch.length;
+      checkpoint = {
+        ...checkpoint,
+        nextIndex,
+        totalWords: wordIds.length,
+        completed: nextIndex >= wordIds.length,
+        updatedAt: new Date().toISOString(),
+      };
+      await transaction.objectStore('settings').put({ id: CHECKPOINT_KEY, value: checkpoint });
+      await transaction.done;
+    }
+
+    // An empty dataset still counts as completed
+    if (!checkpoint.completed) {
+      await db.put('settings', { id: CHECKPOINT_KEY, value: { ...checkpoint, completed: true } });
+    }
+
+    console.log(`Loaded ${processedCount} vocabulary items into the database`);
+
+    // Add default settings without overwriting the learner's choices
+    const defaults: Array<[string, any]> = [
+      ['dailyGoal', 10],
+      ['notificationsEnabled', true],
+      ['theme', 'auto'],
+    ];
+    for (const [id, value] of defaults) {
+      if (!(await db.get('settings', id))) {
+        await db.put('settings', { id, value });
+      }
+    }
+
+    return processedCount;
+  } catch (error) {
+    console.error('Error loading vocabulary data:', error);
+    throw error;
+  }
+};
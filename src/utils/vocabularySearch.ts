@@ -0,0 +1,144 @@
+// Vocabulary search for the Arabic Learning Extension
+// Finds words by Arabic form or by gloss in any language ("the word for mercy")
+import { initDB, lookupWord, SearchIndexEntry, VocabularyItem } from './database';
+import { splitGlossWords, stemEnglish } from './searchIndex';
+import { containsArabic } from './textAnalysis';
+import { normalizeArabic } from './arabicNormalization';
+
+// Score multiplier for a term that only matches as a prefix
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// Arabic lookups are scored 0-1; scale them to match a hit in the main translation
+const ARABIC_MATCH_WEIGHT = 3;
+
+// Candidates considered per Arabic word in the query
+const ARABIC_CANDIDATES = 50;
+
+export type SearchMatchSource = 'arabic' | 'gloss';
+
+export interface SearchOptions {
+  limit?: number; // Page size
+  offset?: number; // Results to skip
+  prefix?: boolean; // Treat the last gloss word as a prefix (search-as-you-type)
+  difficulty?: VocabularyItem['difficulty'];
+  tag?: string;
+}
+
+export interface SearchResult {
+  item: VocabularyItem;
+  score: number;
+  source: SearchMatchSource;
+  matchedTerms: string[]; // Query terms this entry matched
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  total: number; // Matches before paging
+  offset: number;
+  limit: number;
+}
+
+interface Candidate {
+  source: SearchMatchSource;
+  termScores: Map<string, number>; // Best score per query term
+}
+
+/**
+ * Search the vocabulary by Arabic word or by gloss.
+ * Arabic words in the query go through lookupWord; every word is also matched
+ * against the gloss index, both as written (non-English glosses) and as an
+ * English stem. Entries matching more of the query rank higher, then by field
+ * weight, then by corpus frequency.
+ * @param query Arabic and/or English text
+ * @param options Paging, prefix matching and filters
+ * @returns Promise with one page of ranked results
+ */
+export const searchVocabulary = async (query: string, options: SearchOptions = {}): Promise<SearchPage> => {
+  const { limit = 20, offset = 0, prefix = true, difficulty, tag } = options;
+  const emptyPage = { results: [], total: 0, offset, limit };
+
+  try {
+    const db = await initDB();
+    const arabicTokens = query.trim().split(/\s+/).filter(containsArabic);
+    const glossWords = Array.from(new Set(splitGlossWords(query)));
+    // Arabic words count under the normalized form the gloss search also uses, so a word
+    // is one query term however it matches
+    const arabicTerms = new Map(arabicTokens.map(token => [token, splitGlossWords(token)[0] || normalizeArabic(token)]));
+    const queryTerms = Array.from(new Set([...arabicTerms.values(), ...glossWords]));
+
+    if (queryTerms.length === 0) return emptyPage;
+
+    const candidates = new Map<number, Candidate>();
+    const addMatch = (wordId: number, source: SearchMatchSource, term: string, score: number) => {
+      const candidate = candidates.get(wordId) || { source, termScores: new Map<string, number>() };
+      if (source === 'arabic') candidate.source = 'arabic';
+      candidate.termScores.set(term, Math.max(candidate.termScores.get(term) || 0, score));
+      candidates.set(wordId, candidate);
+    };
+
+    // Arabic words: exact, normalized and stemmed matches
+    for (const [token, term] of arabicTerms) {
+      for (const match of await lookupWord(token, ARABIC_CANDIDATES)) {
+        addMatch(match.item.id!, 'arabic', term, match.score * ARABIC_MATCH_WEIGHT);
+      }
+    }
+
+    // Gloss words, as written and stemmed, plus prefix matches for the last word
+    for (const [index, word] of glossWords.entries()) {
+      const isPrefix = prefix && index === glossWords.length - 1;
+
+      for (const variant of new Set([word, stemEnglish(word)])) {
+        const range = isPrefix
+          ? IDBKeyRange.bound([variant], [`${variant}\uffff`])
+          : IDBKeyRange.bound([variant, -Infinity], [variant, Infinity]);
+        const entries: SearchIndexEntry[] = await db.getAll('searchIndex', range);
+
+        for (const entry of entries) {
+          const factor = entry.term === variant ? 1 : PREFIX_MATCH_FACTOR;
+          addMatch(entry.wordId, 'gloss', word, entry.weight * factor);
+        }
+      }
+    }
+
+    // Load the candidates and apply filters
+    const transaction = db.transaction('vocabulary', 'readonly');
+    const items = await Promise.all(
+      Array.from(candidates.keys()).map(wordId => transaction.store.get(wordId) as Promise<VocabularyItem | undefined>)
+    );
+    await transaction.done;
+
+    const normalizedQuery = glossWords.join(' ');
+    const ranked: SearchResult[] = [];
+
+    for (const item of items) {
+      if (!item || item.id === undefined) continue;
+      if (difficulty && item.difficulty !== difficulty) continue;
+      if (tag && !item.tags.includes(tag)) continue;
+
+      const { source, termScores } = candidates.get(item.id)!;
+      const coverage = termScores.size / queryTerms.length;
+      let score = Array.from(termScores.values()).reduce((sum, value) => sum + value, 0) * coverage;
+
+      // A translation that is exactly the query beats one that merely contains it
+      const glosses = [item.translation, ...Object.values(item.translations || {})];
+      if (normalizedQuery && glosses.some(gloss => splitGlossWords(gloss).join(' ') === normalizedQuery)) {
+        score *= 1.5;
+      }
+      score += Math.log10(item.frequency || 1) * 0.1;
+
+      ranked.push({ item, score, source, matchedTerms: Array.from(termScores.keys()) });
+    }
+
+    ranked.sort((a, b) => b.score - a.score);
+
+    return {
+      results: ranked.slice(offset, offset + limit),
+      total: ranked.length,
+      offset,
+      limit,
+    };
+  } catch (error) {
+    console.error('Error searching vocabulary:', error);
+    return emptyPage;
+  }
+};
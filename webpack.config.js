@@ -4,6 +4,7 @@ module.exports = {
   mode: 'development',
   entry: {
     popup: './src/popup.tsx',
+    options: './src/options.tsx',
     content: './src/content.tsx',
     background: './src/background.ts'
   },
@@ -21,6 +22,11 @@ module.exports = {
         use: 'ts-loader',
         exclude: /node_modules/,
       },
+      {
+        // sql.js loads its WebAssembly build from this URL
+        test: /\.wasm$/,
+        type: 'asset/resource',
+      },
       {
         test: /\.css$/,
         use: [